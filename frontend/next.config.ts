@@ -13,6 +13,8 @@ const securityHeaders = [
 const nextConfig: NextConfig = {
   reactStrictMode: true,
   poweredByHeader: false,
+  // The SDK is consumed as TypeScript source
+  transpilePackages: ['@elata/sdk'],
   async headers() {
     return [
       {
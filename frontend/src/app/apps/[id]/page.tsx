@@ -0,0 +1,249 @@
+'use client';
+
+import { useMemo } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { useParams } from 'next/navigation';
+import { formatEther, formatUnits, zeroAddress } from 'viem';
+import { Header } from '../../../components/Header';
+import { Footer } from '../../../components/Footer';
+import { NetworkGuard } from '../../../components/NetworkGuard';
+import { BuyPanel } from '../../../components/BuyPanel';
+import { GraduationPanel } from '../../../components/GraduationPanel';
+import { PriceHistory } from '../../../components/PriceHistory';
+import { useAppFactory } from '../../../hooks/useAppFactory';
+import { useAppToken } from '../../../hooks/useAppToken';
+import { toAppCardData } from '../../../lib/apps';
+import type { AppWithMetadata } from '../../../types';
+
+const formatAmount = (value: bigint, decimals = 18) =>
+  parseFloat(formatUnits(value, decimals)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const formatDate = (seconds: bigint) => new Date(Number(seconds) * 1000).toLocaleString();
+
+function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex justify-between items-start gap-4 py-2 border-b border-cream2 last:border-0 text-sm font-sf-pro">
+      <span className="text-gray3 shrink-0">{label}</span>
+      <span className="text-offBlack text-right break-all">{children}</span>
+    </div>
+  );
+}
+
+function AddressValue({ address }: { address: `0x${string}` }) {
+  if (address === zeroAddress) return <span className="text-gray3">—</span>;
+  return <span className="font-mono text-xs">{address}</span>;
+}
+
+export default function AppDetailPage() {
+  const params = useParams<{ id: string }>();
+  const appId = /^\d+$/.test(params.id) ? Number(params.id) : -1;
+
+  return (
+    <div className="min-h-screen bg-offCream">
+      <Header />
+
+      <main className="w-full">
+        <section className="py-12 px-4">
+          <div className="max-w-7xl mx-auto">
+            <Link href="/" className="inline-block mb-6 text-sm text-gray3 font-sf-pro hover:text-elataGreen transition-colors">
+              ← Back to apps
+            </Link>
+
+            <NetworkGuard contracts={['AppFactory']}>
+              <AppDetail appId={appId} />
+            </NetworkGuard>
+          </div>
+        </section>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
+
+function AppDetail({ appId }: { appId: number }) {
+  const { useAppCount, useAppsWithMetadata, useAppCreated } = useAppFactory();
+  const { data: appCount, isLoading: isLoadingCount } = useAppCount();
+
+  const exists = appId >= 0 && appCount !== undefined && BigInt(appId) < appCount;
+  const ids = useMemo(() => (exists ? [BigInt(appId)] : []), [exists, appId]);
+  const { apps, isLoading, refetch } = useAppsWithMetadata(ids);
+  const { data: created } = useAppCreated(exists ? appId : -1);
+
+  const app = apps[0];
+  const { useTokenInfo } = useAppToken(app?.token);
+  const { decimals } = useTokenInfo();
+
+  if (isLoadingCount || (exists && isLoading && !app)) {
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 bg-white rounded-2xl p-8 shadow-xl animate-pulse">
+          <div className="h-32 bg-cream2 rounded-xl mb-4"></div>
+          <div className="h-6 bg-cream2 rounded mb-2"></div>
+          <div className="h-4 bg-cream2 rounded"></div>
+        </div>
+        <div className="bg-white rounded-2xl p-8 shadow-xl animate-pulse">
+          <div className="h-48 bg-cream2 rounded-xl"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!exists || !app) {
+    return (
+      <div className="bg-white rounded-2xl p-12 shadow-xl text-center">
+        <h2 className="text-2xl font-montserrat font-bold text-offBlack mb-2">App Not Found</h2>
+        <p className="text-gray3 font-sf-pro">
+          There is no app #{appId >= 0 ? appId : '?'} on this network.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-6">
+        <AppOverview app={app} />
+        <PriceHistory app={app} />
+        <CurveDetails app={app} />
+        <TokenDetails app={app} />
+
+        {/* App Struct */}
+        <div className="bg-white rounded-2xl p-6 shadow-xl">
+          <h2 className="font-montserrat font-bold text-lg text-offBlack mb-4">Launch Record</h2>
+          <DetailRow label="Creator"><AddressValue address={app.creator} /></DetailRow>
+          <DetailRow label="Token"><AddressValue address={app.token} /></DetailRow>
+          <DetailRow label="Staking vault"><AddressValue address={app.vault} /></DetailRow>
+          <DetailRow label="Bonding curve"><AddressValue address={app.curve} /></DetailRow>
+          <DetailRow label="Uniswap pair"><AddressValue address={app.pair} /></DetailRow>
+          <DetailRow label="LP locker"><AddressValue address={app.locker} /></DetailRow>
+          <DetailRow label="Created">{formatDate(app.createdAt)}</DetailRow>
+          <DetailRow label="Graduated">{app.graduated ? formatDate(app.graduatedAt) : 'No'}</DetailRow>
+          <DetailRow label="Total raised">{app.graduated ? `${formatAmount(app.totalRaised)} ELTA` : '—'}</DetailRow>
+          <DetailRow label="Final supply">{app.graduated ? formatAmount(app.finalSupply) : '—'}</DetailRow>
+          {created && (
+            <>
+              <DetailRow label="Creator stake">
+                {decimals !== undefined ? `${formatAmount(created.creatorStaked, decimals)} ${app.metadata.symbol}` : '…'}
+              </DetailRow>
+              <DetailRow label="Creation tx">
+                <span className="font-mono text-xs">{created.transactionHash}</span>
+              </DetailRow>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <GraduationPanel app={app} onGraduated={refetch} />
+        <BuyPanel app={app} onTraded={refetch} />
+      </div>
+    </div>
+  );
+}
+
+function AppOverview({ app }: { app: AppWithMetadata }) {
+  const card = toAppCardData(app);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-xl">
+      <div className="flex items-start gap-4">
+        <div className="relative w-20 h-20 shrink-0 rounded-xl overflow-hidden bg-gradient-to-br from-elataGreen/20 to-accentRed/20 flex items-center justify-center">
+          <span className="text-lg font-montserrat font-bold text-elataGreen">{card.symbol}</span>
+          {card.imageURI && (
+            <Image src={card.imageURI} alt={card.name} fill unoptimized className="object-cover" />
+          )}
+        </div>
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-3 mb-1">
+            <h1 className="font-montserrat font-bold text-2xl text-offBlack truncate">{card.name}</h1>
+            <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+              app.graduated ? 'bg-success text-white' : 'bg-elataGreen text-white'
+            }`}>
+              {app.graduated ? 'Graduated' : 'Active'}
+            </span>
+          </div>
+          <p className="text-sm text-gray3 font-sf-pro mb-3">${card.symbol} • App #{card.id}</p>
+          <p className="text-sm text-offBlack font-sf-pro mb-2">{card.description}</p>
+          {card.website && (
+            <a
+              href={card.website}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-elataGreen font-sf-pro hover:underline break-all"
+            >
+              {card.website}
+            </a>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CurveDetails({ app }: { app: AppWithMetadata }) {
+  const curve = app.curveState;
+  if (!curve) return null;
+
+  const progress = Math.min(Number(curve.progress) / 100, 100);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-xl">
+      <h2 className="font-montserrat font-bold text-lg text-offBlack mb-4">Bonding Curve</h2>
+
+      <div className="mb-4">
+        <div className="flex justify-between items-center mb-2 text-xs font-sf-pro">
+          <span className="text-gray3">Graduation progress</span>
+          <span className="font-medium text-elataGreen">{progress.toFixed(2)}%</span>
+        </div>
+        <div className="w-full bg-cream2 rounded-full h-2">
+          <div
+            className="bg-gradient-to-r from-elataGreen to-accentRed h-2 rounded-full transition-all duration-500"
+            style={{ width: `${Math.max(progress, 2)}%` }}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm font-sf-pro">
+        <div className="bg-gray1/20 rounded-lg p-3">
+          <p className="text-xs text-gray3">ELTA reserve</p>
+          <p className="font-medium text-offBlack">{formatAmount(curve.eltaReserve)}</p>
+        </div>
+        <div className="bg-gray1/20 rounded-lg p-3">
+          <p className="text-xs text-gray3">Token reserve</p>
+          <p className="font-medium text-offBlack">{formatAmount(curve.tokenReserve)}</p>
+        </div>
+        <div className="bg-gray1/20 rounded-lg p-3">
+          <p className="text-xs text-gray3">Target</p>
+          <p className="font-medium text-offBlack">{formatAmount(curve.target)} ELTA</p>
+        </div>
+        <div className="bg-gray1/20 rounded-lg p-3">
+          <p className="text-xs text-gray3">Price (ELTA)</p>
+          <p className="font-medium text-offBlack">{formatEther(curve.currentPrice)}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TokenDetails({ app }: { app: AppWithMetadata }) {
+  const { useTokenInfo } = useAppToken(app.token);
+  const { decimals, totalSupply, maxSupply } = useTokenInfo();
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-xl">
+      <h2 className="font-montserrat font-bold text-lg text-offBlack mb-4">Token</h2>
+      <DetailRow label="Name">{app.metadata.name}</DetailRow>
+      <DetailRow label="Symbol">{app.metadata.symbol}</DetailRow>
+      <DetailRow label="Decimals">{decimals ?? '…'}</DetailRow>
+      <DetailRow label="Total supply">
+        {totalSupply !== undefined && decimals !== undefined ? formatAmount(totalSupply, decimals) : '…'}
+      </DetailRow>
+      <DetailRow label="Max supply">
+        {maxSupply !== undefined && decimals !== undefined ? formatAmount(maxSupply, decimals) : '…'}
+      </DetailRow>
+      <DetailRow label="Address"><AddressValue address={app.token} /></DetailRow>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { Header } from '../../components/Header';
 import { Footer } from '../../components/Footer';
 import { CreateAppForm } from '../../components/CreateAppForm';
+import { NetworkGuard } from '../../components/NetworkGuard';
 import { useAccount } from 'wagmi';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { IoRocket, IoTrendingUp, IoCheckmarkCircle, IoWallet } from 'react-icons/io5';
@@ -123,7 +124,9 @@ export default function CreateAppPage() {
 
             {/* Create Form or Connect Wallet */}
             {isConnected ? (
-              <CreateAppForm />
+              <NetworkGuard contracts={['AppFactory', 'AppFactoryViews', 'ELTA']}>
+                <CreateAppForm />
+              </NetworkGuard>
             ) : (
               <div className="bg-white rounded-2xl p-12 shadow-lg text-center">
                 <div className="w-16 h-16 bg-elataGreen/10 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -5,6 +5,7 @@ import { Footer } from '../components/Footer';
 import { AppList } from '../components/AppList';
 import { LaunchStats } from '../components/LaunchStats';
 import { HeroSection } from '../components/HeroSection';
+import { NetworkGuard } from '../components/NetworkGuard';
 
 export default function Home() {
   return (
@@ -73,7 +74,9 @@ export default function Home() {
         {/* Launch Statistics */}
         <section className="py-16 px-4">
           <div className="max-w-7xl mx-auto">
-            <LaunchStats />
+            <NetworkGuard contracts={['AppFactoryViews']} fallback={null}>
+              <LaunchStats />
+            </NetworkGuard>
           </div>
         </section>
         
@@ -91,7 +94,9 @@ export default function Home() {
               </div>
             </div>
             
-            <AppList />
+            <NetworkGuard contracts={['AppFactory']}>
+              <AppList />
+            </NetworkGuard>
         </div>
         </section>
       </main>
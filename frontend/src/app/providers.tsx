@@ -5,6 +5,7 @@ import { WagmiProvider } from 'wagmi';
 import { RainbowKitProvider, lightTheme, Theme } from '@rainbow-me/rainbowkit';
 import merge from 'lodash.merge';
 import { config } from '../lib/wagmi';
+import { TransactionProvider } from '../components/TransactionProvider';
 import '@rainbow-me/rainbowkit/styles.css';
 
 const queryClient = new QueryClient();
@@ -28,7 +29,7 @@ export function Providers({ children }: { children: React.ReactNode }) {
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider theme={theme} showRecentTransactions={true}>
-          {children}
+          <TransactionProvider>{children}</TransactionProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
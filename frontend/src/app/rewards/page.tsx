@@ -0,0 +1,62 @@
+'use client';
+
+import { Header } from '../../components/Header';
+import { Footer } from '../../components/Footer';
+import { EpochExplorer } from '../../components/EpochExplorer';
+import { NetworkGuard } from '../../components/NetworkGuard';
+import { IoApps, IoBusiness, IoLockClosed } from 'react-icons/io5';
+
+export default function RewardsPage() {
+  return (
+    <div className="min-h-screen bg-offCream">
+      <Header />
+      
+      <main className="w-full">
+        {/* Hero Section */}
+        <section className="px-4 pt-12 pb-4 bg-gradient-to-br from-cream1 via-offCream to-cream2">
+          <div className="max-w-6xl mx-auto text-center">
+            <h1 className="font-montserrat font-bold text-4xl text-offBlack mb-6 animate-fadeInUp">
+              Rewards Distribution
+            </h1>
+            <p className="font-sf-pro text-gray3 leading-relaxed animate-fadeInUp stagger-2 max-w-4xl mx-auto">
+              Every protocol revenue deposit is split on-chain and opens a veELTA reward epoch. Audit each
+              distribution below: where the ELTA went and the veELTA snapshot it is shared against.
+            </p>
+          </div>
+        </section>
+        
+        {/* Content Section */}
+        <section className="py-8 px-4">
+          <div className="max-w-6xl mx-auto">
+            {/* Revenue split */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              <div className="bg-white rounded-2xl p-6 shadow-lg">
+                <IoApps className="w-8 h-8 text-elataGreen mb-3" />
+                <h3 className="font-montserrat font-medium text-offBlack mb-1">70% App stakers</h3>
+                <p className="text-sm text-gray3 font-sf-pro">Sent to AppRewardsDistributor for app token stakers</p>
+              </div>
+              <div className="bg-white rounded-2xl p-6 shadow-lg">
+                <IoLockClosed className="w-8 h-8 text-elataGreen mb-3" />
+                <h3 className="font-montserrat font-medium text-offBlack mb-1">15% veELTA holders</h3>
+                <p className="text-sm text-gray3 font-sf-pro">
+                  Claimable pro rata to veELTA held at the epoch&apos;s snapshot block
+                </p>
+              </div>
+              <div className="bg-white rounded-2xl p-6 shadow-lg">
+                <IoBusiness className="w-8 h-8 text-elataGreen mb-3" />
+                <h3 className="font-montserrat font-medium text-offBlack mb-1">15% Treasury</h3>
+                <p className="text-sm text-gray3 font-sf-pro">Transferred to the protocol treasury</p>
+              </div>
+            </div>
+
+            <NetworkGuard contracts={['RewardsDistributor', 'VeELTA']}>
+              <EpochExplorer />
+            </NetworkGuard>
+          </div>
+        </section>
+      </main>
+      
+      <Footer />
+    </div>
+  );
+}
@@ -1,11 +1,19 @@
 'use client';
 
-import Link from 'next/link';
+import { useEffect } from 'react';
+import { formatEther } from 'viem';
 import { useAccount } from 'wagmi';
+import { decodeElataError } from '@elata/sdk';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { Header } from '../../components/Header';
 import { Footer } from '../../components/Footer';
-import { IoStatsChart, IoTrophy, IoFlash, IoPeople, IoCheckmarkCircle } from 'react-icons/io5';
+import { NetworkGuard } from '../../components/NetworkGuard';
+import { SimulationNotice } from '../../components/SimulationNotice';
+import { XPHistoryChart } from '../../components/XPHistoryChart';
+import { useElataXP } from '../../hooks/useElataXP';
+import { getExplorerTxUrl } from '../../lib/transactions';
+import type { XPActivity } from '../../types';
+import { IoStatsChart, IoTrophy, IoPeople, IoCheckmarkCircle } from 'react-icons/io5';
 
 export default function XPPage() {
   const { isConnected } = useAccount();
@@ -53,47 +61,12 @@ export default function XPPage() {
           </p>
         </div>
 
-        {/* XP Overview */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-12">
-          <div className="bg-white rounded-2xl p-8 shadow-lg text-center">
-            <div className="w-16 h-16 bg-elataGreen/10 rounded-full flex items-center justify-center mx-auto mb-4">
-              <IoStatsChart className="w-8 h-8 text-elataGreen" />
-            </div>
-            <div className="text-3xl font-montserrat font-bold text-elataGreen mb-2">
-              1,250
-            </div>
-            <div className="text-sm text-gray3 font-sf-pro">
-              Total XP Earned
-            </div>
-          </div>
-          
-          <div className="bg-white rounded-2xl p-8 shadow-lg text-center">
-            <div className="w-16 h-16 bg-accentRed/10 rounded-full flex items-center justify-center mx-auto mb-4">
-              <IoTrophy className="w-8 h-8 text-accentRed" />
-            </div>
-            <div className="text-3xl font-montserrat font-bold text-accentRed mb-2">
-              Gold
-            </div>
-            <div className="text-sm text-gray3 font-sf-pro">
-              Current Tier
-            </div>
-          </div>
-          
-          <div className="bg-white rounded-2xl p-8 shadow-lg text-center">
-            <div className="w-16 h-16 bg-elataGreen/10 rounded-full flex items-center justify-center mx-auto mb-4">
-              <IoFlash className="w-8 h-8 text-elataGreen" />
-            </div>
-            <div className="text-3xl font-montserrat font-bold text-elataGreen mb-2">
-              2.5x
-            </div>
-            <div className="text-sm text-gray3 font-sf-pro">
-              Governance Multiplier
-            </div>
-          </div>
-        </div>
+        <NetworkGuard contracts={['ElataXP']} className="mb-12">
+          <XPDashboard />
+        </NetworkGuard>
 
         {/* XP Earning Activities */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-12">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           <div className="bg-white rounded-2xl p-8 shadow-lg">
             <h3 className="text-xl font-montserrat font-bold text-offBlack mb-6">
               How to Earn XP
@@ -172,39 +145,213 @@ export default function XPPage() {
             </div>
           </div>
         </div>
-
-        {/* Coming Soon Notice */}
-        <div className="bg-white rounded-2xl p-12 shadow-lg text-center">
-          <div className="w-20 h-20 bg-elataGreen/10 rounded-full flex items-center justify-center mx-auto mb-6">
-            <IoStatsChart className="w-10 h-10 text-elataGreen" />
-          </div>
-          <h2 className="text-3xl font-montserrat font-bold text-offBlack mb-4">
-            XP System Coming Soon
-          </h2>
-          <p className="text-lg text-gray3 mb-8 font-sf-pro max-w-2xl mx-auto">
-            The ELTA XP system is currently in development. Track your participation, 
-            earn rewards, and unlock governance benefits through protocol engagement.
-          </p>
-          
-          <div className="flex flex-col sm:flex-row gap-4 justify-center">
-            <Link
-              href="/create"
-              className="inline-flex items-center justify-center px-6 sm:px-8 py-3 font-sf-pro font-medium rounded-none shadow-lg hover:shadow-xl transform hover:scale-105 hover:-translate-y-1 transition-all duration-300"
-              style={{ backgroundColor: '#171717', color: '#FDFDFD' }}
-            >
-              Start Earning XP
-            </Link>
-            <Link
-              href="/staking"
-              className="inline-flex items-center justify-center px-6 sm:px-8 py-3 bg-white text-offBlack font-sf-pro font-medium rounded-full shadow-lg hover:shadow-xl hover:bg-gray1/20 transform hover:scale-105 hover:-translate-y-1 transition-all duration-300"
-            >
-              Learn About Staking
-            </Link>
-          </div>
-        </div>
       </main>
       
       <Footer />
     </div>
   );
 }
+
+// Matches the tier benefits listed below (XP, not wei)
+const XP_TIERS = [
+  { name: 'Gold', min: 1000, color: '#FFD700' },
+  { name: 'Silver', min: 500, color: '#C0C0C0' },
+  { name: 'Bronze', min: 0, color: '#CD7F32' },
+];
+
+const formatXP = (value: bigint) =>
+  parseFloat(formatEther(value)).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const describeActivity = (event: XPActivity) => {
+  const by = event.operator ? shortAddress(event.operator) : undefined;
+  switch (event.source) {
+    case 'award':
+      return `Awarded by operator ${by}`;
+    case 'updateBySig':
+      return `Signed award from operator ${by}`;
+    case 'revoke':
+      return `Revoked by operator ${by}`;
+    default:
+      return event.type === 'awarded' ? 'Awarded via another contract' : 'Revoked via another contract';
+  }
+};
+
+function XPDashboard() {
+  const { address, chain } = useAccount();
+  const {
+    useBalance,
+    useVotes,
+    useDelegate,
+    useTotalSupply,
+    useActivity,
+    useHistory,
+    useSimulateDelegate,
+    delegate,
+    isDelegating,
+    delegateTx,
+    delegateError,
+  } = useElataXP();
+  const { data: balance, refetch: refetchBalance } = useBalance();
+  const { data: votes, refetch: refetchVotes } = useVotes();
+  const { data: delegatee, refetch: refetchDelegate } = useDelegate();
+  const { data: totalSupply } = useTotalSupply();
+  const { data: activity, isLoading: isLoadingActivity } = useActivity();
+  const { data: history, isLoading: isLoadingHistory } = useHistory(activity);
+
+  // XP minted by updateBySig is not checkpointed until the holder delegates,
+  // so getPastXP (and governance) would miss it
+  const isSelfDelegated = !!address && delegatee?.toLowerCase() === address.toLowerCase();
+  const hasUncheckpointedXP = balance !== undefined && votes !== undefined && balance > 0n && !isSelfDelegated;
+  const delegateSimulation = useSimulateDelegate(address, hasUncheckpointedXP);
+
+  useEffect(() => {
+    if (activity) {
+      refetchBalance();
+      refetchVotes();
+    }
+  }, [activity?.length]);
+
+  useEffect(() => {
+    if (delegateTx.isSuccess) {
+      refetchDelegate();
+      refetchVotes();
+    }
+  }, [delegateTx.isSuccess]);
+
+  const xp = balance !== undefined ? Number(formatEther(balance)) : undefined;
+  const tier = xp !== undefined ? XP_TIERS.find((t) => xp >= t.min) : undefined;
+  const share = balance !== undefined && totalSupply ? Number((balance * 10_000n) / totalSupply) / 100 : undefined;
+  const txError = delegateError || delegateTx.error;
+
+  return (
+    <>
+      {/* XP Overview */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-12">
+        <div className="bg-white rounded-2xl p-8 shadow-lg text-center">
+          <div className="w-16 h-16 bg-elataGreen/10 rounded-full flex items-center justify-center mx-auto mb-4">
+            <IoStatsChart className="w-8 h-8 text-elataGreen" />
+          </div>
+          <div className="text-3xl font-montserrat font-bold text-elataGreen mb-2">
+            {balance !== undefined ? formatXP(balance) : '…'}
+          </div>
+          <div className="text-sm text-gray3 font-sf-pro">
+            Your XP
+          </div>
+        </div>
+        
+        <div className="bg-white rounded-2xl p-8 shadow-lg text-center">
+          <div className="w-16 h-16 bg-accentRed/10 rounded-full flex items-center justify-center mx-auto mb-4">
+            <IoTrophy className="w-8 h-8 text-accentRed" />
+          </div>
+          <div className="text-3xl font-montserrat font-bold mb-2" style={{ color: tier?.color }}>
+            {tier?.name ?? '…'}
+          </div>
+          <div className="text-sm text-gray3 font-sf-pro">
+            Current Tier
+          </div>
+        </div>
+        
+        <div className="bg-white rounded-2xl p-8 shadow-lg text-center">
+          <div className="w-16 h-16 bg-elataGreen/10 rounded-full flex items-center justify-center mx-auto mb-4">
+            <IoPeople className="w-8 h-8 text-elataGreen" />
+          </div>
+          <div className="text-3xl font-montserrat font-bold text-elataGreen mb-2">
+            {share !== undefined ? `${share.toFixed(2)}%` : '…'}
+          </div>
+          <div className="text-sm text-gray3 font-sf-pro">
+            Share of all XP{totalSupply !== undefined && ` (${formatXP(totalSupply)} total)`}
+          </div>
+        </div>
+      </div>
+
+      {/* Delegation */}
+      {hasUncheckpointedXP && (
+        <div className="bg-white rounded-2xl p-8 shadow-lg mb-12">
+          <h3 className="text-xl font-montserrat font-bold text-offBlack mb-2">
+            Activate XP voting weight
+          </h3>
+          <p className="text-sm text-gray3 font-sf-pro mb-4">
+            {votes !== undefined && votes > 0n
+              ? `Your XP is delegated elsewhere, so only ${formatXP(votes)} XP counts for you in governance and the history below.`
+              : 'Your XP was awarded by signature and is not checkpointed yet, so governance and the history below do not count it.'}{' '}
+            Delegating to yourself fixes this for all future snapshots.
+          </p>
+          <SimulationNotice simulation={delegateSimulation} className="mb-3" />
+          <button
+            onClick={() => address && delegate(address)}
+            disabled={!!delegateSimulation.revert || isDelegating || delegateTx.isLoading}
+            className="bg-elataGreen text-white py-3 px-6 rounded-lg font-medium hover:bg-elataGreen/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isDelegating || delegateTx.isLoading ? 'Delegating...' : 'Delegate to Myself'}
+          </button>
+          {txError && (
+            <p className="mt-3 text-accentRed text-xs font-sf-pro break-words">{decodeElataError(txError).message}</p>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-12">
+        {/* History */}
+        <div className="bg-white rounded-2xl p-8 shadow-lg">
+          <h3 className="text-xl font-montserrat font-bold text-offBlack mb-6">
+            XP History
+          </h3>
+          {isLoadingActivity || isLoadingHistory ? (
+            <div className="h-[200px] bg-cream2 rounded animate-pulse"></div>
+          ) : (
+            <XPHistoryChart points={history ?? []} />
+          )}
+        </div>
+
+        {/* Activity */}
+        <div className="bg-white rounded-2xl p-8 shadow-lg">
+          <h3 className="text-xl font-montserrat font-bold text-offBlack mb-6">
+            Activity
+          </h3>
+          {isLoadingActivity ? (
+            <p className="text-sm text-gray3 font-sf-pro">Loading activity…</p>
+          ) : !activity?.length ? (
+            <p className="text-sm text-gray3 font-sf-pro">No XP awarded yet.</p>
+          ) : (
+            <ul className="divide-y divide-cream2 text-sm font-sf-pro max-h-[320px] overflow-y-auto">
+              {activity.map((event) => {
+                const href = getExplorerTxUrl(chain, event.transactionHash);
+                return (
+                  <li key={`${event.transactionHash}-${event.logIndex}`} className="flex items-center justify-between py-2">
+                    <div className="flex items-center space-x-3">
+                      <div
+                        className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                          event.type === 'awarded' ? 'bg-elataGreen/10' : 'bg-accentRed/10'
+                        }`}
+                      >
+                        <IoCheckmarkCircle
+                          className={`w-4 h-4 ${event.type === 'awarded' ? 'text-elataGreen' : 'text-accentRed'}`}
+                        />
+                      </div>
+                      <div>
+                        <p className={`font-medium ${event.type === 'awarded' ? 'text-elataGreen' : 'text-accentRed'}`}>
+                          {event.type === 'awarded' ? '+' : '−'}
+                          {formatXP(event.amount)} XP
+                        </p>
+                        <p className="text-xs text-gray3">
+                          {describeActivity(event)} · {new Date(event.timestamp * 1000).toLocaleString()}
+                        </p>
+                      </div>
+                    </div>
+                    {href && (
+                      <a href={href} target="_blank" rel="noopener noreferrer" className="text-xs text-gray3 hover:text-elataGreen">
+                        View ↗
+                      </a>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
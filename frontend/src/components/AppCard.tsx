@@ -1,8 +1,11 @@
 'use client';
 
+import { useState } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { formatEther } from 'viem';
+import { toAppCardData } from '../lib/apps';
+import { BuyPanel } from './BuyPanel';
 import type { AppWithMetadata } from '../types';
 
 interface AppCardProps {
@@ -11,26 +14,31 @@ interface AppCardProps {
 }
 
 export function AppCard({ app, className = '' }: AppCardProps) {
-  const progress = app.graduated ? 100 : Math.min((Number(app.totalRaised) / (42000 * 1e18)) * 100, 100);
-  const totalRaisedFormatted = parseFloat(formatEther(app.totalRaised)).toLocaleString();
-  const targetFormatted = '42,000'; // From contract default
+  const [isBuying, setIsBuying] = useState(false);
+  const card = toAppCardData(app);
+  const progress = card.progress;
+  const totalRaisedFormatted = parseFloat(formatEther(card.totalRaised)).toLocaleString();
+  const targetFormatted = parseFloat(formatEther(card.target)).toLocaleString();
   
   return (
-    <Link href={`/app/${app.id}`}>
-      <div className={`card group cursor-pointer h-full ${className}`}>
+    <div className={`card group h-full flex flex-col ${className}`}>
+      <Link href={`/apps/${app.id}`} className="flex-1 flex flex-col cursor-pointer">
         {/* App Image */}
         <div className="relative w-full h-32 mb-4 rounded-xl overflow-hidden bg-cream1">
-          <Image
-            src={app.metadata.imageURI}
-            alt={app.metadata.name}
-            fill
-            className="object-cover group-hover:scale-105 transition-transform duration-300"
-            onError={(e) => {
-              // Fallback to gradient background
-              const target = e.target as HTMLImageElement;
-              target.style.display = 'none';
-            }}
-          />
+          {card.imageURI && (
+            <Image
+              src={card.imageURI}
+              alt={card.name}
+              fill
+              unoptimized
+              className="object-cover group-hover:scale-105 transition-transform duration-300"
+              onError={(e) => {
+                // Fallback to gradient background
+                const target = e.target as HTMLImageElement;
+                target.style.display = 'none';
+              }}
+            />
+          )}
           {/* Fallback gradient */}
           <div className="absolute inset-0 bg-gradient-to-br from-elataGreen/20 to-accentRed/20 flex items-center justify-center">
             <span className="text-2xl font-montserrat font-bold text-elataGreen">
@@ -106,30 +114,54 @@ export function AppCard({ app, className = '' }: AppCardProps) {
               {app.creator.slice(0, 6)}...{app.creator.slice(-4)}
             </span>
             <span>
-              {new Date(Number(app.createdAt)).toLocaleDateString()}
+              {card.createdAt.toLocaleDateString()}
             </span>
           </div>
         </div>
+      </Link>
 
-        {/* Action Button */}
-        <div className="mt-4 pt-4 border-t border-cream2">
-          {app.graduated ? (
-            <div className="flex space-x-2">
-              <button className="flex-1 bg-cream2 text-offBlack py-2 px-4 rounded-lg text-sm font-medium hover:bg-cream1 transition-colors">
-                View Details
-              </button>
-              <button className="flex-1 bg-elataGreen text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-elataGreen/90 transition-colors">
-                Trade on DEX
-              </button>
-            </div>
-          ) : (
-            <button className="w-full bg-elataGreen text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-elataGreen/90 transition-colors">
-              Buy Tokens
+      {/* Action Button */}
+      <div className="mt-4 pt-4 border-t border-cream2">
+        {app.graduated ? (
+          <div className="flex space-x-2">
+            <Link
+              href={`/apps/${app.id}`}
+              className="flex-1 text-center bg-cream2 text-offBlack py-2 px-4 rounded-lg text-sm font-medium hover:bg-cream1 transition-colors"
+            >
+              View Details
+            </Link>
+            <button className="flex-1 bg-elataGreen text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-elataGreen/90 transition-colors">
+              Trade on DEX
             </button>
-          )}
-        </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsBuying(true)}
+            className="w-full bg-elataGreen text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-elataGreen/90 transition-colors"
+          >
+            Buy Tokens
+          </button>
+        )}
       </div>
-    </Link>
+
+      {/* Buy Modal */}
+      {isBuying && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-offBlack/50 p-4"
+          onClick={() => setIsBuying(false)}
+        >
+          <div className="w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+            <BuyPanel app={app} />
+            <button
+              onClick={() => setIsBuying(false)}
+              className="mt-3 w-full bg-white text-offBlack py-2 px-4 rounded-lg text-sm font-medium hover:bg-cream1 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
   );
 }
 
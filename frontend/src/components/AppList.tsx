@@ -1,70 +1,20 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useMemo } from 'react';
 import { useAppFactory } from '../hooks/useAppFactory';
 import { AppCard } from './AppCard';
-import type { AppWithMetadata } from '../types';
 
 export function AppList() {
-  const { useAppCount, useApp } = useAppFactory();
+  const { useAppCount, useAppsWithMetadata } = useAppFactory();
   const { data: appCount, isLoading: isLoadingCount } = useAppCount();
-  const [apps, setApps] = useState<AppWithMetadata[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | 'active' | 'graduated'>('all');
 
-  // Load all apps
-  useEffect(() => {
-    if (!appCount || appCount === 0n) {
-      setApps([]);
-      setIsLoading(false);
-      return;
-    }
-
-    const loadApps = async () => {
-      setIsLoading(true);
-      const loadedApps: AppWithMetadata[] = [];
-      
-      // For now, we'll load the first few apps
-      const count = Number(appCount);
-      const maxApps = Math.min(count, 20); // Load max 20 apps for performance
-      
-      for (let i = 0; i < maxApps; i++) {
-        try {
-          // In a real implementation, we'd batch these calls or use a subgraph
-          // For now, we'll create mock data to demonstrate the UI
-          const mockApp: AppWithMetadata = {
-            id: i,
-            creator: '0x742d35Cc6634C0532925a3b8D4C0b1f6e7E6D3f8' as const,
-            token: '0x742d35Cc6634C0532925a3b8D4C0b1f6e7E6D3f8' as const,
-            curve: '0x742d35Cc6634C0532925a3b8D4C0b1f6e7E6D3f8' as const,
-            pair: '0x0000000000000000000000000000000000000000' as const,
-            locker: '0x0000000000000000000000000000000000000000' as const,
-            createdAt: BigInt(Date.now() - Math.random() * 86400000 * 30), // Random date in last 30 days
-            graduatedAt: 0n,
-            graduated: Math.random() > 0.7, // 30% graduated
-            totalRaised: BigInt(Math.floor(Math.random() * 40000) * 1e18), // Random amount up to 40k
-            finalSupply: BigInt(1000000000 * 1e18), // 1B tokens
-            metadata: {
-              name: `EEG App ${i + 1}`,
-              symbol: `EEG${i + 1}`,
-              description: `A revolutionary EEG/BCI application that ${['enhances cognitive performance', 'monitors brain states', 'enables neural control', 'provides biofeedback'][Math.floor(Math.random() * 4)]}.`,
-              imageURI: `https://api.dicebear.com/7.x/shapes/svg?seed=app${i}`,
-              website: `https://eegapp${i + 1}.example.com`,
-            },
-          };
-          
-          loadedApps.push(mockApp);
-        } catch (error) {
-          console.error(`Failed to load app ${i}:`, error);
-        }
-      }
-      
-      setApps(loadedApps);
-      setIsLoading(false);
-    };
-
-    loadApps();
-  }, [appCount]);
+  // Every app ID from 0 to appCount - 1
+  const appIds = useMemo(
+    () => Array.from({ length: Number(appCount ?? 0n) }, (_, i) => BigInt(i)),
+    [appCount]
+  );
+  const { apps, isLoading } = useAppsWithMetadata(appIds);
 
   const filteredApps = apps.filter(app => {
     switch (filter) {
@@ -0,0 +1,354 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { formatEther, formatUnits, parseUnits } from 'viem';
+import { useAccount, useBlockNumber, useReadContract } from 'wagmi';
+import {
+  appTokenCalls,
+  applySlippage,
+  bondingCurveCalls,
+  erc20Calls,
+  getMaxBuy,
+  getPriceImpact,
+  getProgress,
+  quoteBuy,
+  toCurveState,
+  type BuyQuote,
+  decodeElataError,
+} from '@elata/sdk';
+import { useBatchedCalls } from '../hooks/useBatchedCalls';
+import { useBondingCurve } from '../hooks/useBondingCurve';
+import { useELTA } from '../hooks/useELTA';
+import { SimulationNotice } from './SimulationNotice';
+import type { AppWithMetadata, BuyTokensForm } from '../types';
+
+interface BuyPanelProps {
+  app: AppWithMetadata;
+  onTraded?: () => void;
+  className?: string;
+}
+
+// Slippage presets in percent (BuyTokensForm.slippage)
+const SLIPPAGE_OPTIONS = [1, 2, 5, 10];
+
+// Warn above 5% price impact
+const HIGH_IMPACT_BPS = 500n;
+
+const formatAmount = (value: bigint, decimals = 18) =>
+  parseFloat(formatUnits(value, decimals)).toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+const formatBps = (bps: bigint) => `${(Number(bps) / 100).toFixed(2)}%`;
+
+const parseAmount = (value: string, decimals = 18) => {
+  try {
+    return value ? parseUnits(value, decimals) : 0n;
+  } catch {
+    return 0n;
+  }
+};
+
+export function BuyPanel({ app, onTraded, className = '' }: BuyPanelProps) {
+  const { isConnected } = useAccount();
+  const symbol = app.metadata.symbol;
+
+  const { useCurveState, useCurveFees, useSimulateBuy, buy, isBuying, buyTx, buyError } = useBondingCurve(app.curve);
+  const { data: curveData, refetch: refetchCurve } = useCurveState();
+  const { fees, feeRouter } = useCurveFees();
+
+  const { eltaAddress, useBalance, useAllowance, approve, isApproving, approveTx, approveError } = useELTA();
+  const { supportsBatch, sendBatch, isSendingBatch, batchTx, batchError } = useBatchedCalls();
+  const { data: eltaBalance, refetch: refetchBalance } = useBalance();
+  const { data: curveAllowance, refetch: refetchCurveAllowance } = useAllowance(app.curve);
+  const { data: routerAllowance, refetch: refetchRouterAllowance } = useAllowance(feeRouter);
+
+  const { data: decimals = 18 } = useReadContract(appTokenCalls(app.token).decimals());
+
+  // Re-read reserves every block so quotes stay live
+  const { data: blockNumber } = useBlockNumber({ watch: true });
+  useEffect(() => {
+    refetchCurve();
+  }, [blockNumber]);
+
+  const [form, setForm] = useState<BuyTokensForm>({
+    eltaAmount: '',
+    minTokensOut: '',
+    slippage: 1,
+  });
+
+  const curve = curveData ? toCurveState(curveData) : app.curveState;
+  const eltaIn = parseAmount(form.eltaAmount);
+
+  // Quotes are computed offline from the live reserves with the contract's rounding
+  const { quote, quoteError } = useMemo((): { quote?: BuyQuote; quoteError?: string } => {
+    if (!curve || !fees || eltaIn === 0n) return {};
+    try {
+      return { quote: quoteBuy(curve, eltaIn, fees) };
+    } catch (error) {
+      return { quoteError: decodeElataError(error).message };
+    }
+  }, [curve?.eltaReserve, curve?.tokenReserve, curve?.isGraduated, fees?.feeBps, fees?.protocolFeeRate, eltaIn]);
+
+  const slippageMinOut = quote ? applySlippage(quote.tokensOut, BigInt(Math.round(form.slippage * 100))) : 0n;
+  const minTokensOut = form.minTokensOut ? parseAmount(form.minTokensOut, decimals) : slippageMinOut;
+
+  const priceImpact = curve && quote ? getPriceImpact(curve, quote) : 0n;
+  const progressAfter = curve && quote ? getProgress({ ...curve, eltaReserve: quote.reserveElta }) : 0n;
+
+  // buy() pulls eltaIn + tradingFee into the curve and the fee router pulls its fee separately
+  const needsCurveApproval = !!quote && curveAllowance !== undefined && curveAllowance < quote.curveAllowance;
+  const needsRouterApproval =
+    !!quote &&
+    !!feeRouter &&
+    quote.routerAllowance > 0n &&
+    routerAllowance !== undefined &&
+    routerAllowance < quote.routerAllowance;
+  const hasInsufficientBalance =
+    !!quote && eltaBalance !== undefined && eltaBalance < quote.curveAllowance + quote.routerAllowance;
+
+  // Pre-flight the buy itself once nothing else has to be signed first
+  const canSimulateBuy = !!quote && !needsCurveApproval && !needsRouterApproval && !hasInsufficientBalance;
+  const buySimulation = useSimulateBuy(eltaIn, minTokensOut, canSimulateBuy);
+
+  useEffect(() => {
+    if (canSimulateBuy) buySimulation.refetch();
+  }, [blockNumber]);
+
+  useEffect(() => {
+    if (approveTx.isSuccess) {
+      refetchCurveAllowance();
+      refetchRouterAllowance();
+    }
+  }, [approveTx.isSuccess]);
+
+  const isBatchConfirmed = batchTx.data?.status === 'success';
+
+  useEffect(() => {
+    if (buyTx.isSuccess || isBatchConfirmed) {
+      refetchCurve();
+      refetchBalance();
+      refetchCurveAllowance();
+      refetchRouterAllowance();
+      setForm(prev => ({ ...prev, eltaAmount: '', minTokensOut: '' }));
+      onTraded?.();
+    }
+  }, [buyTx.isSuccess, isBatchConfirmed]);
+
+  // Fees are pulled on top of eltaIn, so max is less than the whole balance
+  const handleMax = () => {
+    if (eltaBalance === undefined || !curve || !fees) return;
+    setForm(prev => ({ ...prev, eltaAmount: formatEther(getMaxBuy(curve, eltaBalance, fees)) }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quote) return;
+
+    // One confirmation for approvals + buy when the wallet supports atomic batches
+    if (supportsBatch && eltaAddress && (needsCurveApproval || needsRouterApproval)) {
+      const elta = erc20Calls(eltaAddress);
+      sendBatch([
+        ...(needsCurveApproval ? [elta.approve(app.curve, quote.curveAllowance)] : []),
+        ...(needsRouterApproval && feeRouter ? [elta.approve(feeRouter, quote.routerAllowance)] : []),
+        bondingCurveCalls(app.curve).buy(eltaIn, minTokensOut),
+      ], 'Approve & buy app tokens');
+    } else if (needsCurveApproval) {
+      approve(app.curve, quote.curveAllowance);
+    } else if (needsRouterApproval && feeRouter) {
+      approve(feeRouter, quote.routerAllowance);
+    } else {
+      buy(eltaIn, minTokensOut);
+    }
+  };
+
+  const isBatchPending = isSendingBatch || (batchTx.fetchStatus === 'fetching' && !isBatchConfirmed);
+  const isWorking = isApproving || approveTx.isLoading || isBuying || buyTx.isLoading || isBatchPending;
+  const txError = buyError || buyTx.error || approveError || approveTx.error || batchError || batchTx.error;
+
+  const buttonLabel = isApproving || approveTx.isLoading
+    ? 'Approving...'
+    : isBuying || buyTx.isLoading || isBatchPending
+      ? 'Buying...'
+      : supportsBatch && (needsCurveApproval || needsRouterApproval)
+        ? `Approve & Buy $${symbol}`
+        : needsCurveApproval
+          ? 'Approve ELTA'
+          : needsRouterApproval
+            ? 'Approve Trading Fee'
+            : `Buy $${symbol}`;
+
+  if (curve?.isGraduated || app.graduated) {
+    return (
+      <div className={`bg-white rounded-2xl p-6 shadow-xl ${className}`}>
+        <h3 className="font-montserrat font-bold text-lg text-offBlack mb-2">Trade ${symbol}</h3>
+        <p className="text-sm text-gray3 font-sf-pro">
+          This curve has graduated. ${symbol} now trades on the Uniswap pair.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className={`bg-white rounded-2xl p-6 shadow-xl ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-montserrat font-bold text-lg text-offBlack">Buy ${symbol}</h3>
+        {eltaBalance !== undefined && (
+          <button
+            type="button"
+            onClick={handleMax}
+            className="text-xs text-gray3 font-sf-pro hover:text-elataGreen transition-colors"
+          >
+            Balance: {formatAmount(eltaBalance)} ELTA
+          </button>
+        )}
+      </div>
+
+      {/* Amount */}
+      <label className="block text-xs text-gray3 font-sf-pro mb-1">You pay (ELTA)</label>
+      <input
+        type="text"
+        inputMode="decimal"
+        value={form.eltaAmount}
+        onChange={(e) => setForm(prev => ({ ...prev, eltaAmount: e.target.value }))}
+        placeholder="0.0"
+        className="w-full px-4 py-3 border border-gray2 rounded-lg text-lg font-sf-pro focus:outline-none focus:ring-2 focus:ring-elataGreen mb-4"
+      />
+
+      {/* Slippage */}
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-gray3 font-sf-pro">Slippage tolerance</span>
+        <div className="flex space-x-1">
+          {SLIPPAGE_OPTIONS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setForm(prev => ({ ...prev, slippage: option, minTokensOut: '' }))}
+              className={`px-2 py-1 text-xs rounded-md font-medium transition-colors ${
+                form.slippage === option && !form.minTokensOut
+                  ? 'bg-elataGreen text-white'
+                  : 'bg-cream2 text-offBlack hover:bg-cream1'
+              }`}
+            >
+              {option}%
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block text-xs text-gray3 font-sf-pro mb-1">Minimum received (optional)</label>
+      <input
+        type="text"
+        inputMode="decimal"
+        value={form.minTokensOut}
+        onChange={(e) => setForm(prev => ({ ...prev, minTokensOut: e.target.value }))}
+        placeholder={quote ? formatUnits(slippageMinOut, decimals) : '0.0'}
+        className="w-full px-4 py-2 border border-gray2 rounded-lg text-sm font-sf-pro focus:outline-none focus:ring-2 focus:ring-elataGreen mb-4"
+      />
+
+      {/* Quote */}
+      {quote && curve && (
+        <div className="space-y-2 mb-4 p-4 bg-gray1/20 rounded-lg text-sm font-sf-pro">
+          <div className="flex justify-between">
+            <span className="text-gray3">You receive</span>
+            <span className="font-medium text-offBlack">{formatAmount(quote.tokensOut, decimals)} {symbol}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray3">Minimum received</span>
+            <span className="text-offBlack">{formatAmount(minTokensOut, decimals)} {symbol}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray3">Price impact</span>
+            <span className={priceImpact > HIGH_IMPACT_BPS ? 'font-medium text-accentRed' : 'text-offBlack'}>
+              {formatBps(priceImpact)}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray3">Trading fee</span>
+            <span className="text-offBlack">{formatAmount(quote.tradingFee + quote.routerFee)} ELTA</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray3">Protocol fee (from amount)</span>
+            <span className="text-offBlack">{formatAmount(quote.protocolFee)} ELTA</span>
+          </div>
+          <div className="flex justify-between border-t border-cream2 pt-2">
+            <span className="text-gray3">Total cost</span>
+            <span className="font-medium text-offBlack">{formatAmount(quote.totalCost)} ELTA</span>
+          </div>
+          {quote.refund > 0n && (
+            <p className="text-xs text-gray3">
+              Only {formatAmount(quote.eltaIn)} ELTA fits before the graduation target; {formatAmount(quote.refund)} ELTA will be refunded.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Post-trade preview */}
+      {quote && curve && (
+        <div className="mb-4 p-4 border border-cream2 rounded-lg text-xs font-sf-pro">
+          <p className="font-medium text-offBlack mb-2">Curve after this trade</p>
+          <div className="grid grid-cols-3 gap-y-1 text-gray3">
+            <span />
+            <span>Now</span>
+            <span>After</span>
+
+            <span>ELTA reserve</span>
+            <span className="text-offBlack">{formatAmount(curve.eltaReserve)}</span>
+            <span className="text-offBlack">{formatAmount(quote.reserveElta)}</span>
+
+            <span>Token reserve</span>
+            <span className="text-offBlack">{formatAmount(curve.tokenReserve, decimals)}</span>
+            <span className="text-offBlack">{formatAmount(quote.reserveToken, decimals)}</span>
+
+            <span>Price (ELTA)</span>
+            <span className="text-offBlack">{formatEther(curve.currentPrice)}</span>
+            <span className="text-offBlack">{formatEther(quote.newPrice)}</span>
+
+            <span>Progress</span>
+            <span className="text-offBlack">{formatBps(curve.progress)}</span>
+            <span className="text-offBlack">{formatBps(progressAfter)}</span>
+          </div>
+          {quote.graduates && (
+            <p className="mt-2 font-medium text-success">
+              This buy reaches the target and graduates the curve to Uniswap.
+            </p>
+          )}
+        </div>
+      )}
+
+      {quoteError && (
+        <p className="mb-4 text-accentRed text-xs font-sf-pro">{quoteError}</p>
+      )}
+
+      {canSimulateBuy && (
+        <SimulationNotice simulation={buySimulation} className="mb-4">
+          {buySimulation.result !== undefined && (
+            <p>
+              Simulation: you receive <span className="font-medium">{formatAmount(buySimulation.result, decimals)} {symbol}</span>
+            </p>
+          )}
+        </SimulationNotice>
+      )}
+
+      {hasInsufficientBalance && (
+        <p className="mb-4 text-accentRed text-xs font-sf-pro">
+          Insufficient ELTA balance for this trade including fees.
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={!isConnected || !quote || quote.tokensOut === 0n || hasInsufficientBalance || !!buySimulation.revert || isWorking}
+        className="w-full bg-elataGreen text-white py-3 px-4 rounded-lg font-medium hover:bg-elataGreen/90 transition-colors disabled:opacity-50"
+      >
+        {isConnected ? buttonLabel : 'Connect Wallet to Buy'}
+      </button>
+
+      {(buyTx.isSuccess || isBatchConfirmed) && (
+        <p className="mt-3 text-success text-xs font-sf-pro">Purchase confirmed.</p>
+      )}
+
+      {txError && (
+        <p className="mt-3 text-accentRed text-xs font-sf-pro break-words">{decodeElataError(txError).message}</p>
+      )}
+    </form>
+  );
+}
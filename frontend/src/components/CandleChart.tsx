@@ -0,0 +1,112 @@
+'use client';
+
+import { formatEther } from 'viem';
+import type { Candle } from '../types';
+
+interface CandleChartProps {
+  candles: Candle[];
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 12, right: 72, bottom: 24, left: 8 };
+
+const toNumber = (value: bigint) => Number(formatEther(value));
+
+const formatTime = (seconds: number) =>
+  new Date(seconds * 1000).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * OHLC candles on a linear time axis (one slot per interval) with a
+ * volume strip along the bottom.
+ */
+export function CandleChart({ candles, height = 260 }: CandleChartProps) {
+  if (candles.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-sm text-gray3 font-sf-pro" style={{ height }}>
+        No trades yet
+      </div>
+    );
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const volumeHeight = plotHeight * 0.2;
+  const priceHeight = plotHeight - volumeHeight;
+
+  const lows = candles.map((candle) => toNumber(candle.low));
+  const highs = candles.map((candle) => toNumber(candle.high));
+  const min = Math.min(...lows);
+  const max = Math.max(...highs);
+  const range = max - min || max * 0.01 || 1;
+  const maxVolume = Math.max(...candles.map((candle) => toNumber(candle.volume)), 0) || 1;
+
+  const slot = plotWidth / candles.length;
+  const bodyWidth = Math.max(slot * 0.6, 1);
+  const y = (price: number) => PADDING.top + priceHeight - ((price - min) / range) * priceHeight;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" style={{ height }}>
+      {/* Price gridlines */}
+      {[0, 0.5, 1].map((fraction) => {
+        const price = min + range * fraction;
+        return (
+          <g key={fraction}>
+            <line
+              x1={PADDING.left}
+              x2={PADDING.left + plotWidth}
+              y1={y(price)}
+              y2={y(price)}
+              className="stroke-cream2"
+              strokeDasharray="4 4"
+            />
+            <text x={PADDING.left + plotWidth + 6} y={y(price) + 4} className="fill-gray3 text-[10px]">
+              {price.toPrecision(4)}
+            </text>
+          </g>
+        );
+      })}
+
+      {candles.map((candle, i) => {
+        const x = PADDING.left + slot * i + slot / 2;
+        const open = toNumber(candle.open);
+        const close = toNumber(candle.close);
+        const rising = candle.close >= candle.open;
+        const color = rising ? 'fill-elataGreen stroke-elataGreen' : 'fill-accentRed stroke-accentRed';
+        const volume = (toNumber(candle.volume) / maxVolume) * volumeHeight;
+
+        return (
+          <g key={candle.time} className={color}>
+            <title>
+              {`${formatTime(candle.time)}\nO ${formatEther(candle.open)}\nH ${formatEther(candle.high)}\nL ${formatEther(candle.low)}\nC ${formatEther(candle.close)}\nVol ${formatEther(candle.volume)} ELTA (${candle.trades} trades)`}
+            </title>
+            <line x1={x} x2={x} y1={y(toNumber(candle.high))} y2={y(toNumber(candle.low))} strokeWidth={1} />
+            <rect
+              x={x - bodyWidth / 2}
+              y={y(Math.max(open, close))}
+              width={bodyWidth}
+              height={Math.max(Math.abs(y(open) - y(close)), 1)}
+            />
+            {volume > 0 && (
+              <rect
+                x={x - bodyWidth / 2}
+                y={PADDING.top + plotHeight - volume}
+                width={bodyWidth}
+                height={volume}
+                opacity={0.3}
+              />
+            )}
+          </g>
+        );
+      })}
+
+      {/* Time axis */}
+      <text x={PADDING.left} y={height - 6} className="fill-gray3 text-[10px]">
+        {formatTime(candles[0].time)}
+      </text>
+      <text x={PADDING.left + plotWidth} y={height - 6} textAnchor="end" className="fill-gray3 text-[10px]">
+        {formatTime(candles[candles.length - 1].time)}
+      </text>
+    </svg>
+  );
+}
@@ -2,26 +2,42 @@
 
 import { useState, useEffect } from 'react';
 import { useAccount } from 'wagmi';
-import { parseEther, formatEther } from 'viem';
+import { formatEther, formatUnits, parseUnits } from 'viem';
+import { appFactoryCalls, erc20Calls, parseAppCreated, decodeElataError } from '@elata/sdk';
 import { useAppFactory } from '../hooks/useAppFactory';
+import { useAppToken } from '../hooks/useAppToken';
+import { useBatchedCalls } from '../hooks/useBatchedCalls';
 import { useELTA } from '../hooks/useELTA';
+import { usePendingMetadata } from '../hooks/usePendingMetadata';
+import { PendingMetadataNotice } from './PendingMetadataNotice';
+import { SimulationNotice } from './SimulationNotice';
 import type { CreateAppForm as CreateAppFormType } from '../types';
 import { IoApps, IoCheckmarkCircle, IoWallet, IoCash } from 'react-icons/io5';
 
+const formatAmount = (value: bigint, decimals: number) =>
+  parseFloat(formatUnits(value, decimals)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const formatDuration = (seconds: bigint) => {
+  const days = Number(seconds) / 86400;
+  return days >= 1 ? `${days.toLocaleString(undefined, { maximumFractionDigits: 1 })} days` : `${Number(seconds) / 3600} hours`;
+};
+
 export function CreateAppForm() {
   const { address } = useAccount();
   const { 
     createApp, 
+    createAppHash,
     isCreatingApp, 
     createAppError, 
     createAppTx,
-    useSeedElta,
-    useCreationFee,
-    useDefaultSupply,
+    useTotalCreationCost,
+    useLaunchParameters,
+    useSimulateCreateApp,
     appFactoryAddress 
   } = useAppFactory();
   
   const { 
+    eltaAddress,
     useBalance, 
     useAllowance, 
     approve, 
@@ -29,14 +45,16 @@ export function CreateAppForm() {
     approveTx 
   } = useELTA();
 
+  const { supportsBatch, sendBatch, batchId, isSendingBatch, batchTx, batchError } = useBatchedCalls();
+
   // Contract parameters
-  const { data: seedElta } = useSeedElta();
-  const { data: creationFee } = useCreationFee();
-  const { data: defaultSupply } = useDefaultSupply();
+  const { data: totalCreationCost } = useTotalCreationCost();
+  const { data: params } = useLaunchParameters();
+  const decimals = params?.decimals ?? 18;
   
   // User balances and allowances
   const { data: eltaBalance } = useBalance();
-  const { data: allowance } = useAllowance(appFactoryAddress as `0x${string}`);
+  const { data: allowance } = useAllowance(appFactoryAddress);
 
   const [formData, setFormData] = useState<CreateAppFormType>({
     name: '',
@@ -47,13 +65,54 @@ export function CreateAppForm() {
     website: '',
   });
 
-  const [step, setStep] = useState<'form' | 'approve' | 'create' | 'success'>('form');
+  const [step, setStep] = useState<'form' | 'approve' | 'create' | 'metadata' | 'success'>('form');
   const [errors, setErrors] = useState<Partial<CreateAppFormType>>({});
 
+  // createApp leaves metadata blank; it is written by a second tx from the creator
+  const [created, setCreated] = useState<{
+    appId: bigint;
+    token: `0x${string}`;
+    creatorStaked: bigint;
+    createTxHash: `0x${string}`;
+  }>();
+  const { save: savePending, remove: removePending } = usePendingMetadata();
+  const {
+    useSimulateUpdateMetadata,
+    updateMetadata,
+    isUpdatingMetadata,
+    updateMetadataTx,
+    updateMetadataError,
+  } = useAppToken(created?.token);
+
   // Calculate total cost
-  const totalCost = seedElta && creationFee ? seedElta + creationFee : 0n;
+  const totalCost = totalCreationCost ?? 0n;
+
+  // AppFactory.createApp: half the supply is auto-staked for the creator, the rest seeds the curve
+  const parsedSupply = (() => {
+    try {
+      return formData.supply ? parseUnits(formData.supply, decimals) : 0n;
+    } catch {
+      return 0n;
+    }
+  })();
+  const tokenSupply = parsedSupply > 0n ? parsedSupply : params?.supply ?? 0n;
+  const creatorShare = tokenSupply / 2n;
+  const curveShare = tokenSupply - creatorShare;
   const needsApproval = allowance !== undefined && totalCost > 0n && allowance < totalCost;
   const hasInsufficientBalance = eltaBalance !== undefined && totalCost > 0n && eltaBalance < totalCost;
+  const failure = createAppError || approveTx.error || batchError;
+
+  // Pre-flight createApp (returns the new appId) once the factory can pull the ELTA
+  const createSimulation = useSimulateCreateApp(
+    [formData.name, formData.symbol, parsedSupply, formData.description, formData.imageURI, formData.website],
+    step === 'form' && !!formData.name && !!formData.symbol && !needsApproval && !hasInsufficientBalance
+  );
+  const metadataSimulation = useSimulateUpdateMetadata(
+    formData.description,
+    formData.imageURI,
+    formData.website,
+    step === 'metadata' && !!created
+  );
 
   // Step status tracking
   const stepStatus = {
@@ -74,7 +133,7 @@ export function CreateAppForm() {
     // Validate supply if provided
     if (formData.supply) {
       try {
-        const supply = parseEther(formData.supply);
+        const supply = parseUnits(formData.supply, decimals);
         if (supply <= 0n) newErrors.supply = 'Supply must be greater than 0';
       } catch {
         newErrors.supply = 'Invalid supply amount';
@@ -102,33 +161,40 @@ export function CreateAppForm() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!validateForm()) return;
+    if (!validateForm() || !appFactoryAddress) return;
     
     if (hasInsufficientBalance) {
       alert(`Insufficient ELTA balance. You need ${formatEther(totalCost)} ELTA but only have ${formatEther(eltaBalance || 0n)} ELTA.`);
       return;
     }
 
-    if (needsApproval) {
+    if (needsApproval && supportsBatch && eltaAddress) {
+      // Approve + createApp in a single wallet confirmation
+      setStep('create');
+      sendBatch([
+        erc20Calls(eltaAddress).approve(appFactoryAddress, totalCost),
+        appFactoryCalls(appFactoryAddress).createApp(...createAppArgs()),
+      ], 'Approve & launch app');
+    } else if (needsApproval) {
       setStep('approve');
-      approve(appFactoryAddress as `0x${string}`, totalCost);
+      approve(appFactoryAddress, totalCost);
     } else {
       setStep('create');
       handleCreateApp();
     }
   };
 
+  const createAppArgs = () => [
+    formData.name,
+    formData.symbol,
+    formData.supply ? parseUnits(formData.supply, decimals) : 0n,
+    formData.description,
+    formData.imageURI,
+    formData.website,
+  ] as const;
+
   const handleCreateApp = () => {
-    const supply = formData.supply ? parseEther(formData.supply) : 0n;
-    
-    createApp(
-      formData.name,
-      formData.symbol,
-      supply,
-      formData.description,
-      formData.imageURI,
-      formData.website
-    );
+    createApp(...createAppArgs());
   };
 
   // Handle transaction success
@@ -139,12 +205,80 @@ export function CreateAppForm() {
     }
   }, [approveTx.isSuccess, step]);
 
+  // A batch only has a tx hash once mined: the receipt carrying AppCreated
+  const batchCreateReceipt = batchTx.data?.status === 'success'
+    ? batchTx.data.receipts?.find((r) => parseAppCreated(r.logs))
+    : undefined;
+  const launchHash = createAppHash ?? batchCreateReceipt?.transactionHash;
+  const launchBatchId = createAppHash ? undefined : batchId;
+
+  // Remember the metadata as soon as the wallet accepts the launch (a tx
+  // hash, or a batch id until the batch is mined), so it can be finished
+  // later from PendingMetadataNotice if the user leaves mid-flow
   useEffect(() => {
-    if (createAppTx.isSuccess && step === 'create') {
-      setStep('success');
+    if (!launchHash && !launchBatchId) return;
+    savePending({
+      createTxHash: launchHash,
+      batchId: launchBatchId,
+      name: formData.name,
+      symbol: formData.symbol,
+      description: formData.description,
+      imageURI: formData.imageURI,
+      website: formData.website,
+      createdAt: Date.now(),
+    });
+  }, [launchHash, launchBatchId]);
+
+  // AppCreated gives the token that updateMetadata must be sent to
+  const handleLaunched = (createTxHash: `0x${string}`, logs: Parameters<typeof parseAppCreated>[0]) => {
+    const event = parseAppCreated(logs);
+    if (!event) return;
+
+    setCreated({ appId: event.appId, token: event.token, creatorStaked: event.creatorStaked, createTxHash });
+    savePending({
+      createTxHash,
+      appId: event.appId.toString(),
+      token: event.token,
+      name: formData.name,
+      symbol: formData.symbol,
+      description: formData.description,
+      imageURI: formData.imageURI,
+      website: formData.website,
+      createdAt: Date.now(),
+    });
+    setStep('metadata');
+  };
+
+  useEffect(() => {
+    if (createAppTx.isSuccess && step === 'create' && createAppHash) {
+      handleLaunched(createAppHash, createAppTx.data.logs);
     }
   }, [createAppTx.isSuccess, step]);
 
+  useEffect(() => {
+    if (batchCreateReceipt && step === 'create') {
+      handleLaunched(batchCreateReceipt.transactionHash, batchCreateReceipt.logs);
+    }
+  }, [batchCreateReceipt?.transactionHash, step]);
+
+  // A rejected or failed batch returns to the form
+  useEffect(() => {
+    if ((batchError || batchTx.data?.status === 'failure') && step === 'create') {
+      setStep('form');
+    }
+  }, [batchError, batchTx.data?.status]);
+
+  useEffect(() => {
+    if (updateMetadataTx.isSuccess && step === 'metadata' && created) {
+      removePending({ createTxHash: created.createTxHash });
+      setStep('success');
+    }
+  }, [updateMetadataTx.isSuccess, step]);
+
+  const handleSetMetadata = () => {
+    updateMetadata(formData.description, formData.imageURI, formData.website);
+  };
+
   const handleInputChange = (field: keyof CreateAppFormType, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     if (errors[field]) {
@@ -163,7 +297,7 @@ export function CreateAppForm() {
           App Successfully Created!
         </h3>
         <p className="text-gray3 mb-6 font-sf-pro">
-          Your app "{formData.name}" has been deployed and is now live on the bonding curve.
+          Your app "{formData.name}" has been deployed with its metadata and is now live on the bonding curve.
         </p>
         <div className="flex flex-col sm:flex-row gap-4 justify-center">
           <button
@@ -184,276 +318,387 @@ export function CreateAppForm() {
     );
   }
 
-  return (
-    <div className="bg-white rounded-xl sm:rounded-2xl shadow-xl overflow-hidden">
-      
-      {/* Step 1: Basic Information */}
-      <div className="p-4 sm:p-8 border-b border-gray2/30">
-        <div className="flex items-start space-x-3 sm:space-x-4 mb-4 sm:mb-6">
-          <div className={`flex items-center justify-center w-10 h-10 sm:w-12 sm:h-12 rounded-xl transition-all duration-300 flex-shrink-0 ${
-            stepStatus[1] ? 'bg-elataGreen text-white' : 'bg-elataGreen/10 text-elataGreen'
-          }`}>
-            <IoApps className="w-5 h-5 sm:w-6 sm:h-6" />
+  // Launch confirmed: second tx writes description / image / website
+  if (step === 'metadata' && created) {
+    const isSaving = isUpdatingMetadata || updateMetadataTx.isLoading;
+    const metadataError = updateMetadataError || updateMetadataTx.error;
+
+    return (
+      <div className="bg-white rounded-xl sm:rounded-2xl shadow-xl p-6 sm:p-10">
+        <div className="flex items-start space-x-3 sm:space-x-4 mb-6">
+          <div className="flex items-center justify-center w-10 h-10 sm:w-12 sm:h-12 rounded-xl bg-elataGreen text-white flex-shrink-0">
+            <IoCheckmarkCircle className="w-5 h-5 sm:w-6 sm:h-6" />
           </div>
           <div className="min-w-0 flex-1">
             <h3 className="text-lg sm:text-xl font-semibold font-montserrat text-offBlack">
-              App Information
+              Launched! One More Step
             </h3>
             <p className="text-gray3 font-sf-pro text-sm sm:text-base">
-              Provide basic details about your EEG/BCI application
+              App #{created.appId.toString()} is live and {formatAmount(created.creatorStaked, decimals)} {formData.symbol} were
+              auto-staked for you. Confirm a second transaction to publish its metadata.
             </p>
           </div>
         </div>
-        
-        <div className="bg-gray1/20 rounded-xl p-4 sm:p-6 space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-offBlack mb-2 font-sf-pro">
-              App Name *
-            </label>
-            <input
-              type="text"
-              value={formData.name}
-              onChange={(e) => handleInputChange('name', e.target.value)}
-              className={`w-full px-4 py-3 border-2 rounded-xl bg-white transition-all duration-200 font-sf-pro ${
-                errors.name 
-                  ? 'border-accentRed focus:border-accentRed focus:ring-2 focus:ring-accentRed/20' 
-                  : 'border-gray2 focus:border-elataGreen focus:ring-2 focus:ring-elataGreen/20'
-              }`}
-              placeholder="e.g., NeuroFocus"
-              maxLength={50}
-            />
-            {errors.name && (
-              <p className="text-accentRed text-sm mt-1 font-sf-pro">{errors.name}</p>
-            )}
-          </div>
 
-          <div>
-            <label className="block text-sm font-medium text-offBlack mb-2 font-sf-pro">
-              Token Symbol *
-            </label>
-            <input
-              type="text"
-              value={formData.symbol}
-              onChange={(e) => handleInputChange('symbol', e.target.value.toUpperCase())}
-              className={`w-full px-4 py-3 border-2 rounded-xl bg-white transition-all duration-200 font-sf-pro ${
-                errors.symbol 
-                  ? 'border-accentRed focus:border-accentRed focus:ring-2 focus:ring-accentRed/20' 
-                  : 'border-gray2 focus:border-elataGreen focus:ring-2 focus:ring-elataGreen/20'
-              }`}
-              placeholder="e.g., NFT"
-              maxLength={10}
-            />
-            {errors.symbol && (
-              <p className="text-accentRed text-sm mt-1 font-sf-pro">{errors.symbol}</p>
-            )}
+        <div className="bg-gray1/20 rounded-xl p-4 sm:p-6 mb-6 space-y-2 text-sm font-sf-pro">
+          <div className="flex justify-between gap-4">
+            <span className="text-gray3 shrink-0">Description</span>
+            <span className="text-offBlack text-right break-words">{formData.description}</span>
           </div>
-
-          <div>
-            <label className="block text-sm font-medium text-offBlack mb-2 font-sf-pro">
-              Description *
-            </label>
-            <textarea
-              value={formData.description}
-              onChange={(e) => handleInputChange('description', e.target.value)}
-              className={`w-full px-4 py-3 border-2 rounded-xl bg-white transition-all duration-200 font-sf-pro min-h-24 resize-y ${
-                errors.description 
-                  ? 'border-accentRed focus:border-accentRed focus:ring-2 focus:ring-accentRed/20' 
-                  : 'border-gray2 focus:border-elataGreen focus:ring-2 focus:ring-elataGreen/20'
-              }`}
-              placeholder="Describe your EEG/BCI application and its scientific purpose..."
-              maxLength={500}
-            />
-            {errors.description && (
-              <p className="text-accentRed text-sm mt-1 font-sf-pro">{errors.description}</p>
-            )}
-            <p className="text-xs text-gray3 mt-1 font-sf-pro">
-              {formData.description.length}/500 characters
-            </p>
+          <div className="flex justify-between gap-4">
+            <span className="text-gray3 shrink-0">Website</span>
+            <span className="text-offBlack text-right break-all">{formData.website || '—'}</span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span className="text-gray3 shrink-0">Image URL</span>
+            <span className="text-offBlack text-right break-all">{formData.imageURI || '—'}</span>
           </div>
-
-          {stepStatus[1] && (
-            <div className="flex items-center text-elataGreen">
-              <IoCheckmarkCircle className="w-4 h-4 mr-2 flex-shrink-0" />
-              <span className="text-sm font-medium">Basic information completed</span>
-            </div>
-          )}
         </div>
-      </div>
 
-      {/* Step 2: Optional Details */}
-      <div className="p-4 sm:p-8 border-b border-gray2/30">
-        <div className="flex items-start space-x-3 sm:space-x-4 mb-4 sm:mb-6">
-          <div className="flex items-center justify-center w-10 h-10 sm:w-12 sm:h-12 rounded-xl bg-elataGreen/10 text-elataGreen flex-shrink-0">
-            <IoWallet className="w-5 h-5 sm:w-6 sm:h-6" />
-          </div>
-          <div className="min-w-0 flex-1">
-            <h3 className="text-lg sm:text-xl font-semibold font-montserrat text-offBlack">
-              Optional Configuration
-            </h3>
-            <p className="text-gray3 font-sf-pro text-sm sm:text-base">
-              Additional settings for your token and application
-            </p>
+        <SimulationNotice simulation={metadataSimulation} className="mb-4" />
+
+        <button
+          onClick={handleSetMetadata}
+          disabled={isSaving || !!metadataSimulation.revert}
+          className="w-full inline-flex items-center justify-center px-10 sm:px-16 py-4 sm:py-5 rounded-none shadow-lg font-sf-pro font-medium text-base sm:text-lg transition-all duration-300 hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ backgroundColor: '#171717', color: '#FDFDFD' }}
+        >
+          {isSaving ? 'Setting Metadata...' : 'Set Metadata'}
+        </button>
+
+        <p className="text-xs text-gray3 mt-3 font-sf-pro text-center">
+          If you leave now, you can finish this from the create page or My Apps.
+        </p>
+
+        {metadataError && (
+          <div className="mt-4 bg-accentRed/10 border border-accentRed/20 rounded-lg p-4">
+            <p className="text-accentRed text-sm font-sf-pro">{decodeElataError(metadataError).message}</p>
           </div>
-        </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {step === 'form' && <PendingMetadataNotice className="mb-6" />}
+      <div className="bg-white rounded-xl sm:rounded-2xl shadow-xl overflow-hidden">
         
-        <div className="bg-gray1/20 rounded-xl p-4 sm:p-6 space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-offBlack mb-2 font-sf-pro">
-              Token Supply (optional)
-            </label>
-            <input
-              type="text"
-              value={formData.supply}
-              onChange={(e) => handleInputChange('supply', e.target.value)}
-              className={`w-full px-4 py-3 border-2 rounded-xl bg-white transition-all duration-200 font-sf-pro ${
-                errors.supply 
-                  ? 'border-accentRed focus:border-accentRed focus:ring-2 focus:ring-accentRed/20' 
-                  : 'border-gray2 focus:border-elataGreen focus:ring-2 focus:ring-elataGreen/20'
-              }`}
-              placeholder={defaultSupply ? formatEther(defaultSupply) : '1000000000'}
-            />
-            {errors.supply && (
-              <p className="text-accentRed text-sm mt-1 font-sf-pro">{errors.supply}</p>
-            )}
-            <p className="text-xs text-gray3 mt-1 font-sf-pro">
-              Leave empty to use default (1B tokens)
-            </p>
+        {/* Step 1: Basic Information */}
+        <div className="p-4 sm:p-8 border-b border-gray2/30">
+          <div className="flex items-start space-x-3 sm:space-x-4 mb-4 sm:mb-6">
+            <div className={`flex items-center justify-center w-10 h-10 sm:w-12 sm:h-12 rounded-xl transition-all duration-300 flex-shrink-0 ${
+              stepStatus[1] ? 'bg-elataGreen text-white' : 'bg-elataGreen/10 text-elataGreen'
+            }`}>
+              <IoApps className="w-5 h-5 sm:w-6 sm:h-6" />
+            </div>
+            <div className="min-w-0 flex-1">
+              <h3 className="text-lg sm:text-xl font-semibold font-montserrat text-offBlack">
+                App Information
+              </h3>
+              <p className="text-gray3 font-sf-pro text-sm sm:text-base">
+                Provide basic details about your EEG/BCI application
+              </p>
+            </div>
           </div>
+          
+          <div className="bg-gray1/20 rounded-xl p-4 sm:p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-offBlack mb-2 font-sf-pro">
+                App Name *
+              </label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                className={`w-full px-4 py-3 border-2 rounded-xl bg-white transition-all duration-200 font-sf-pro ${
+                  errors.name 
+                    ? 'border-accentRed focus:border-accentRed focus:ring-2 focus:ring-accentRed/20' 
+                    : 'border-gray2 focus:border-elataGreen focus:ring-2 focus:ring-elataGreen/20'
+                }`}
+                placeholder="e.g., NeuroFocus"
+                maxLength={50}
+              />
+              {errors.name && (
+                <p className="text-accentRed text-sm mt-1 font-sf-pro">{errors.name}</p>
+              )}
+            </div>
 
-          <div>
-            <label className="block text-sm font-medium text-offBlack mb-2 font-sf-pro">
-              Website (optional)
-            </label>
-            <input
-              type="url"
-              value={formData.website}
-              onChange={(e) => handleInputChange('website', e.target.value)}
-              className={`w-full px-4 py-3 border-2 rounded-xl bg-white transition-all duration-200 font-sf-pro ${
-                errors.website 
-                  ? 'border-accentRed focus:border-accentRed focus:ring-2 focus:ring-accentRed/20' 
-                  : 'border-gray2 focus:border-elataGreen focus:ring-2 focus:ring-elataGreen/20'
-              }`}
-              placeholder="https://your-app.com"
-            />
-            {errors.website && (
-              <p className="text-accentRed text-sm mt-1 font-sf-pro">{errors.website}</p>
-            )}
-          </div>
+            <div>
+              <label className="block text-sm font-medium text-offBlack mb-2 font-sf-pro">
+                Token Symbol *
+              </label>
+              <input
+                type="text"
+                value={formData.symbol}
+                onChange={(e) => handleInputChange('symbol', e.target.value.toUpperCase())}
+                className={`w-full px-4 py-3 border-2 rounded-xl bg-white transition-all duration-200 font-sf-pro ${
+                  errors.symbol 
+                    ? 'border-accentRed focus:border-accentRed focus:ring-2 focus:ring-accentRed/20' 
+                    : 'border-gray2 focus:border-elataGreen focus:ring-2 focus:ring-elataGreen/20'
+                }`}
+                placeholder="e.g., NFT"
+                maxLength={10}
+              />
+              {errors.symbol && (
+                <p className="text-accentRed text-sm mt-1 font-sf-pro">{errors.symbol}</p>
+              )}
+            </div>
 
-          <div>
-            <label className="block text-sm font-medium text-offBlack mb-2 font-sf-pro">
-              Image URL (optional)
-            </label>
-            <input
-              type="url"
-              value={formData.imageURI}
-              onChange={(e) => handleInputChange('imageURI', e.target.value)}
-              className="w-full px-4 py-3 border-2 border-gray2 rounded-xl bg-white focus:border-elataGreen focus:ring-2 focus:ring-elataGreen/20 transition-all duration-200 font-sf-pro"
-              placeholder="https://your-image-url.com/logo.png"
-            />
-            <p className="text-xs text-gray3 mt-1 font-sf-pro">
-              Logo or banner image for your app
-            </p>
+            <div>
+              <label className="block text-sm font-medium text-offBlack mb-2 font-sf-pro">
+                Description *
+              </label>
+              <textarea
+                value={formData.description}
+                onChange={(e) => handleInputChange('description', e.target.value)}
+                className={`w-full px-4 py-3 border-2 rounded-xl bg-white transition-all duration-200 font-sf-pro min-h-24 resize-y ${
+                  errors.description 
+                    ? 'border-accentRed focus:border-accentRed focus:ring-2 focus:ring-accentRed/20' 
+                    : 'border-gray2 focus:border-elataGreen focus:ring-2 focus:ring-elataGreen/20'
+                }`}
+                placeholder="Describe your EEG/BCI application and its scientific purpose..."
+                maxLength={500}
+              />
+              {errors.description && (
+                <p className="text-accentRed text-sm mt-1 font-sf-pro">{errors.description}</p>
+              )}
+              <p className="text-xs text-gray3 mt-1 font-sf-pro">
+                {formData.description.length}/500 characters
+              </p>
+            </div>
+
+            {stepStatus[1] && (
+              <div className="flex items-center text-elataGreen">
+                <IoCheckmarkCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+                <span className="text-sm font-medium">Basic information completed</span>
+              </div>
+            )}
           </div>
         </div>
-      </div>
 
-      {/* Step 3: Cost & Launch */}
-      <div className="p-4 sm:p-8">
-        <div className="flex items-start space-x-3 sm:space-x-4 mb-4 sm:mb-6">
-          <div className={`flex items-center justify-center w-10 h-10 sm:w-12 sm:h-12 rounded-xl transition-all duration-300 flex-shrink-0 ${
-            stepStatus[2] ? 'bg-elataGreen text-white' : 'bg-elataGreen/10 text-elataGreen'
-          }`}>
-            <IoCash className="w-5 h-5 sm:w-6 sm:h-6" />
+        {/* Step 2: Optional Details */}
+        <div className="p-4 sm:p-8 border-b border-gray2/30">
+          <div className="flex items-start space-x-3 sm:space-x-4 mb-4 sm:mb-6">
+            <div className="flex items-center justify-center w-10 h-10 sm:w-12 sm:h-12 rounded-xl bg-elataGreen/10 text-elataGreen flex-shrink-0">
+              <IoWallet className="w-5 h-5 sm:w-6 sm:h-6" />
+            </div>
+            <div className="min-w-0 flex-1">
+              <h3 className="text-lg sm:text-xl font-semibold font-montserrat text-offBlack">
+                Optional Configuration
+              </h3>
+              <p className="text-gray3 font-sf-pro text-sm sm:text-base">
+                Additional settings for your token and application
+              </p>
+            </div>
           </div>
-          <div className="min-w-0 flex-1">
-            <h3 className="text-lg sm:text-xl font-semibold font-montserrat text-offBlack">
-              Launch Configuration
-            </h3>
-            <p className="text-gray3 font-sf-pro text-sm sm:text-base">
-              Review costs and launch your application
-            </p>
+          
+          <div className="bg-gray1/20 rounded-xl p-4 sm:p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-offBlack mb-2 font-sf-pro">
+                Token Supply (optional)
+              </label>
+              <input
+                type="text"
+                value={formData.supply}
+                onChange={(e) => handleInputChange('supply', e.target.value)}
+                className={`w-full px-4 py-3 border-2 rounded-xl bg-white transition-all duration-200 font-sf-pro ${
+                  errors.supply 
+                    ? 'border-accentRed focus:border-accentRed focus:ring-2 focus:ring-accentRed/20' 
+                    : 'border-gray2 focus:border-elataGreen focus:ring-2 focus:ring-elataGreen/20'
+                }`}
+                placeholder={params ? formatUnits(params.supply, decimals) : '1000000000'}
+              />
+              {errors.supply && (
+                <p className="text-accentRed text-sm mt-1 font-sf-pro">{errors.supply}</p>
+              )}
+              <p className="text-xs text-gray3 mt-1 font-sf-pro">
+                Leave empty to use the default ({params ? formatAmount(params.supply, decimals) : '…'} tokens)
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-offBlack mb-2 font-sf-pro">
+                Website (optional)
+              </label>
+              <input
+                type="url"
+                value={formData.website}
+                onChange={(e) => handleInputChange('website', e.target.value)}
+                className={`w-full px-4 py-3 border-2 rounded-xl bg-white transition-all duration-200 font-sf-pro ${
+                  errors.website 
+                    ? 'border-accentRed focus:border-accentRed focus:ring-2 focus:ring-accentRed/20' 
+                    : 'border-gray2 focus:border-elataGreen focus:ring-2 focus:ring-elataGreen/20'
+                }`}
+                placeholder="https://your-app.com"
+              />
+              {errors.website && (
+                <p className="text-accentRed text-sm mt-1 font-sf-pro">{errors.website}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-offBlack mb-2 font-sf-pro">
+                Image URL (optional)
+              </label>
+              <input
+                type="url"
+                value={formData.imageURI}
+                onChange={(e) => handleInputChange('imageURI', e.target.value)}
+                className="w-full px-4 py-3 border-2 border-gray2 rounded-xl bg-white focus:border-elataGreen focus:ring-2 focus:ring-elataGreen/20 transition-all duration-200 font-sf-pro"
+                placeholder="https://your-image-url.com/logo.png"
+              />
+              <p className="text-xs text-gray3 mt-1 font-sf-pro">
+                Logo or banner image for your app
+              </p>
+            </div>
           </div>
         </div>
-        
-        <div className="bg-gray1/20 rounded-xl p-4 sm:p-6 mb-6">
-          <h4 className="font-medium text-offBlack mb-3 font-montserrat">Cost Breakdown</h4>
-          <div className="space-y-2 text-sm">
-            <div className="flex justify-between">
-              <span className="text-gray3 font-sf-pro">Creation Fee:</span>
-              <span className="text-offBlack font-sf-pro">
-                {creationFee ? formatEther(creationFee) : '10'} ELTA
-              </span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray3 font-sf-pro">Seed Liquidity:</span>
-              <span className="text-offBlack font-sf-pro">
-                {seedElta ? formatEther(seedElta) : '100'} ELTA
-              </span>
+
+        {/* Step 3: Cost & Launch */}
+        <div className="p-4 sm:p-8">
+          <div className="flex items-start space-x-3 sm:space-x-4 mb-4 sm:mb-6">
+            <div className={`flex items-center justify-center w-10 h-10 sm:w-12 sm:h-12 rounded-xl transition-all duration-300 flex-shrink-0 ${
+              stepStatus[2] ? 'bg-elataGreen text-white' : 'bg-elataGreen/10 text-elataGreen'
+            }`}>
+              <IoCash className="w-5 h-5 sm:w-6 sm:h-6" />
             </div>
-            <hr className="border-gray2/30" />
-            <div className="flex justify-between font-medium">
-              <span className="text-offBlack font-sf-pro">Total Cost:</span>
-              <span className="text-offBlack font-sf-pro">
-                {totalCost ? formatEther(totalCost) : '110'} ELTA
-              </span>
+            <div className="min-w-0 flex-1">
+              <h3 className="text-lg sm:text-xl font-semibold font-montserrat text-offBlack">
+                Launch Configuration
+              </h3>
+              <p className="text-gray3 font-sf-pro text-sm sm:text-base">
+                Review costs and launch your application
+              </p>
             </div>
           </div>
           
-          <div className="mt-3 pt-3">
-            <div className="flex justify-between text-sm">
-              <span className="text-gray3 font-sf-pro">Your ELTA Balance:</span>
-              <span className={`font-sf-pro ${hasInsufficientBalance ? 'text-accentRed' : 'text-offBlack'}`}>
-                {eltaBalance ? formatEther(eltaBalance) : '0'} ELTA
-              </span>
+          <div className="bg-gray1/20 rounded-xl p-4 sm:p-6 mb-6">
+            <h4 className="font-medium text-offBlack mb-3 font-montserrat">Cost Breakdown</h4>
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray3 font-sf-pro">Creation Fee:</span>
+                <span className="text-offBlack font-sf-pro">
+                  {params ? formatEther(params.creation) : '…'} ELTA
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray3 font-sf-pro">Seed Liquidity:</span>
+                <span className="text-offBlack font-sf-pro">
+                  {params ? formatEther(params.seed) : '…'} ELTA
+                </span>
+              </div>
+              <hr className="border-gray2/30" />
+              <div className="flex justify-between font-medium">
+                <span className="text-offBlack font-sf-pro">Total Cost:</span>
+                <span className="text-offBlack font-sf-pro">
+                  {totalCreationCost !== undefined ? formatEther(totalCreationCost) : '…'} ELTA
+                </span>
+              </div>
+            </div>
+            
+            <div className="mt-3 pt-3">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray3 font-sf-pro">Your ELTA Balance:</span>
+                <span className={`font-sf-pro ${hasInsufficientBalance ? 'text-accentRed' : 'text-offBlack'}`}>
+                  {eltaBalance ? formatEther(eltaBalance) : '0'} ELTA
+                </span>
+              </div>
+              {hasInsufficientBalance && (
+                <p className="text-accentRed text-xs mt-1 font-sf-pro">
+                  Insufficient balance to create app
+                </p>
+              )}
             </div>
-            {hasInsufficientBalance && (
-              <p className="text-accentRed text-xs mt-1 font-sf-pro">
-                Insufficient balance to create app
-              </p>
-            )}
           </div>
-        </div>
 
-        {/* Submit Button */}
-        <button
-          type="submit"
-          onClick={handleSubmit}
-          disabled={isCreatingApp || isApproving || hasInsufficientBalance || step !== 'form'}
-          className="w-full inline-flex items-center justify-center px-10 sm:px-16 py-4 sm:py-5 rounded-none shadow-lg font-sf-pro font-medium text-base sm:text-lg transition-all duration-300 hover:shadow-xl transform hover:scale-105 hover:-translate-y-1 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
-          style={{ backgroundColor: '#171717', color: '#FDFDFD' }}
-        >
-          {step === 'approve' && isApproving && (
-            <span className="flex items-center justify-center">
-              <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-              Approving ELTA...
-            </span>
-          )}
-          {step === 'create' && isCreatingApp && (
-            <span className="flex items-center justify-center">
-              <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-              Creating App...
-            </span>
+          {params && (
+            <div className="bg-gray1/20 rounded-xl p-4 sm:p-6 mb-6">
+              <h4 className="font-medium text-offBlack mb-3 font-montserrat">Launch Economics</h4>
+              <div className="space-y-2 text-sm font-sf-pro">
+                <div className="flex justify-between">
+                  <span className="text-gray3">Graduation Target:</span>
+                  <span className="text-offBlack">{formatAmount(params.target, 18)} ELTA raised</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray3">LP Lock After Graduation:</span>
+                  <span className="text-offBlack">{formatDuration(params.lpLock)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray3">Protocol Fee on Buys:</span>
+                  <span className="text-offBlack">{(Number(params.protocolFee) / 100).toFixed(2)}%</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray3">Token Supply:</span>
+                  <span className="text-offBlack">
+                    {formatAmount(tokenSupply, decimals)} ({decimals} decimals{parsedSupply > 0n ? '' : ', default'})
+                  </span>
+                </div>
+                <hr className="border-gray2/30" />
+                <div className="flex justify-between">
+                  <span className="text-gray3">Auto-staked for You (50%):</span>
+                  <span className="text-offBlack">{formatAmount(creatorShare, decimals)} {formData.symbol || 'tokens'}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray3">Sold on Bonding Curve:</span>
+                  <span className="text-offBlack">{formatAmount(curveShare, decimals)} {formData.symbol || 'tokens'}</span>
+                </div>
+              </div>
+              <p className="text-xs text-gray3 mt-3 font-sf-pro">
+                Your share is staked in the app&apos;s staking vault at launch. The seed liquidity opens the curve at{' '}
+                {curveShare > 0n ? formatEther((params.seed * 10n ** 18n) / curveShare) : '…'} ELTA per token.
+              </p>
+            </div>
           )}
-          {step === 'form' && needsApproval && 'Approve & Create App'}
-          {step === 'form' && !needsApproval && 'Create App'}
-        </button>
 
-        {/* Error Display */}
-        {(createAppError || approveTx.error) && (
-          <div className="mt-4 bg-accentRed/10 border border-accentRed/20 rounded-lg p-4">
-            <p className="text-accentRed text-sm font-sf-pro">
-              {createAppError?.message || approveTx.error?.message || 'Transaction failed'}
-            </p>
-          </div>
-        )}
+          <SimulationNotice simulation={createSimulation} className="mb-6">
+            {createSimulation.result !== undefined && (
+              <p>
+                Simulation passed: this launch becomes <span className="font-medium">App #{createSimulation.result.toString()}</span>.
+              </p>
+            )}
+          </SimulationNotice>
+
+          {/* Submit Button */}
+          <button
+            type="submit"
+            onClick={handleSubmit}
+            disabled={isCreatingApp || isApproving || hasInsufficientBalance || !!createSimulation.revert || step !== 'form'}
+            className="w-full inline-flex items-center justify-center px-10 sm:px-16 py-4 sm:py-5 rounded-none shadow-lg font-sf-pro font-medium text-base sm:text-lg transition-all duration-300 hover:shadow-xl transform hover:scale-105 hover:-translate-y-1 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+            style={{ backgroundColor: '#171717', color: '#FDFDFD' }}
+          >
+            {step === 'approve' && isApproving && (
+              <span className="flex items-center justify-center">
+                <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                Approving ELTA...
+              </span>
+            )}
+            {step === 'create' && (isCreatingApp || isSendingBatch || batchTx.fetchStatus === 'fetching') && (
+              <span className="flex items-center justify-center">
+                <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                Creating App...
+              </span>
+            )}
+            {step === 'form' && needsApproval && (supportsBatch ? 'Approve & Create App (1 confirmation)' : 'Approve & Create App')}
+            {step === 'form' && !needsApproval && 'Create App'}
+          </button>
+
+          {/* Error Display */}
+          {(failure || batchTx.data?.status === 'failure') && (
+            <div className="mt-4 bg-accentRed/10 border border-accentRed/20 rounded-lg p-4">
+              <p className="text-accentRed text-sm font-sf-pro">
+                {failure ? decodeElataError(failure).message : 'Transaction failed'}
+              </p>
+            </div>
+          )}
+        </div>
       </div>
-    </div>
+    </>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { formatEther, zeroAddress } from 'viem';
+import { decodeElataError } from '@elata/sdk';
+import { useAppToken } from '../hooks/useAppToken';
+import { useBondingCurve } from '../hooks/useBondingCurve';
+import { LpLockerPanel } from './LpLockerPanel';
+import { SimulationNotice } from './SimulationNotice';
+import { toAppCardData } from '../lib/apps';
+import type { AppWithMetadata } from '../types';
+
+interface CreatorAppPanelProps {
+  app: AppWithMetadata;
+  onUpdated?: () => void;
+  className?: string;
+}
+
+const formatElta = (value: bigint) => parseFloat(formatEther(value)).toLocaleString();
+
+export function CreatorAppPanel({ app, onUpdated, className = '' }: CreatorAppPanelProps) {
+  const card = toAppCardData(app);
+  const hasLocker = app.graduated && app.locker !== zeroAddress;
+
+  const {
+    useSimulateUpdateMetadata,
+    updateMetadata,
+    isUpdatingMetadata,
+    updateMetadataTx,
+    updateMetadataError,
+  } = useAppToken(app.token);
+  const { useSimulateGraduate, graduate, isGraduating, graduateTx, graduateError } = useBondingCurve(app.curve);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [metadata, setMetadata] = useState({
+    description: app.metadata.description,
+    imageURI: app.metadata.imageURI,
+    website: app.metadata.website,
+  });
+
+  const canGraduate = !app.graduated && (app.curveState?.progress ?? 0n) >= 10000n;
+
+  // Pre-flight both creator actions before the wallet prompt
+  const graduateSimulation = useSimulateGraduate(canGraduate);
+  const metadataSimulation = useSimulateUpdateMetadata(
+    metadata.description,
+    metadata.imageURI,
+    metadata.website,
+    isEditing
+  );
+
+  // Refresh dashboard data once a creator action confirms
+  useEffect(() => {
+    if (updateMetadataTx.isSuccess) {
+      setIsEditing(false);
+      onUpdated?.();
+    }
+  }, [updateMetadataTx.isSuccess]);
+
+  useEffect(() => {
+    if (graduateTx.isSuccess) onUpdated?.();
+  }, [graduateTx.isSuccess]);
+
+  const actionError = updateMetadataError || graduateError;
+
+  return (
+    <div className={`bg-white rounded-2xl p-6 shadow-xl ${className}`}>
+      {/* Header */}
+      <div className="flex items-start justify-between mb-4">
+        <div className="min-w-0">
+          <h3 className="font-montserrat font-bold text-lg text-offBlack truncate">
+            {card.name}
+          </h3>
+          <p className="text-sm text-gray3 font-sf-pro">
+            ${card.symbol} • App #{card.id}
+          </p>
+        </div>
+        <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+          app.graduated ? 'bg-success text-white' : 'bg-elataGreen text-white'
+        }`}>
+          {app.graduated ? 'Graduated' : 'Active'}
+        </span>
+      </div>
+
+      {/* Curve / Graduation Stats */}
+      <div className="grid grid-cols-2 gap-3 mb-4 text-sm font-sf-pro">
+        <div className="bg-gray1/20 rounded-lg p-3">
+          <p className="text-xs text-gray3">ELTA Raised</p>
+          <p className="font-medium text-offBlack">{formatElta(card.totalRaised)}</p>
+        </div>
+        <div className="bg-gray1/20 rounded-lg p-3">
+          <p className="text-xs text-gray3">{app.graduated ? 'Final Supply' : 'Progress'}</p>
+          <p className="font-medium text-offBlack">
+            {app.graduated ? formatElta(app.finalSupply) : `${card.progress.toFixed(1)}%`}
+          </p>
+        </div>
+        {!app.graduated && (
+          <>
+            <div className="bg-gray1/20 rounded-lg p-3">
+              <p className="text-xs text-gray3">Target</p>
+              <p className="font-medium text-offBlack">{formatElta(card.target)}</p>
+            </div>
+            <div className="bg-gray1/20 rounded-lg p-3">
+              <p className="text-xs text-gray3">Price (ELTA)</p>
+              <p className="font-medium text-offBlack">{formatEther(card.currentPrice)}</p>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* LP Lock */}
+      {hasLocker && <LpLockerPanel locker={app.locker} onClaimed={onUpdated} className="mb-4" />}
+
+      {/* Actions */}
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          className="flex-1 bg-cream2 text-offBlack py-2 px-4 rounded-lg text-sm font-medium hover:bg-cream1 transition-colors"
+        >
+          {isEditing ? 'Cancel' : 'Edit Metadata'}
+        </button>
+        {!app.graduated && (
+          <button
+            onClick={graduate}
+            disabled={!canGraduate || !!graduateSimulation.revert || isGraduating || graduateTx.isLoading}
+            className="flex-1 bg-elataGreen text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-elataGreen/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isGraduating || graduateTx.isLoading ? 'Graduating...' : 'Graduate'}
+          </button>
+        )}
+        <Link
+          href={`/apps/${app.id}`}
+          className="flex-1 text-center bg-cream2 text-offBlack py-2 px-4 rounded-lg text-sm font-medium hover:bg-cream1 transition-colors"
+        >
+          View
+        </Link>
+      </div>
+
+      {canGraduate && <SimulationNotice simulation={graduateSimulation} className="mt-3" />}
+
+      {/* Edit Metadata */}
+      {isEditing && (
+        <form
+          className="mt-4 space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            updateMetadata(metadata.description, metadata.imageURI, metadata.website);
+          }}
+        >
+          <textarea
+            value={metadata.description}
+            onChange={(e) => setMetadata(prev => ({ ...prev, description: e.target.value }))}
+            className="w-full px-3 py-2 border-2 border-gray2 rounded-xl bg-white focus:border-elataGreen transition-all duration-200 font-sf-pro text-sm min-h-20 resize-y"
+            placeholder="Description"
+            maxLength={500}
+          />
+          <input
+            type="url"
+            value={metadata.imageURI}
+            onChange={(e) => setMetadata(prev => ({ ...prev, imageURI: e.target.value }))}
+            className="w-full px-3 py-2 border-2 border-gray2 rounded-xl bg-white focus:border-elataGreen transition-all duration-200 font-sf-pro text-sm"
+            placeholder="Image URL"
+          />
+          <input
+            type="url"
+            value={metadata.website}
+            onChange={(e) => setMetadata(prev => ({ ...prev, website: e.target.value }))}
+            className="w-full px-3 py-2 border-2 border-gray2 rounded-xl bg-white focus:border-elataGreen transition-all duration-200 font-sf-pro text-sm"
+            placeholder="Website"
+          />
+          <SimulationNotice simulation={metadataSimulation} />
+          <button
+            type="submit"
+            disabled={isUpdatingMetadata || updateMetadataTx.isLoading || !!metadataSimulation.revert}
+            className="w-full bg-elataGreen text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-elataGreen/90 transition-colors disabled:opacity-50"
+          >
+            {isUpdatingMetadata || updateMetadataTx.isLoading ? 'Saving...' : 'Save Metadata'}
+          </button>
+        </form>
+      )}
+
+      {actionError && (
+        <div className="mt-4 bg-accentRed/10 border border-accentRed/20 rounded-lg p-3">
+          <p className="text-accentRed text-xs font-sf-pro break-words">
+            {decodeElataError(actionError).message}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
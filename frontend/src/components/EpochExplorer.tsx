@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { formatEther } from 'viem';
+import { useAccount } from 'wagmi';
+import { useRewardsDistributor } from '../hooks/useRewardsDistributor';
+import { useVeELTA } from '../hooks/useVeELTA';
+import { EPOCH_PAGE_SIZE, getEpochShare } from '../lib/rewardEpochs';
+import { getExplorerTxUrl } from '../lib/transactions';
+
+interface EpochExplorerProps {
+  className?: string;
+}
+
+const formatAmount = (value: bigint) =>
+  parseFloat(formatEther(value)).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * Pages through RewardsDistributor's veELTA epochs, newest first. Each row
+ * shows the epoch's snapshot block and allocation, the veELTA supply at that
+ * block, and the RevenueSplit of the deposit that created it.
+ */
+export function EpochExplorer({ className = '' }: EpochExplorerProps) {
+  const { address, chain } = useAccount();
+  const { useEpochCount, useEpochsBatch, useRevenueSplits } = useRewardsDistributor();
+  const { useSnapshotVotes } = useVeELTA();
+
+  const { data: epochCount, isLoading: isLoadingCount } = useEpochCount();
+  const [page, setPage] = useState(0);
+
+  const pageCount = epochCount !== undefined ? Number((epochCount + EPOCH_PAGE_SIZE - 1n) / EPOCH_PAGE_SIZE) : 0;
+  // Page 0 holds the latest epochs
+  const end = epochCount !== undefined ? epochCount - BigInt(page) * EPOCH_PAGE_SIZE : 0n;
+  const start = end > EPOCH_PAGE_SIZE ? end - EPOCH_PAGE_SIZE : 0n;
+
+  const { data: epochs, isLoading: isLoadingEpochs } = useEpochsBatch(start, end - start);
+  const { data: splits } = useRevenueSplits(epochs);
+  const { data: snapshots } = useSnapshotVotes(epochs?.map((epoch) => epoch.blockNumber) ?? []);
+
+  const rows = epochs?.map((epoch, i) => ({ ...epoch, ...snapshots?.[i], split: splits?.get(epoch.epochId) })).reverse();
+
+  return (
+    <div className={`bg-white rounded-2xl p-8 shadow-lg ${className}`}>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="font-montserrat font-semibold text-xl text-offBlack">veELTA Epochs</h2>
+        <p className="text-sm text-gray3 font-sf-pro">
+          {epochCount !== undefined ? `${epochCount} epoch${epochCount === 1n ? '' : 's'}` : '…'}
+        </p>
+      </div>
+
+      {isLoadingCount || isLoadingEpochs ? (
+        <div className="space-y-2 animate-pulse">
+          {[0, 1, 2].map((i) => (
+            <div key={i} className="h-10 bg-cream2 rounded"></div>
+          ))}
+        </div>
+      ) : !rows?.length ? (
+        <p className="text-sm text-gray3 font-sf-pro">No revenue has been distributed yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm font-sf-pro">
+            <thead>
+              <tr className="text-left text-xs text-gray3 border-b border-cream2">
+                <th className="py-2 pr-4 font-medium">Epoch</th>
+                <th className="py-2 pr-4 font-medium">Snapshot block</th>
+                <th className="py-2 pr-4 font-medium text-right">veELTA holders</th>
+                <th className="py-2 pr-4 font-medium text-right">App stakers</th>
+                <th className="py-2 pr-4 font-medium text-right">Treasury</th>
+                <th className="py-2 pr-4 font-medium text-right">veELTA supply</th>
+                {address && <th className="py-2 pr-4 font-medium text-right">Your share</th>}
+                <th className="py-2 font-medium">Deposit</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-cream2">
+              {rows.map((row) => {
+                const href = row.split ? getExplorerTxUrl(chain, row.split.transactionHash) : undefined;
+                return (
+                  <tr key={row.epochId.toString()}>
+                    <td className="py-2 pr-4 font-medium text-offBlack">#{row.epochId.toString()}</td>
+                    <td className="py-2 pr-4 text-gray3">{row.blockNumber.toString()}</td>
+                    <td className="py-2 pr-4 text-right text-elataGreen font-medium">{formatAmount(row.amount)}</td>
+                    <td className="py-2 pr-4 text-right text-offBlack">
+                      {row.split ? formatAmount(row.split.appAmount) : '—'}
+                    </td>
+                    <td className="py-2 pr-4 text-right text-offBlack">
+                      {row.split ? formatAmount(row.split.treasuryAmount) : '—'}
+                    </td>
+                    <td className="py-2 pr-4 text-right text-offBlack">
+                      {row.totalVotes !== undefined ? formatAmount(row.totalVotes) : '—'}
+                    </td>
+                    {address && (
+                      <td className="py-2 pr-4 text-right text-offBlack">
+                        {row.userVotes !== undefined && row.totalVotes !== undefined
+                          ? formatAmount(getEpochShare(row.amount, row.userVotes, row.totalVotes))
+                          : '—'}
+                      </td>
+                    )}
+                    <td className="py-2 text-gray3 whitespace-nowrap">
+                      {row.split ? (
+                        <>
+                          {formatAmount(row.split.totalAmount)} ELTA ·{' '}
+                          {new Date(row.split.timestamp * 1000).toLocaleDateString()}
+                          {href && (
+                            <a href={href} target="_blank" rel="noopener noreferrer" className="ml-2 hover:text-elataGreen">
+                              ↗
+                            </a>
+                          )}
+                        </>
+                      ) : (
+                        '…'
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between mt-6 text-sm font-sf-pro">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0}
+            className="px-3 py-1 rounded-md bg-cream2 text-offBlack hover:bg-cream1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Newer
+          </button>
+          <span className="text-gray3">
+            Page {page + 1} of {pageCount}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page + 1 >= pageCount}
+            className="px-3 py-1 rounded-md bg-cream2 text-offBlack hover:bg-cream1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Older
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect } from 'react';
+import { formatUnits } from 'viem';
+import { useAccount } from 'wagmi';
+import { toCurveState, decodeElataError } from '@elata/sdk';
+import { useAppFactory } from '../hooks/useAppFactory';
+import { useBondingCurve } from '../hooks/useBondingCurve';
+import type { AppWithMetadata } from '../types';
+import { SimulationNotice } from './SimulationNotice';
+
+interface GraduationPanelProps {
+  app: AppWithMetadata;
+  onGraduated?: () => void;
+  className?: string;
+}
+
+// getCurveState() reports progress in bps; 10000 means the target is met
+const GRADUATION_PROGRESS_BPS = 10000n;
+
+const formatAmount = (value: bigint) =>
+  parseFloat(formatUnits(value, 18)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const formatDate = (seconds: bigint) => new Date(Number(seconds) * 1000).toLocaleString();
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex justify-between items-start gap-4 py-2 border-b border-cream2 last:border-0 text-sm font-sf-pro">
+      <span className="text-gray3 shrink-0">{label}</span>
+      <span className="text-offBlack text-right break-all">{children}</span>
+    </div>
+  );
+}
+
+export function GraduationPanel({ app, onGraduated, className = '' }: GraduationPanelProps) {
+  const { isConnected } = useAccount();
+
+  const { useCurveState, useSimulateGraduate, graduate, isGraduating, graduateTx, graduateError } = useBondingCurve(app.curve);
+  const { data: curveData, refetch: refetchCurve } = useCurveState();
+  const curve = curveData ? toCurveState(curveData) : app.curveState;
+
+  const { useAppGraduated } = useAppFactory();
+  const { data: graduation, refetch: refetchGraduation } = useAppGraduated(app.id);
+
+  useEffect(() => {
+    if (graduateTx.isSuccess) {
+      refetchCurve();
+      refetchGraduation();
+      onGraduated?.();
+    }
+  }, [graduateTx.isSuccess]);
+
+  const isGraduated = app.graduated || !!curve?.isGraduated || !!graduation;
+  const canGraduate = !isGraduated && !!curve && curve.progress >= GRADUATION_PROGRESS_BPS;
+  const graduateSimulation = useSimulateGraduate(canGraduate && isConnected);
+
+  if (isGraduated) {
+    const unlockAt = graduation?.unlockAt;
+    const isUnlocked = unlockAt !== undefined && BigInt(Math.floor(Date.now() / 1000)) >= unlockAt;
+
+    return (
+      <div className={`bg-white rounded-2xl p-6 shadow-xl ${className}`}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-montserrat font-bold text-lg text-offBlack">Graduated</h3>
+          <span className="px-2 py-1 text-xs font-medium rounded-full bg-success text-white">Uniswap</span>
+        </div>
+
+        {graduation ? (
+          <>
+            <Row label="Uniswap pair"><span className="font-mono text-xs">{graduation.pair}</span></Row>
+            <Row label="LP locker"><span className="font-mono text-xs">{graduation.locker}</span></Row>
+            <Row label="LP unlocks">
+              {formatDate(graduation.unlockAt)}
+              {isUnlocked && <span className="ml-1 text-success">(unlocked)</span>}
+            </Row>
+            <Row label="Total raised">{formatAmount(graduation.totalRaised)} ELTA</Row>
+            <Row label="Final supply">{formatAmount(graduation.finalSupply)} ${app.metadata.symbol}</Row>
+            <Row label="Graduation tx">
+              <span className="font-mono text-xs">{graduation.transactionHash}</span>
+            </Row>
+          </>
+        ) : (
+          <p className="text-sm text-gray3 font-sf-pro">Loading graduation details...</p>
+        )}
+      </div>
+    );
+  }
+
+  if (!canGraduate) return null;
+
+  return (
+    <div className={`bg-white rounded-2xl p-6 shadow-xl ${className}`}>
+      <h3 className="font-montserrat font-bold text-lg text-offBlack mb-2">Target Reached</h3>
+      <p className="text-sm text-gray3 font-sf-pro mb-4">
+        The curve has raised {formatAmount(curve.eltaReserve)} of {formatAmount(curve.target)} ELTA. Anyone can
+        graduate it: the reserves are added as Uniswap liquidity and the LP tokens are locked for the creator.
+      </p>
+
+      {isConnected && (
+        <SimulationNotice simulation={graduateSimulation} className="mb-4">
+          <p>Simulation passed: graduation will create the pair and lock the LP tokens.</p>
+        </SimulationNotice>
+      )}
+
+      <button
+        onClick={graduate}
+        disabled={!isConnected || !!graduateSimulation.revert || isGraduating || graduateTx.isLoading}
+        className="w-full bg-elataGreen text-white py-3 px-4 rounded-lg font-medium hover:bg-elataGreen/90 transition-colors disabled:opacity-50"
+      >
+        {!isConnected
+          ? 'Connect Wallet to Graduate'
+          : isGraduating || graduateTx.isLoading
+            ? 'Graduating...'
+            : 'Graduate to Uniswap'}
+      </button>
+
+      {(graduateError || graduateTx.error) && (
+        <p className="mt-3 text-accentRed text-xs font-sf-pro break-words">
+          {decodeElataError(graduateError || graduateTx.error).message}
+        </p>
+      )}
+    </div>
+  );
+}
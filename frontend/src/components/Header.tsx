@@ -5,6 +5,7 @@ import Image from 'next/image';
 import { usePathname } from 'next/navigation';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { useAccount } from 'wagmi';
+import { TransactionHistory } from './TransactionHistory';
 
 export function Header() {
   const { isConnected } = useAccount();
@@ -57,6 +58,16 @@ export function Header() {
           >
             Staking
           </Link>
+          <Link
+            href="/rewards"
+            className={`transition-colors duration-200 font-sf-pro ${
+              pathname === '/rewards' 
+                ? 'text-offBlack font-bold' 
+                : 'text-gray3 hover:text-offBlack font-medium'
+            }`}
+          >
+            Rewards
+          </Link>
           <Link
             href="/xp"
             className={`transition-colors duration-200 font-sf-pro ${
@@ -89,8 +100,9 @@ export function Header() {
           </Link>
         </div>
 
-        {/* Connect Button */}
-        <div className="flex items-center">
+        {/* Transaction History + Connect Button */}
+        <div className="flex items-center gap-2">
+          {isConnected && <TransactionHistory />}
           <ConnectButton.Custom>
             {({
               account,
@@ -184,6 +196,12 @@ export function Header() {
             >
               Staking
             </Link>
+            <Link
+              href="/rewards"
+              className="text-gray3 hover:text-offBlack font-medium text-sm transition-colors duration-200 font-sf-pro"
+            >
+              Rewards
+            </Link>
             <Link
               href="/xp"
               className="text-gray3 hover:text-offBlack font-medium text-sm transition-colors duration-200 font-sf-pro"
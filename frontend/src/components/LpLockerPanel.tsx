@@ -0,0 +1,132 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { formatEther } from 'viem';
+import { useAccount } from 'wagmi';
+import { decodeElataError } from '@elata/sdk';
+import { useLpLocker } from '../hooks/useLpLocker';
+import { SimulationNotice } from './SimulationNotice';
+
+interface LpLockerPanelProps {
+  locker: `0x${string}`;
+  onClaimed?: () => void;
+  className?: string;
+}
+
+const formatCountdown = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return `${days}d ${hours}h ${minutes}m ${secs}s`;
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export function LpLockerPanel({ locker, onClaimed, className = '' }: LpLockerPanelProps) {
+  const { address } = useAccount();
+  const { useLockerState, useLockerEvents, useSimulateClaim, claim, isClaiming, claimTx, claimError } = useLpLocker(locker);
+  const { data: state, refetch: refetchState } = useLockerState();
+  const { data: events, refetch: refetchEvents } = useLockerEvents();
+
+  // Tick locally instead of polling timeUntilUnlock()
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = state ? Math.max(Number(state.unlockAt) - now, 0) : 0;
+  const isUnlocked = !!state && remaining === 0;
+
+  // canClaim() was read before the unlock time passed
+  useEffect(() => {
+    if (isUnlocked && !state?.canClaim && !state?.claimed) refetchState();
+  }, [isUnlocked]);
+
+  useEffect(() => {
+    if (claimTx.isSuccess) {
+      refetchState();
+      refetchEvents();
+      onClaimed?.();
+    }
+  }, [claimTx.isSuccess]);
+
+  const isBeneficiary = !!state && state.beneficiary.toLowerCase() === address?.toLowerCase();
+  const canClaim = !!state?.canClaim && isBeneficiary;
+  const claimSimulation = useSimulateClaim(canClaim && !state?.claimed);
+  const txError = claimError || claimTx.error;
+
+  if (!state) {
+    return <div className={`h-24 bg-cream2 rounded-lg animate-pulse ${className}`} />;
+  }
+
+  return (
+    <div className={`p-3 bg-success/10 rounded-lg text-sm font-sf-pro ${className}`}>
+      <div className="flex items-center justify-between mb-2">
+        <p className="font-medium text-success">{state.claimed ? 'LP Claimed' : 'LP Locked'}</p>
+        {!state.claimed && (
+          <span className="text-xs font-medium text-offBlack">
+            {isUnlocked ? 'Unlocked' : formatCountdown(remaining)}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-1 text-xs text-offBlack">
+        <div className="flex justify-between">
+          <span className="text-gray3">Locked</span>
+          <span>{formatEther(state.lockedBalance)} LP</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray3">Unlocks</span>
+          <span>{new Date(Number(state.unlockAt) * 1000).toLocaleString()}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray3">Beneficiary</span>
+          <span className="font-mono" title={state.beneficiary}>
+            {shortAddress(state.beneficiary)}
+            {isBeneficiary && ' (you)'}
+          </span>
+        </div>
+      </div>
+
+      {canClaim && !state.claimed && (
+        <SimulationNotice simulation={claimSimulation} className="mt-3">
+          <p>Simulation passed: {formatEther(state.lockedBalance)} LP will be sent to you.</p>
+        </SimulationNotice>
+      )}
+
+      {!state.claimed && (
+        <button
+          onClick={claim}
+          disabled={!canClaim || !!claimSimulation.revert || isClaiming || claimTx.isLoading}
+          className="w-full mt-3 bg-elataGreen text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-elataGreen/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isClaiming || claimTx.isLoading
+            ? 'Claiming...'
+            : !isBeneficiary
+              ? 'Only the beneficiary can claim'
+              : isUnlocked
+                ? 'Claim LP'
+                : 'Locked'}
+        </button>
+      )}
+
+      {/* Lock history */}
+      {events && events.length > 0 && (
+        <ul className="mt-3 pt-2 border-t border-success/20 space-y-1 text-xs text-gray3">
+          {events.map((event) => (
+            <li key={`${event.transactionHash}-${event.type}`} className="flex justify-between">
+              <span>{event.type === 'locked' ? 'Locked' : 'Claimed'} at block {event.blockNumber.toString()}</span>
+              <span className="text-offBlack">{formatEther(event.amount)} LP</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {txError && (
+        <p className="mt-2 text-accentRed text-xs break-words">{decodeElataError(txError).message}</p>
+      )}
+    </div>
+  );
+}
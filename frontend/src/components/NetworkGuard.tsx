@@ -0,0 +1,79 @@
+'use client';
+
+import { useAccount, useChainId, useSwitchChain } from 'wagmi';
+import { getChainsWithContracts, resolveContract } from '../lib/wagmi';
+import { getDeployment, type ContractName } from '../config/contracts';
+
+interface NetworkGuardProps {
+  contracts: readonly ContractName[];
+  children: React.ReactNode;
+  // Rendered instead of the switch-network card, e.g. null for secondary widgets
+  fallback?: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * Renders children only when every contract in `contracts` is deployed on
+ * the current chain; otherwise explains why and offers to switch to a
+ * chain where they are.
+ */
+export function NetworkGuard({ contracts, children, fallback, className = '' }: NetworkGuardProps) {
+  const { chain, chainId: walletChainId, isConnected } = useAccount();
+  const configChainId = useChainId();
+  const { switchChain, isPending, error } = useSwitchChain();
+
+  const resolutions = contracts.map((contract) => resolveContract(walletChainId ?? configChainId, contract));
+  const resolution = resolutions.find((r) => r.status !== 'deployed');
+
+  if (!resolution) {
+    return <>{children}</>;
+  }
+
+  if (fallback !== undefined) {
+    return <>{fallback}</>;
+  }
+
+  const targets = getChainsWithContracts(contracts);
+  const networkName =
+    chain?.name ??
+    (resolution.chainId !== undefined ? getDeployment(resolution.chainId)?.network : undefined) ??
+    `chain ${resolution.chainId ?? 'unknown'}`;
+
+  return (
+    <div className={`bg-white rounded-2xl p-8 shadow-xl text-center ${className}`}>
+      <div className="w-16 h-16 bg-accentRed/10 rounded-full flex items-center justify-center mx-auto mb-4">
+        <svg className="w-8 h-8 text-accentRed" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+        </svg>
+      </div>
+      <h2 className="text-2xl font-montserrat font-bold text-offBlack mb-2">
+        {resolution.status === 'unsupported-chain' ? 'Unsupported Network' : 'Not Available on This Network'}
+      </h2>
+      <p className="text-gray3 mb-6 font-sf-pro">
+        {resolution.status === 'unsupported-chain'
+          ? `Elata Protocol is not deployed on ${networkName}.`
+          : `${resolution.contract} is not deployed on ${networkName}.`}
+        {targets.length > 0 && ' Switch to a supported network to continue.'}
+      </p>
+
+      {isConnected && targets.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-3">
+          {targets.map((target) => (
+            <button
+              key={target.id}
+              onClick={() => switchChain({ chainId: target.id })}
+              disabled={isPending}
+              className="bg-offBlack text-white py-2 px-6 rounded-lg text-sm font-medium hover:bg-offBlack/90 transition-colors disabled:opacity-50"
+            >
+              {isPending ? 'Switching...' : `Switch to ${target.name}`}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-4 text-accentRed text-xs font-sf-pro break-words">{error.message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useEffect } from 'react';
+import { decodeElataError } from '@elata/sdk';
+import { useAppToken } from '../hooks/useAppToken';
+import { usePendingMetadata } from '../hooks/usePendingMetadata';
+import { SimulationNotice } from './SimulationNotice';
+import type { PendingMetadata } from '../types';
+
+interface PendingMetadataNoticeProps {
+  onCompleted?: () => void;
+  className?: string;
+}
+
+function PendingMetadataRow({
+  entry,
+  onDone,
+  onDismiss,
+}: {
+  entry: PendingMetadata;
+  onDone: () => void;
+  onDismiss: () => void;
+}) {
+  const {
+    useSimulateUpdateMetadata,
+    updateMetadata,
+    isUpdatingMetadata,
+    updateMetadataTx,
+    updateMetadataError,
+  } = useAppToken(entry.token);
+  const simulation = useSimulateUpdateMetadata(entry.description, entry.imageURI, entry.website, !!entry.token);
+
+  useEffect(() => {
+    if (updateMetadataTx.isSuccess) onDone();
+  }, [updateMetadataTx.isSuccess]);
+
+  const isWorking = isUpdatingMetadata || updateMetadataTx.isLoading;
+  const error = updateMetadataError || updateMetadataTx.error;
+
+  return (
+    <li className="py-3 border-b border-accentRed/10 last:border-0">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="font-medium text-offBlack truncate">
+            {entry.name} (${entry.symbol})
+            {entry.appId !== undefined && <span className="text-gray3 font-normal"> • App #{entry.appId}</span>}
+          </p>
+          <p className="text-xs text-gray3 truncate">
+            {entry.token ? entry.description : 'Waiting for the launch transaction to confirm...'}
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button
+            onClick={onDismiss}
+            disabled={isWorking}
+            className="bg-cream2 text-offBlack py-2 px-3 rounded-lg text-xs font-medium hover:bg-cream1 transition-colors disabled:opacity-50"
+          >
+            Dismiss
+          </button>
+          <button
+            onClick={() => updateMetadata(entry.description, entry.imageURI, entry.website)}
+            disabled={!entry.token || !!simulation.revert || isWorking}
+            className="bg-elataGreen text-white py-2 px-3 rounded-lg text-xs font-medium hover:bg-elataGreen/90 transition-colors disabled:opacity-50"
+          >
+            {isWorking ? 'Saving...' : 'Set Metadata'}
+          </button>
+        </div>
+      </div>
+      <SimulationNotice simulation={simulation} className="mt-2" />
+      {error && <p className="mt-2 text-accentRed text-xs break-words">{decodeElataError(error).message}</p>}
+    </li>
+  );
+}
+
+/**
+ * Lists launches whose metadata tx never confirmed (the wallet was closed,
+ * the tx rejected or the page left mid-flow) and lets the creator finish them.
+ */
+export function PendingMetadataNotice({ onCompleted, className = '' }: PendingMetadataNoticeProps) {
+  const { entries, remove } = usePendingMetadata();
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className={`bg-white rounded-2xl p-6 shadow-xl border border-accentRed/20 ${className}`}>
+      <h3 className="font-montserrat font-bold text-lg text-offBlack mb-1">Finish Setting Up Your Apps</h3>
+      <p className="text-sm text-gray3 font-sf-pro mb-3">
+        These launches have no description, image or website yet. Metadata is set in a separate transaction after
+        launch.
+      </p>
+      <ul className="text-sm font-sf-pro">
+        {entries.map((entry) => (
+          <PendingMetadataRow
+            key={entry.createTxHash ?? entry.batchId}
+            entry={entry}
+            onDone={() => {
+              remove(entry);
+              onCompleted?.();
+            }}
+            onDismiss={() => remove(entry)}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
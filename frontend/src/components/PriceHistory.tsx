@@ -0,0 +1,62 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useBondingCurve } from '../hooks/useBondingCurve';
+import { CHART_INTERVALS, toCandles, toReserveSeries } from '../lib/priceHistory';
+import { CandleChart } from './CandleChart';
+import { ReserveChart } from './ReserveChart';
+import type { AppWithMetadata } from '../types';
+
+interface PriceHistoryProps {
+  app: AppWithMetadata;
+  className?: string;
+}
+
+export function PriceHistory({ app, className = '' }: PriceHistoryProps) {
+  const { useCurveHistory } = useBondingCurve(app.curve);
+  const { data: history, isLoading, error } = useCurveHistory();
+  const [interval, setIntervalSeconds] = useState<number>(CHART_INTERVALS[3].seconds);
+
+  const candles = useMemo(() => (history ? toCandles(history, interval) : []), [history, interval]);
+  const reserves = useMemo(
+    () => (history && app.curveState ? toReserveSeries(history, app.curveState.target) : []),
+    [history, app.curveState?.target]
+  );
+
+  return (
+    <div className={`bg-white rounded-2xl p-6 shadow-xl ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="font-montserrat font-bold text-lg text-offBlack">Price (ELTA)</h2>
+        <div className="flex space-x-1">
+          {CHART_INTERVALS.map((option) => (
+            <button
+              key={option.label}
+              onClick={() => setIntervalSeconds(option.seconds)}
+              className={`px-2 py-1 text-xs rounded-md font-medium transition-colors ${
+                interval === option.seconds ? 'bg-elataGreen text-white' : 'bg-cream2 text-offBlack hover:bg-cream1'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-64 bg-cream2 rounded-xl animate-pulse" />
+      ) : error ? (
+        <p className="text-accentRed text-sm font-sf-pro">Failed to load trade history: {error.message}</p>
+      ) : (
+        <>
+          <CandleChart candles={candles} />
+
+          <div className="flex items-center justify-between mt-6 mb-2">
+            <h3 className="font-montserrat font-semibold text-offBlack">Reserve &amp; Graduation Progress</h3>
+            <span className="text-xs text-gray3 font-sf-pro">{history?.trades.length ?? 0} trades</span>
+          </div>
+          <ReserveChart points={reserves} target={app.curveState?.target ?? 0n} />
+        </>
+      )}
+    </div>
+  );
+}
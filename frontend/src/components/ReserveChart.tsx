@@ -0,0 +1,88 @@
+'use client';
+
+import { formatEther } from 'viem';
+import type { ReservePoint } from '../types';
+
+interface ReserveChartProps {
+  points: ReservePoint[];
+  target: bigint;
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 12, right: 48, bottom: 24, left: 64 };
+
+const formatTime = (seconds: number) =>
+  new Date(seconds * 1000).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * ELTA reserve as a step line against the graduation target; the right
+ * axis reads the same line as progress.
+ */
+export function ReserveChart({ points, target, height = 200 }: ReserveChartProps) {
+  if (points.length === 0 || target === 0n) {
+    return (
+      <div className="flex items-center justify-center text-sm text-gray3 font-sf-pro" style={{ height }}>
+        No reserve history yet
+      </div>
+    );
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const targetElta = Number(formatEther(target));
+
+  const start = points[0].time;
+  const end = Math.max(points[points.length - 1].time, start + 1);
+  const x = (time: number) => PADDING.left + ((time - start) / (end - start)) * plotWidth;
+  const y = (reserve: bigint) =>
+    PADDING.top + plotHeight - Math.min(Number(formatEther(reserve)) / targetElta, 1) * plotHeight;
+
+  // Reserves only change at trades, so draw horizontal-then-vertical steps
+  const path = points
+    .map((point, i) => (i === 0 ? `M ${x(point.time)} ${y(point.reserveElta)}` : `H ${x(point.time)} V ${y(point.reserveElta)}`))
+    .join(' ');
+  const area = `${path} H ${x(end)} V ${PADDING.top + plotHeight} H ${x(start)} Z`;
+  const latest = points[points.length - 1];
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" style={{ height }}>
+      {[0, 0.25, 0.5, 0.75, 1].map((fraction) => {
+        const lineY = PADDING.top + plotHeight - fraction * plotHeight;
+        return (
+          <g key={fraction}>
+            <line
+              x1={PADDING.left}
+              x2={PADDING.left + plotWidth}
+              y1={lineY}
+              y2={lineY}
+              className={fraction === 1 ? 'stroke-accentRed' : 'stroke-cream2'}
+              strokeDasharray="4 4"
+            />
+            <text x={PADDING.left - 6} y={lineY + 4} textAnchor="end" className="fill-gray3 text-[10px]">
+              {(targetElta * fraction).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+            </text>
+            <text x={PADDING.left + plotWidth + 6} y={lineY + 4} className="fill-gray3 text-[10px]">
+              {fraction * 100}%
+            </text>
+          </g>
+        );
+      })}
+
+      <path d={area} className="fill-elataGreen" opacity={0.12} />
+      <path d={path} className="stroke-elataGreen" fill="none" strokeWidth={2} />
+      <circle cx={x(latest.time)} cy={y(latest.reserveElta)} r={3} className="fill-elataGreen">
+        <title>
+          {`${formatTime(latest.time)}\n${formatEther(latest.reserveElta)} ELTA (${(Number(latest.progress) / 100).toFixed(2)}%)`}
+        </title>
+      </circle>
+
+      <text x={PADDING.left} y={height - 6} className="fill-gray3 text-[10px]">
+        {formatTime(start)}
+      </text>
+      <text x={PADDING.left + plotWidth} y={height - 6} textAnchor="end" className="fill-gray3 text-[10px]">
+        {formatTime(end)}
+      </text>
+    </svg>
+  );
+}
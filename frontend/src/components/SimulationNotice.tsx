@@ -0,0 +1,40 @@
+'use client';
+
+import type { Simulation } from '../hooks/useSimulation';
+
+/**
+ * Result of a write's pre-flight simulation: the decoded revert when it
+ * would fail, otherwise `children` (the expected outcome).
+ */
+export function SimulationNotice({
+  simulation,
+  children,
+  className = '',
+}: {
+  simulation: Simulation;
+  children?: React.ReactNode;
+  className?: string;
+}) {
+  if (simulation.revert) {
+    return (
+      <div className={`bg-accentRed/10 border border-accentRed/20 rounded-lg p-3 text-xs font-sf-pro ${className}`}>
+        <p className="font-medium text-accentRed">This transaction would fail</p>
+        <p className="text-accentRed break-words">{simulation.revert.message}</p>
+      </div>
+    );
+  }
+
+  if (simulation.isSimulating && !simulation.isReady) {
+    return <p className={`text-xs text-gray3 font-sf-pro ${className}`}>Simulating transaction…</p>;
+  }
+
+  if (simulation.isReady && children) {
+    return (
+      <div className={`bg-success/10 border border-success/20 rounded-lg p-3 text-xs font-sf-pro text-offBlack ${className}`}>
+        {children}
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  TRANSACTION_STATUS_COLORS,
+  TRANSACTION_STATUS_LABELS,
+  useTransactionManager,
+} from './TransactionProvider';
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export function TransactionHistory() {
+  const { transactions, explorerUrl, clear } = useTransactionManager();
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  const pendingCount = transactions.filter((tx) => tx.status === 'pending').length;
+
+  // Close when clicking anywhere outside the dropdown
+  useEffect(() => {
+    if (!open) return;
+    const onClick = (event: MouseEvent) => {
+      if (ref.current && !ref.current.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', onClick);
+    return () => document.removeEventListener('mousedown', onClick);
+  }, [open]);
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen((value) => !value)}
+        type="button"
+        className="relative px-3 py-2 bg-white text-offBlack font-sf-pro font-medium text-sm rounded-full hover:bg-gray1/20 transition-all duration-300"
+        aria-label="Transaction history"
+      >
+        Activity
+        {pendingCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-elataGreen text-white text-xs flex items-center justify-center">
+            {pendingCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white rounded-2xl shadow-xl p-4 font-sf-pro text-sm z-50">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-montserrat font-bold text-offBlack">Transactions</h3>
+            {transactions.some((tx) => tx.status !== 'pending') && (
+              <button onClick={clear} className="text-xs text-gray3 hover:text-offBlack">
+                Clear
+              </button>
+            )}
+          </div>
+
+          {transactions.length === 0 ? (
+            <p className="text-gray3 text-center py-6">No transactions yet</p>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto divide-y divide-cream2">
+              {transactions.map((tx) => {
+                const href = explorerUrl(tx);
+                return (
+                  <li key={tx.hash} className="py-2 flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-offBlack truncate">{tx.label}</p>
+                      <p className="text-xs text-gray3">{formatTime(tx.submittedAt)}</p>
+                      {tx.error && <p className="text-xs text-accentRed truncate">{tx.error}</p>}
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className={`text-xs font-medium ${TRANSACTION_STATUS_COLORS[tx.status]}`}>
+                        {TRANSACTION_STATUS_LABELS[tx.status]}
+                      </p>
+                      {href && (
+                        <a
+                          href={href}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-elataGreen hover:underline"
+                        >
+                          Explorer ↗
+                        </a>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { useAccount, useConfig } from 'wagmi';
+import { waitForTransactionReceipt } from 'wagmi/actions';
+import { useAddRecentTransaction } from '@rainbow-me/rainbowkit';
+import type { Address } from 'viem';
+import { decodeElataError } from '@elata/sdk';
+import { getExplorerTxUrl, loadTransactions, saveTransactions } from '../lib/transactions';
+import type { TrackedTransaction } from '../types';
+
+interface TransactionContextValue {
+  transactions: TrackedTransaction[];
+  track: (hash: `0x${string}`, label: string) => void;
+  explorerUrl: (tx: Pick<TrackedTransaction, 'chainId' | 'hash' | 'replacedBy'>) => string | undefined;
+  clear: () => void;
+}
+
+const TransactionContext = createContext<TransactionContextValue | undefined>(undefined);
+
+// How long settled toasts stay on screen
+const TOAST_DURATION_MS = 6000;
+
+export function useTransactionManager() {
+  const context = useContext(TransactionContext);
+  if (!context) {
+    throw new Error('useTransactionManager must be used within TransactionProvider');
+  }
+  return context;
+}
+
+/**
+ * Tracks every write sent through useTransaction: persists a per-account
+ * history in localStorage, follows speed-ups and cancellations (the
+ * receipt may arrive under a different hash) and shows toasts.
+ */
+export function TransactionProvider({ children }: { children: React.ReactNode }) {
+  const config = useConfig();
+  const { address, chainId } = useAccount();
+  const addRecentTransaction = useAddRecentTransaction();
+
+  // Owner kept alongside the list so a save never lands under another account
+  const [history, setHistory] = useState<{ account?: Address; transactions: TrackedTransaction[] }>({
+    transactions: [],
+  });
+  const [toasts, setToasts] = useState<`0x${string}`[]>([]);
+  const watching = useRef(new Set<string>());
+
+  useEffect(() => {
+    watching.current.clear();
+    setToasts([]);
+    setHistory({ account: address, transactions: address ? loadTransactions(address) : [] });
+  }, [address]);
+
+  useEffect(() => {
+    if (history.account) saveTransactions(history.account, history.transactions);
+  }, [history]);
+
+  const update = (hash: `0x${string}`, patch: Partial<TrackedTransaction>) => {
+    setHistory((prev) => ({
+      ...prev,
+      transactions: prev.transactions.map((tx) => (tx.hash === hash ? { ...tx, ...patch } : tx)),
+    }));
+    if (patch.status && patch.status !== 'pending') {
+      setTimeout(() => setToasts((prev) => prev.filter((h) => h !== hash)), TOAST_DURATION_MS);
+    }
+  };
+
+  // Follow every pending tx, including ones restored from a previous session
+  useEffect(() => {
+    for (const tx of history.transactions) {
+      if (tx.status !== 'pending' || watching.current.has(tx.hash)) continue;
+      if (!config.chains.some((chain) => chain.id === tx.chainId)) continue;
+      watching.current.add(tx.hash);
+
+      let replacement: { reason: string; hash: `0x${string}` } | undefined;
+      waitForTransactionReceipt(config, {
+        hash: tx.hash,
+        chainId: tx.chainId as (typeof config.chains)[number]['id'],
+        onReplaced: (replaced) => {
+          replacement = { reason: replaced.reason, hash: replaced.transaction.hash };
+        },
+      })
+        .then((receipt) => {
+          const succeeded = receipt.status === 'success';
+          if (!replacement) {
+            update(tx.hash, { status: succeeded ? 'confirmed' : 'failed', settledAt: Date.now() });
+            return;
+          }
+          // 'repriced' is a speed-up of the same call; anything else means it never ran
+          update(tx.hash, {
+            status:
+              replacement.reason === 'repriced'
+                ? succeeded ? 'confirmed' : 'failed'
+                : replacement.reason === 'cancelled' ? 'cancelled' : 'replaced',
+            replacedBy: replacement.hash,
+            settledAt: Date.now(),
+          });
+        })
+        .catch((error: Error) => {
+          // Still pending after the polling timeout; pick it up again on the next render
+          if (error.name === 'WaitForTransactionReceiptTimeoutError') {
+            watching.current.delete(tx.hash);
+            return;
+          }
+          update(tx.hash, {
+            status: 'failed',
+            error: decodeElataError(error).message,
+            settledAt: Date.now(),
+          });
+        });
+    }
+  }, [history.transactions]);
+
+  const track = (hash: `0x${string}`, label: string) => {
+    if (!address) return;
+
+    const tx: TrackedTransaction = {
+      hash,
+      chainId: chainId ?? config.state.chainId,
+      label,
+      status: 'pending',
+      submittedAt: Date.now(),
+    };
+    setHistory((prev) => ({
+      ...prev,
+      transactions: [tx, ...prev.transactions.filter((t) => t.hash !== hash)],
+    }));
+    setToasts((prev) => [hash, ...prev.filter((h) => h !== hash)]);
+    addRecentTransaction({ hash, description: label });
+  };
+
+  const explorerUrl = (tx: Pick<TrackedTransaction, 'chainId' | 'hash' | 'replacedBy'>) =>
+    getExplorerTxUrl(
+      config.chains.find((chain) => chain.id === tx.chainId),
+      tx.replacedBy ?? tx.hash
+    );
+
+  const clear = () => {
+    setHistory((prev) => ({
+      ...prev,
+      transactions: prev.transactions.filter((tx) => tx.status === 'pending'),
+    }));
+  };
+
+  const toastTransactions = toasts.flatMap((hash) => history.transactions.filter((tx) => tx.hash === hash));
+
+  return (
+    <TransactionContext.Provider value={{ transactions: history.transactions, track, explorerUrl, clear }}>
+      {children}
+
+      {/* Toasts */}
+      <div className="fixed bottom-4 right-4 z-[60] space-y-2 w-80 max-w-[calc(100vw-2rem)]">
+        {toastTransactions.map((tx) => (
+          <TransactionToast
+            key={tx.hash}
+            tx={tx}
+            href={explorerUrl(tx)}
+            onDismiss={() => setToasts((prev) => prev.filter((h) => h !== tx.hash))}
+          />
+        ))}
+      </div>
+    </TransactionContext.Provider>
+  );
+}
+
+export const TRANSACTION_STATUS_LABELS: Record<TrackedTransaction['status'], string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+  replaced: 'Replaced',
+  cancelled: 'Cancelled',
+};
+
+export const TRANSACTION_STATUS_COLORS: Record<TrackedTransaction['status'], string> = {
+  pending: 'text-gray3',
+  confirmed: 'text-success',
+  failed: 'text-accentRed',
+  replaced: 'text-accentRed',
+  cancelled: 'text-gray3',
+};
+
+function TransactionToast({
+  tx,
+  href,
+  onDismiss,
+}: {
+  tx: TrackedTransaction;
+  href?: string;
+  onDismiss: () => void;
+}) {
+  return (
+    <div className="bg-white rounded-xl shadow-xl p-4 font-sf-pro text-sm border border-cream2">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="font-medium text-offBlack truncate">{tx.label}</p>
+          <p className={`text-xs ${TRANSACTION_STATUS_COLORS[tx.status]}`}>
+            {tx.status === 'pending' && (
+              <span className="inline-block w-2 h-2 mr-1 rounded-full bg-elataGreen animate-pulse" />
+            )}
+            {TRANSACTION_STATUS_LABELS[tx.status]}
+            {tx.replacedBy && tx.status === 'confirmed' && ' (sped up)'}
+            {tx.error && ` — ${tx.error}`}
+          </p>
+        </div>
+        <button onClick={onDismiss} className="text-gray3 hover:text-offBlack text-xs" aria-label="Dismiss">
+          ✕
+        </button>
+      </div>
+      {href && (
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-block mt-2 text-xs text-elataGreen hover:underline"
+        >
+          View on explorer ↗
+        </a>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { formatEther, parseEther } from 'viem';
+import {
+  BOOST_PRECISION,
+  quoteExtendLock,
+  quoteLock,
+  VeMathError,
+  type LockParameters,
+  type VeLock,
+  type VeQuote,
+} from '@elata/sdk';
+import { useVeELTA } from '../hooks/useVeELTA';
+
+interface VeBoostCalculatorProps {
+  params: LockParameters;
+  className?: string;
+}
+
+const DAY = 86400n;
+
+const formatAmount = (value: bigint) =>
+  parseFloat(formatEther(value)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const formatBoost = (boost: bigint) => `${(Number((boost * 10_000n) / BOOST_PRECISION) / 10_000).toFixed(4)}x`;
+
+const parseAmount = (value: string) => {
+  try {
+    return value ? parseEther(value) : 0n;
+  } catch {
+    return 0n;
+  }
+};
+
+const nowSeconds = () => BigInt(Math.floor(Date.now() / 1000));
+
+// veMath throws VeMathError for calls the contract would revert
+const quoteOrError = (quote: () => VeQuote): { quote?: VeQuote; error?: string } => {
+  try {
+    return { quote: quote() };
+  } catch (error) {
+    if (error instanceof VeMathError) return { error: error.reason };
+    throw error;
+  }
+};
+
+/**
+ * Projects veELTA for a lock before it is made, and what extending it later
+ * would add. Uses the SDK's veMath, which mirrors VeELTA's boost and rounding.
+ */
+export function VeBoostCalculator({ params, className = '' }: VeBoostCalculatorProps) {
+  const minDays = Number(params.minLock / DAY) + 1;
+  const maxDays = Number(params.maxLock / DAY);
+
+  const { useLockDetails } = useVeELTA();
+  const { data: details } = useLockDetails();
+  const hasActiveLock = !!details && details.principal > 0n;
+
+  const [amount, setAmount] = useState('1000');
+  const [days, setDays] = useState(() => Math.min(Math.max(365, minDays), maxDays));
+  const [extendAfterDays, setExtendAfterDays] = useState(90);
+  const [extendToDays, setExtendToDays] = useState(maxDays);
+
+  // Pinned so the readout doesn't drift while the sliders move
+  const now = useMemo(nowSeconds, []);
+  const amountWei = parseAmount(amount);
+
+  const lockQuote =
+    amountWei > 0n ? quoteOrError(() => quoteLock(amountWei, now + BigInt(days) * DAY, now, params)) : {};
+
+  // Projects the account's real lock when it has one, otherwise the lock above
+  const base: VeLock | undefined = hasActiveLock ? details : lockQuote.quote;
+  const extendAt = now + BigInt(extendAfterDays) * DAY;
+  const extendQuote = base
+    ? quoteOrError(() => quoteExtendLock(base, extendAt + BigInt(extendToDays) * DAY, extendAt, params))
+    : {};
+
+  return (
+    <div className={`bg-white rounded-2xl p-8 shadow-lg ${className}`}>
+      <h2 className="font-montserrat font-semibold text-xl text-offBlack mb-6">
+        veELTA Calculator
+      </h2>
+
+      {!hasActiveLock && (
+        <div className="space-y-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-offBlack mb-2 font-sf-pro">ELTA to lock</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0.0"
+              className="w-full px-4 py-3 border-2 border-gray2 rounded-xl bg-white focus:border-elataGreen focus:ring-2 focus:ring-elataGreen/20 transition-all duration-200 font-sf-pro"
+            />
+          </div>
+
+          <DaysSlider label="Lock duration" days={days} minDays={minDays} maxDays={maxDays} onChange={setDays} />
+
+          <Projection result={lockQuote} />
+        </div>
+      )}
+
+      <div className={hasActiveLock ? '' : 'pt-6 border-t border-cream2'}>
+        <h3 className="font-montserrat font-medium text-offBlack mb-1">
+          {hasActiveLock ? 'Extending your lock' : 'Extending it later'}
+        </h3>
+        <p className="text-xs text-gray3 font-sf-pro mb-4">
+          veELTA already minted keeps its boost. Extending mints the difference between the boost for the new
+          and the remaining duration on your locked ELTA; an expired lock counts as the minimum boost.
+        </p>
+
+        <div className="space-y-4">
+          <DaysSlider
+            label="Extend after"
+            days={extendAfterDays}
+            minDays={0}
+            maxDays={maxDays}
+            onChange={setExtendAfterDays}
+          />
+          <DaysSlider
+            label="New duration from then"
+            days={extendToDays}
+            minDays={1}
+            maxDays={maxDays}
+            onChange={setExtendToDays}
+          />
+
+          {base ? (
+            <Projection result={extendQuote} isExtension />
+          ) : (
+            <p className="text-xs text-gray3 font-sf-pro">Enter an amount to project an extension.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function DaysSlider({
+  label,
+  days,
+  minDays,
+  maxDays,
+  onChange,
+}: {
+  label: string;
+  days: number;
+  minDays: number;
+  maxDays: number;
+  onChange: (days: number) => void;
+}) {
+  return (
+    <div>
+      <div className="flex justify-between text-sm font-sf-pro mb-2">
+        <span className="font-medium text-offBlack">{label}</span>
+        <span className="text-gray3">{days} days</span>
+      </div>
+      <input
+        type="range"
+        min={minDays}
+        max={maxDays}
+        value={days}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full accent-elataGreen"
+      />
+    </div>
+  );
+}
+
+function Projection({
+  result,
+  isExtension = false,
+}: {
+  result: { quote?: VeQuote; error?: string };
+  isExtension?: boolean;
+}) {
+  if (result.error) {
+    return <p className="text-xs text-accentRed font-sf-pro">{result.error}</p>;
+  }
+  if (!result.quote) return null;
+
+  const { quote } = result;
+  return (
+    <div className="grid grid-cols-3 gap-3 text-sm font-sf-pro">
+      <div className="bg-gray1/20 rounded-lg p-3">
+        <p className="text-xs text-gray3">Boost</p>
+        <p className="font-medium text-offBlack">{formatBoost(quote.boost)}</p>
+      </div>
+      <div className="bg-gray1/20 rounded-lg p-3">
+        <p className="text-xs text-gray3">{isExtension ? 'veELTA minted' : 'veELTA'}</p>
+        <p className="font-medium text-offBlack">
+          {isExtension ? `+${formatAmount(quote.veDelta)}` : formatAmount(quote.veBalance)}
+        </p>
+      </div>
+      <div className="bg-elataGreen/10 rounded-lg p-3">
+        <p className="text-xs text-gray3">Voting power after</p>
+        <p className="font-medium text-elataGreen">{formatAmount(quote.veBalance)}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,348 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { formatEther, parseEther } from 'viem';
+import { decodeElataError, erc20Calls, veEltaCalls, type LockParameters } from '@elata/sdk';
+import { useBatchedCalls } from '../hooks/useBatchedCalls';
+import { useELTA } from '../hooks/useELTA';
+import { useVeELTA } from '../hooks/useVeELTA';
+import { SimulationNotice } from './SimulationNotice';
+
+interface VeLockPanelProps {
+  params: LockParameters;
+  className?: string;
+}
+
+const DAY = 86400n;
+
+// Preset durations in days, clipped to the contract's bounds
+const DURATION_PRESETS = [30, 90, 180, 365, 730];
+
+const formatAmount = (value: bigint) =>
+  parseFloat(formatEther(value)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const formatDate = (seconds: bigint) => new Date(Number(seconds) * 1000).toLocaleString();
+
+const formatRemaining = (seconds: bigint) => {
+  const days = seconds / DAY;
+  const hours = (seconds % DAY) / 3600n;
+  return days > 0n ? `${days}d ${hours}h` : `${hours}h ${(seconds % 3600n) / 60n}m`;
+};
+
+const parseAmount = (value: string) => {
+  try {
+    return value ? parseEther(value) : 0n;
+  } catch {
+    return 0n;
+  }
+};
+
+const nowSeconds = () => BigInt(Math.floor(Date.now() / 1000));
+
+/**
+ * The connected account's single veELTA lock: create it, add ELTA, push the
+ * unlock date out, or withdraw once it has expired.
+ */
+export function VeLockPanel({ params, className = '' }: VeLockPanelProps) {
+  // lock() requires unlockTime > now + MIN_LOCK, so the shortest pickable lock is one day longer
+  const minDays = Number(params.minLock / DAY) + 1;
+  const maxDays = Number(params.maxLock / DAY);
+
+  const {
+    veEltaAddress,
+    useLockDetails,
+    useCanUnlock,
+    useSimulateLock,
+    useSimulateIncreaseAmount,
+    useSimulateExtendLock,
+    useSimulateUnlock,
+    lock,
+    isLocking,
+    lockTx,
+    lockError,
+    increaseAmount,
+    isIncreasingAmount,
+    increaseAmountTx,
+    increaseAmountError,
+    extendLock,
+    isExtendingLock,
+    extendLockTx,
+    extendLockError,
+    unlock,
+    isUnlocking,
+    unlockTx,
+    unlockError,
+  } = useVeELTA();
+  const { data: details, refetch: refetchDetails } = useLockDetails();
+  const { data: unlockStatus, refetch: refetchCanUnlock } = useCanUnlock();
+
+  const { eltaAddress, useBalance, useAllowance, approve, isApproving, approveTx, approveError } = useELTA();
+  const { data: eltaBalance, refetch: refetchBalance } = useBalance();
+  const { data: allowance, refetch: refetchAllowance } = useAllowance(veEltaAddress);
+  const { supportsBatch, sendBatch, isSendingBatch, batchTx, batchError } = useBatchedCalls();
+
+  const [amount, setAmount] = useState('');
+  const [days, setDays] = useState(() => Math.min(Math.max(365, minDays), maxDays));
+
+  const hasLock = !!details && details.principal > 0n;
+  const isExpired = hasLock && details.isExpired;
+
+  const amountWei = parseAmount(amount);
+  // Fixed per choice so the simulations are not re-keyed on every render
+  const unlockTime = useMemo(() => nowSeconds() + BigInt(days) * DAY, [days]);
+  const needsApproval = amountWei > 0n && allowance !== undefined && allowance < amountWei;
+  const hasInsufficientBalance = eltaBalance !== undefined && amountWei > eltaBalance;
+  const canExtend = hasLock && unlockTime > details.unlockTime;
+
+  // Pre-flight whichever action the form would send next
+  const lockSimulation = useSimulateLock(amountWei, unlockTime, !hasLock && !needsApproval && !hasInsufficientBalance);
+  const increaseSimulation = useSimulateIncreaseAmount(
+    amountWei,
+    hasLock && !isExpired && !needsApproval && !hasInsufficientBalance
+  );
+  const extendSimulation = useSimulateExtendLock(unlockTime, canExtend);
+  const unlockSimulation = useSimulateUnlock(!!unlockStatus?.unlockable);
+
+  const refresh = () => {
+    refetchDetails();
+    refetchCanUnlock();
+    refetchBalance();
+    refetchAllowance();
+  };
+
+  useEffect(() => {
+    if (approveTx.isSuccess) refetchAllowance();
+  }, [approveTx.isSuccess]);
+
+  const isBatchConfirmed = batchTx.data?.status === 'success';
+
+  useEffect(() => {
+    if (lockTx.isSuccess || increaseAmountTx.isSuccess || isBatchConfirmed) {
+      setAmount('');
+      refresh();
+    }
+  }, [lockTx.isSuccess, increaseAmountTx.isSuccess, isBatchConfirmed]);
+
+  useEffect(() => {
+    if (extendLockTx.isSuccess || unlockTx.isSuccess) refresh();
+  }, [extendLockTx.isSuccess, unlockTx.isSuccess]);
+
+  const handleDeposit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!veEltaAddress || amountWei === 0n) return;
+
+    const deposit = hasLock
+      ? veEltaCalls(veEltaAddress).increaseAmount(amountWei)
+      : veEltaCalls(veEltaAddress).lock(amountWei, unlockTime);
+
+    if (needsApproval && supportsBatch && eltaAddress) {
+      sendBatch(
+        [erc20Calls(eltaAddress).approve(veEltaAddress, amountWei), deposit],
+        hasLock ? 'Approve & add ELTA to lock' : 'Approve & lock ELTA'
+      );
+    } else if (needsApproval) {
+      approve(veEltaAddress, amountWei);
+    } else if (hasLock) {
+      increaseAmount(amountWei);
+    } else {
+      lock(amountWei, unlockTime);
+    }
+  };
+
+  const isBatchPending = isSendingBatch || (batchTx.fetchStatus === 'fetching' && !isBatchConfirmed);
+  const isDepositing =
+    isApproving || approveTx.isLoading || isLocking || lockTx.isLoading ||
+    isIncreasingAmount || increaseAmountTx.isLoading || isBatchPending;
+  const depositSimulation = hasLock ? increaseSimulation : lockSimulation;
+  const txError =
+    approveError || lockError || increaseAmountError || extendLockError || unlockError || batchError ||
+    lockTx.error || increaseAmountTx.error || extendLockTx.error || unlockTx.error;
+
+  const depositLabel = isApproving || approveTx.isLoading
+    ? 'Approving...'
+    : isDepositing
+      ? hasLock ? 'Adding...' : 'Locking...'
+      : needsApproval
+        ? supportsBatch ? `Approve & ${hasLock ? 'Add to Lock' : 'Lock'}` : 'Approve ELTA'
+        : hasLock ? 'Add to Lock' : 'Lock ELTA';
+
+  return (
+    <div className={`bg-white rounded-2xl p-8 shadow-lg ${className}`}>
+      <h2 className="font-montserrat font-semibold text-xl text-offBlack mb-6">
+        {hasLock ? 'Your Lock' : 'Lock ELTA'}
+      </h2>
+
+      {/* Current lock */}
+      {hasLock && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6 text-sm font-sf-pro">
+          <div className="bg-gray1/20 rounded-lg p-3">
+            <p className="text-xs text-gray3">Locked</p>
+            <p className="font-medium text-offBlack">{formatAmount(details.principal)} ELTA</p>
+          </div>
+          <div className="bg-gray1/20 rounded-lg p-3">
+            <p className="text-xs text-gray3">Voting power</p>
+            <p className="font-medium text-offBlack">{formatAmount(details.veBalance)} veELTA</p>
+          </div>
+          <div className="bg-gray1/20 rounded-lg p-3">
+            <p className="text-xs text-gray3">Unlocks</p>
+            <p className="font-medium text-offBlack">{formatDate(details.unlockTime)}</p>
+          </div>
+          <div className="bg-gray1/20 rounded-lg p-3">
+            <p className="text-xs text-gray3">Status</p>
+            <p className={`font-medium ${isExpired ? 'text-success' : 'text-offBlack'}`}>
+              {isExpired
+                ? 'Expired'
+                : unlockStatus
+                  ? `${formatRemaining(unlockStatus.timeRemaining)} left`
+                  : '…'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Lock / increase amount */}
+      {!isExpired && (
+        <form onSubmit={handleDeposit} className="space-y-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-offBlack mb-2 font-sf-pro">
+              {hasLock ? 'Add ELTA' : 'Amount to lock'}
+            </label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0.0"
+              className="w-full px-4 py-3 border-2 border-gray2 rounded-xl bg-white focus:border-elataGreen focus:ring-2 focus:ring-elataGreen/20 transition-all duration-200 font-sf-pro"
+            />
+            <div className="flex justify-between text-xs mt-1 font-sf-pro">
+              <span className={hasInsufficientBalance ? 'text-accentRed' : 'text-gray3'}>
+                Available: {eltaBalance !== undefined ? formatAmount(eltaBalance) : '0'} ELTA
+              </span>
+              {eltaBalance !== undefined && eltaBalance > 0n && (
+                <button
+                  type="button"
+                  onClick={() => setAmount(formatEther(eltaBalance))}
+                  className="text-gray3 hover:text-elataGreen transition-colors"
+                >
+                  Max
+                </button>
+              )}
+            </div>
+          </div>
+
+          {!hasLock && (
+            <DurationPicker days={days} minDays={minDays} maxDays={maxDays} onChange={setDays} />
+          )}
+
+          {amountWei > 0n && (
+            <SimulationNotice simulation={depositSimulation}>
+              <p>
+                Simulation passed:{' '}
+                {hasLock
+                  ? `your lock grows to ${formatAmount(details.principal + amountWei)} ELTA.`
+                  : `${formatAmount(amountWei)} ELTA locked until ${formatDate(unlockTime)}.`}
+              </p>
+            </SimulationNotice>
+          )}
+
+          <button
+            type="submit"
+            disabled={amountWei === 0n || hasInsufficientBalance || !!depositSimulation.revert || isDepositing}
+            className="w-full inline-flex items-center justify-center px-10 py-4 rounded-none shadow-lg font-sf-pro font-medium text-base transition-all duration-300 hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
+            style={{ backgroundColor: '#171717', color: '#FDFDFD' }}
+          >
+            {depositLabel}
+          </button>
+        </form>
+      )}
+
+      {/* Extend */}
+      {hasLock && (
+        <div className="space-y-4 mb-6 pt-6 border-t border-cream2">
+          <h3 className="font-montserrat font-medium text-offBlack">Extend lock</h3>
+          <DurationPicker days={days} minDays={1} maxDays={maxDays} onChange={setDays} />
+          <p className="text-xs text-gray3 font-sf-pro">
+            New unlock date: {formatDate(unlockTime)}
+            {!canExtend && ' (must be later than the current unlock date)'}
+          </p>
+          {canExtend && <SimulationNotice simulation={extendSimulation} />}
+          <button
+            onClick={() => extendLock(unlockTime)}
+            disabled={!canExtend || !!extendSimulation.revert || isExtendingLock || extendLockTx.isLoading}
+            className="w-full bg-elataGreen text-white py-3 px-4 rounded-lg font-medium hover:bg-elataGreen/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExtendingLock || extendLockTx.isLoading ? 'Extending...' : 'Extend Lock'}
+          </button>
+        </div>
+      )}
+
+      {/* Unlock */}
+      {hasLock && (
+        <div className="pt-6 border-t border-cream2">
+          <p className="text-sm text-gray3 font-sf-pro mb-3">
+            {unlockStatus?.unlockable
+              ? `Your lock has expired. Unlocking returns ${formatAmount(details.principal)} ELTA and burns your veELTA.`
+              : 'You can withdraw your ELTA once the lock expires. There is no early exit.'}
+          </p>
+          {unlockStatus?.unlockable && <SimulationNotice simulation={unlockSimulation} className="mb-3" />}
+          <button
+            onClick={unlock}
+            disabled={!unlockStatus?.unlockable || !!unlockSimulation.revert || isUnlocking || unlockTx.isLoading}
+            className="w-full bg-cream2 text-offBlack py-3 px-4 rounded-lg font-medium hover:bg-cream1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isUnlocking || unlockTx.isLoading ? 'Unlocking...' : 'Unlock ELTA'}
+          </button>
+        </div>
+      )}
+
+      {txError && (
+        <p className="mt-4 text-accentRed text-xs font-sf-pro break-words">{decodeElataError(txError).message}</p>
+      )}
+    </div>
+  );
+}
+
+function DurationPicker({
+  days,
+  minDays,
+  maxDays,
+  onChange,
+}: {
+  days: number;
+  minDays: number;
+  maxDays: number;
+  onChange: (days: number) => void;
+}) {
+  const presets = DURATION_PRESETS.filter((preset) => preset >= minDays && preset <= maxDays);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-offBlack mb-2 font-sf-pro">
+        Lock duration (days from now)
+      </label>
+      <div className="flex flex-wrap gap-2 mb-2">
+        {presets.map((preset) => (
+          <button
+            key={preset}
+            type="button"
+            onClick={() => onChange(preset)}
+            className={`px-3 py-1 text-xs rounded-md font-medium transition-colors ${
+              days === preset ? 'bg-elataGreen text-white' : 'bg-cream2 text-offBlack hover:bg-cream1'
+            }`}
+          >
+            {preset}d
+          </button>
+        ))}
+      </div>
+      <input
+        type="number"
+        min={minDays}
+        max={maxDays}
+        value={days}
+        onChange={(e) => onChange(Math.min(Math.max(Number(e.target.value) || minDays, minDays), maxDays))}
+        className="w-full px-4 py-3 border-2 border-gray2 rounded-xl bg-white focus:border-elataGreen focus:ring-2 focus:ring-elataGreen/20 transition-all duration-200 font-sf-pro"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useEffect } from 'react';
+import { formatEther } from 'viem';
+import { useAccount } from 'wagmi';
+import { chunkClaimRange, decodeElataError, rewardsDistributorCalls } from '@elata/sdk';
+import { useBatchedCalls } from '../hooks/useBatchedCalls';
+import { useRewardsDistributor } from '../hooks/useRewardsDistributor';
+import { getExplorerTxUrl } from '../lib/transactions';
+import { SimulationNotice } from './SimulationNotice';
+
+interface VeRewardsPanelProps {
+  className?: string;
+}
+
+const formatAmount = (value: bigint) =>
+  parseFloat(formatEther(value)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const formatEpochs = (fromEpoch: bigint, toEpoch: bigint) =>
+  toEpoch - fromEpoch === 1n ? `epoch ${fromEpoch}` : `epochs ${fromEpoch}–${toEpoch - 1n}`;
+
+/**
+ * The connected account's share of the veELTA epochs in RewardsDistributor:
+ * pending ELTA, the unclaimed epoch range and past claims. Ranges longer
+ * than claimVe's 100-epoch cap are claimed chunk by chunk, or in one batch
+ * when the wallet supports it.
+ */
+export function VeRewardsPanel({ className = '' }: VeRewardsPanelProps) {
+  const { chain } = useAccount();
+  const {
+    distributorAddress,
+    useUnclaimedRange,
+    usePendingRewards,
+    useClaimHistory,
+    useSimulateClaimVe,
+    claimVe,
+    isClaimingVe,
+    claimVeTx,
+    claimVeError,
+  } = useRewardsDistributor();
+  const { data: range, refetch: refetchRange } = useUnclaimedRange();
+  const { data: pending, refetch: refetchPending } = usePendingRewards();
+  const { data: claims, isLoading: isLoadingClaims } = useClaimHistory();
+  const { supportsBatch, sendBatch, isSendingBatch, batchTx, batchError } = useBatchedCalls();
+
+  // Always claim from lastClaimed onwards: claimVe moves the cursor to the
+  // end of whatever range it is given, so chunks must go in order
+  const chunks = range ? chunkClaimRange(range) : [];
+  const nextChunk = chunks[0];
+  const claimSimulation = useSimulateClaimVe(nextChunk?.fromEpoch ?? 0n, nextChunk?.toEpoch ?? 0n, !!nextChunk);
+
+  const isBatchConfirmed = batchTx.data?.status === 'success';
+
+  useEffect(() => {
+    if (claimVeTx.isSuccess || isBatchConfirmed) {
+      refetchRange();
+      refetchPending();
+    }
+  }, [claimVeTx.isSuccess, isBatchConfirmed]);
+
+  // The cursor moved, so the simulated range is stale
+  useEffect(() => {
+    if (nextChunk) claimSimulation.refetch();
+  }, [nextChunk?.fromEpoch]);
+
+  const handleClaimAll = () => {
+    if (!distributorAddress) return;
+    const distributor = rewardsDistributorCalls(distributorAddress);
+    sendBatch(
+      chunks.map((chunk) => distributor.claimVe(chunk.fromEpoch, chunk.toEpoch)),
+      `Claim veELTA rewards (${chunks.length} chunks)`
+    );
+  };
+
+  const isBatchPending = isSendingBatch || (batchTx.fetchStatus === 'fetching' && !isBatchConfirmed);
+  const isClaiming = isClaimingVe || claimVeTx.isLoading || isBatchPending;
+  const txError = claimVeError || claimVeTx.error || batchError;
+
+  return (
+    <div className={`bg-white rounded-2xl p-8 shadow-lg ${className}`}>
+      <h2 className="font-montserrat font-semibold text-xl text-offBlack mb-6">veELTA Rewards</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6 text-sm font-sf-pro">
+        <div className="bg-elataGreen/10 rounded-lg p-3">
+          <p className="text-xs text-gray3">
+            {chunks.length > 1 ? 'Pending in the next chunk' : 'Pending rewards'}
+          </p>
+          <p className="font-medium text-elataGreen">
+            {pending !== undefined ? `${formatAmount(pending)} ELTA` : '…'}
+          </p>
+        </div>
+        <div className="bg-gray1/20 rounded-lg p-3">
+          <p className="text-xs text-gray3">Unclaimed</p>
+          <p className="font-medium text-offBlack">
+            {!range
+              ? '…'
+              : chunks.length === 0
+                ? 'All epochs claimed'
+                : `${formatEpochs(range.fromEpoch, range.toEpoch)}${
+                    chunks.length > 1 ? ` (${chunks.length} claims of up to 100 epochs)` : ''
+                  }`}
+          </p>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray3 font-sf-pro mb-4">
+        15% of protocol revenue is shared each epoch pro rata to veELTA held at the epoch&apos;s snapshot block.
+        Estimates may differ from the claimed amount by rounding.
+      </p>
+
+      {nextChunk && (
+        <div className="space-y-3">
+          <SimulationNotice simulation={claimSimulation} />
+          <button
+            onClick={() => claimVe(nextChunk.fromEpoch, nextChunk.toEpoch)}
+            disabled={!!claimSimulation.revert || isClaiming}
+            className="w-full bg-elataGreen text-white py-3 px-4 rounded-lg font-medium hover:bg-elataGreen/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isClaimingVe || claimVeTx.isLoading
+              ? 'Claiming...'
+              : chunks.length > 1
+                ? `Claim ${formatEpochs(nextChunk.fromEpoch, nextChunk.toEpoch)}`
+                : 'Claim Rewards'}
+          </button>
+          {chunks.length > 1 && supportsBatch && (
+            <button
+              onClick={handleClaimAll}
+              disabled={!!claimSimulation.revert || isClaiming}
+              className="w-full bg-cream2 text-offBlack py-3 px-4 rounded-lg font-medium hover:bg-cream1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isBatchPending ? 'Claiming...' : `Claim all ${chunks.length} chunks in one batch`}
+            </button>
+          )}
+        </div>
+      )}
+
+      {txError && (
+        <p className="mt-4 text-accentRed text-xs font-sf-pro break-words">{decodeElataError(txError).message}</p>
+      )}
+
+      {/* Claim history */}
+      <div className="mt-6 pt-6 border-t border-cream2">
+        <h3 className="font-montserrat font-medium text-offBlack mb-3">Claim history</h3>
+        {isLoadingClaims ? (
+          <p className="text-xs text-gray3 font-sf-pro">Loading claims…</p>
+        ) : !claims?.length ? (
+          <p className="text-xs text-gray3 font-sf-pro">No claims yet.</p>
+        ) : (
+          <ul className="divide-y divide-cream2 text-sm font-sf-pro">
+            {claims.map((claim) => {
+              const href = getExplorerTxUrl(chain, claim.transactionHash);
+              return (
+                <li key={`${claim.transactionHash}-${claim.fromEpoch}`} className="flex items-center justify-between py-2">
+                  <div>
+                    <p className="font-medium text-offBlack">{formatAmount(claim.amount)} ELTA</p>
+                    <p className="text-xs text-gray3">
+                      {claim.toEpoch > claim.fromEpoch ? formatEpochs(claim.fromEpoch, claim.toEpoch) : 'No epochs'} ·{' '}
+                      {new Date(claim.timestamp * 1000).toLocaleString()}
+                    </p>
+                  </div>
+                  {href && (
+                    <a href={href} target="_blank" rel="noopener noreferrer" className="text-xs text-gray3 hover:text-elataGreen">
+                      View ↗
+                    </a>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { formatEther } from 'viem';
+import type { XPPoint } from '../types';
+
+interface XPHistoryChartProps {
+  points: XPPoint[];
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 12, right: 16, bottom: 24, left: 64 };
+
+const formatTime = (seconds: number) =>
+  new Date(seconds * 1000).toLocaleString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatXP = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+/**
+ * Checkpointed XP over time as a step line: XP only changes at awards and
+ * revokes, which are always among the sampled blocks.
+ */
+export function XPHistoryChart({ points, height = 200 }: XPHistoryChartProps) {
+  if (points.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-sm text-gray3 font-sf-pro" style={{ height }}>
+        No XP history yet
+      </div>
+    );
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const values = points.map((point) => Number(formatEther(point.xp)));
+  const max = Math.max(...values, 1);
+
+  const start = points[0].time;
+  const end = Math.max(points[points.length - 1].time, start + 1);
+  const x = (time: number) => PADDING.left + ((time - start) / (end - start)) * plotWidth;
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+
+  const path = points
+    .map((point, i) => (i === 0 ? `M ${x(point.time)} ${y(values[i])}` : `H ${x(point.time)} V ${y(values[i])}`))
+    .join(' ');
+  const area = `${path} H ${x(end)} V ${PADDING.top + plotHeight} H ${x(start)} Z`;
+  const latest = points[points.length - 1];
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" style={{ height }}>
+      {[0, 0.25, 0.5, 0.75, 1].map((fraction) => {
+        const lineY = PADDING.top + plotHeight - fraction * plotHeight;
+        return (
+          <g key={fraction}>
+            <line
+              x1={PADDING.left}
+              x2={PADDING.left + plotWidth}
+              y1={lineY}
+              y2={lineY}
+              className="stroke-cream2"
+              strokeDasharray="4 4"
+            />
+            <text x={PADDING.left - 6} y={lineY + 4} textAnchor="end" className="fill-gray3 text-[10px]">
+              {formatXP(max * fraction)}
+            </text>
+          </g>
+        );
+      })}
+
+      <path d={area} className="fill-elataGreen" opacity={0.12} />
+      <path d={path} className="stroke-elataGreen" fill="none" strokeWidth={2} />
+      <circle cx={x(latest.time)} cy={y(values[values.length - 1])} r={3} className="fill-elataGreen">
+        <title>{`${formatTime(latest.time)} (block ${latest.blockNumber})\n${formatEther(latest.xp)} XP`}</title>
+      </circle>
+
+      <text x={PADDING.left} y={height - 6} className="fill-gray3 text-[10px]">
+        {formatTime(start)}
+      </text>
+      <text x={PADDING.left + plotWidth} y={height - 6} textAnchor="end" className="fill-gray3 text-[10px]">
+        {formatTime(end)}
+      </text>
+    </svg>
+  );
+}
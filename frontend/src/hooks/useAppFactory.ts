@@ -1,77 +1,256 @@
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { useChainId } from 'wagmi';
-import { AppFactoryABI } from '../abi/AppFactory';
-import { getContractAddress } from '../lib/wagmi';
-import type { App, LaunchStats } from '../types';
+import {
+  usePublicClient,
+  useReadContract,
+  useReadContracts,
+  useWatchContractEvent,
+} from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { zeroAddress } from 'viem';
+import {
+  AppFactoryABI,
+  TOKEN_METADATA_FIELDS,
+  appFactoryCalls,
+  appFactoryViewsCalls,
+  appTokenCalls,
+  bondingCurveCalls,
+  toCurveState,
+  toLaunchParameters,
+} from '@elata/sdk';
+import { useContractAddress } from './useContractAddress';
+import { toAppWithMetadata } from '../lib/apps';
+import { connectIndexer, toAppCreated, toAppGraduated } from '../lib/indexer';
+import { getLogsInPages } from '../lib/logs';
+import type { AppWithMetadata, IndexedApp } from '../types';
+import { useSimulation } from './useSimulation';
+import { useTransaction } from './useTransaction';
 
 export function useAppFactory() {
-  const chainId = useChainId();
-  
-  const appFactoryAddress = getContractAddress(chainId, 'AppFactory');
+  // Undefined when the current chain has no deployment; reads stay disabled
+  const { address: appFactoryAddress } = useContractAddress('AppFactory');
+  const factory = appFactoryCalls(appFactoryAddress ?? zeroAddress);
+
+  // getCreatorApps / getLaunchStats live on the AppFactoryViews helper, not AppFactory
+  const { address: appFactoryViewsAddress } = useContractAddress('AppFactoryViews');
+  const views = appFactoryViewsCalls(appFactoryViewsAddress ?? zeroAddress);
 
   // Read functions
   const useAppCount = () => useReadContract({
-    address: appFactoryAddress as `0x${string}`,
-    abi: AppFactoryABI,
-    functionName: 'appCount',
+    ...factory.appCount(),
+    query: {
+      enabled: !!appFactoryAddress,
+    },
   });
 
   const useApp = (appId: number) => useReadContract({
-    address: appFactoryAddress as `0x${string}`,
-    abi: AppFactoryABI,
-    functionName: 'getApp',
-    args: [BigInt(appId)],
+    ...factory.getApp(BigInt(appId)),
     query: {
-      enabled: appId >= 0,
+      enabled: !!appFactoryAddress && appId >= 0,
     },
   });
 
   const useCreatorApps = (creator: `0x${string}` | undefined) => useReadContract({
-    address: appFactoryAddress as `0x${string}`,
-    abi: AppFactoryABI,
-    functionName: 'getCreatorApps',
-    args: creator ? [creator] : undefined,
+    ...views.getCreatorApps(creator as `0x${string}`),
     query: {
-      enabled: !!creator,
+      enabled: !!creator && !!appFactoryViewsAddress,
     },
   });
 
+  // Batched multicall reads: getApp for each ID, then token metadata and curve state
+  const useAppsWithMetadata = (appIds: readonly bigint[] | undefined) => {
+    const ids = appIds ?? [];
+
+    const appsQuery = useReadContracts({
+      contracts: ids.map((appId) => factory.getApp(appId)),
+      query: {
+        enabled: !!appFactoryAddress && ids.length > 0,
+      },
+    });
+
+    const loaded = (appsQuery.data ?? []).flatMap((result, i) =>
+      result.status === 'success' ? [{ id: Number(ids[i]), app: result.result }] : []
+    );
+
+    const tokenQuery = useReadContracts({
+      contracts: loaded.flatMap(({ app }) => {
+        const token = appTokenCalls(app.token);
+        return TOKEN_METADATA_FIELDS.map((field) => token[field]());
+      }),
+      query: {
+        enabled: loaded.length > 0,
+      },
+    });
+
+    const curveQuery = useReadContracts({
+      contracts: loaded.map(({ app }) => bondingCurveCalls(app.curve).getCurveState()),
+      query: {
+        enabled: loaded.length > 0,
+      },
+    });
+
+    const apps: AppWithMetadata[] = [];
+    if (tokenQuery.data && curveQuery.data) {
+      loaded.forEach(({ id, app }, i) => {
+        const fields = tokenQuery.data
+          .slice(i * TOKEN_METADATA_FIELDS.length, (i + 1) * TOKEN_METADATA_FIELDS.length)
+          .map((result) => (result.status === 'success' ? result.result : ''));
+        const [name, symbol, description, imageURI, website] = fields;
+        const curve = curveQuery.data[i];
+
+        apps.push(
+          toAppWithMetadata(
+            id,
+            app,
+            { name, symbol, description, imageURI, website },
+            curve?.status === 'success' ? toCurveState(curve.result) : undefined
+          )
+        );
+      });
+    }
+
+    return {
+      apps,
+      isLoading: appsQuery.isLoading || tokenQuery.isLoading || curveQuery.isLoading,
+      error: appsQuery.error || tokenQuery.error || curveQuery.error,
+      refetch: () => {
+        appsQuery.refetch();
+        tokenQuery.refetch();
+        curveQuery.refetch();
+      },
+    };
+  };
+
+  // AppCreated carries what the App struct does not: the creator's initial stake.
+  // Served by the indexer when it has the app; otherwise scanned from the blocks it has not reached
+  const publicClient = usePublicClient();
+  const useAppCreated = (appId: number) => useQuery({
+    queryKey: ['appCreated', publicClient?.chain.id, appFactoryAddress, appId],
+    queryFn: async () => {
+      const client = publicClient!;
+      const indexer = await connectIndexer(client.chain.id, appFactoryAddress!);
+      const indexed = await indexer?.get<IndexedApp>(`/apps/${appId}`);
+      if (indexed) return toAppCreated(indexed);
+
+      const [log] = await getLogsInPages(
+        client.chain.id,
+        await client.getBlockNumber(),
+        (range) =>
+          client.getContractEvents({
+            address: appFactoryAddress!,
+            abi: AppFactoryABI,
+            eventName: 'AppCreated',
+            args: { appId: BigInt(appId) },
+            ...range,
+            strict: true,
+          }),
+        indexer && indexer.lastBlock + 1n
+      );
+      if (!log) return null;
+      return { ...log.args, blockNumber: log.blockNumber, transactionHash: log.transactionHash };
+    },
+    enabled: !!publicClient && !!appFactoryAddress && appId >= 0,
+  });
+
+  // AppGraduated carries the LP unlock time, which the App struct does not store
+  const useAppGraduated = (appId: number) => {
+    const query = useQuery({
+      queryKey: ['appGraduated', publicClient?.chain.id, appFactoryAddress, appId],
+      queryFn: async () => {
+        const client = publicClient!;
+        const indexer = await connectIndexer(client.chain.id, appFactoryAddress!);
+        const indexed = await indexer?.get<IndexedApp>(`/apps/${appId}`);
+        if (indexed?.graduation) return toAppGraduated(indexed, indexed.graduation);
+
+        const [log] = await getLogsInPages(
+          client.chain.id,
+          await client.getBlockNumber(),
+          (range) =>
+            client.getContractEvents({
+              address: appFactoryAddress!,
+              abi: AppFactoryABI,
+              eventName: 'AppGraduated',
+              args: { appId: BigInt(appId) },
+              ...range,
+              strict: true,
+            }),
+          indexer && indexer.lastBlock + 1n
+        );
+        if (!log) return null;
+        return { ...log.args, blockNumber: log.blockNumber, transactionHash: log.transactionHash };
+      },
+      enabled: !!publicClient && !!appFactoryAddress && appId >= 0,
+    });
+
+    useWatchContractEvent({
+      address: appFactoryAddress,
+      abi: AppFactoryABI,
+      eventName: 'AppGraduated',
+      args: { appId: BigInt(Math.max(appId, 0)) },
+      enabled: !!appFactoryAddress && appId >= 0,
+      onLogs: () => query.refetch(),
+    });
+
+    return query;
+  };
+
   const useLaunchStats = () => useReadContract({
-    address: appFactoryAddress as `0x${string}`,
-    abi: AppFactoryABI,
-    functionName: 'getLaunchStats',
+    ...views.getLaunchStats(),
+    query: {
+      enabled: !!appFactoryViewsAddress,
+    },
+  });
+
+  // seedElta + creationFee as the factory will charge them
+  const useTotalCreationCost = () => useReadContract({
+    ...views.getTotalCreationCost(),
+    query: {
+      enabled: !!appFactoryViewsAddress,
+    },
+  });
+
+  const useLaunchParameters = () => useReadContract({
+    ...views.getParameters(),
+    query: {
+      enabled: !!appFactoryViewsAddress,
+      select: toLaunchParameters,
+    },
   });
 
   const useSeedElta = () => useReadContract({
-    address: appFactoryAddress as `0x${string}`,
-    abi: AppFactoryABI,
-    functionName: 'seedElta',
+    ...factory.seedElta(),
+    query: {
+      enabled: !!appFactoryAddress,
+    },
   });
 
   const useTargetRaisedElta = () => useReadContract({
-    address: appFactoryAddress as `0x${string}`,
-    abi: AppFactoryABI,
-    functionName: 'targetRaisedElta',
+    ...factory.targetRaisedElta(),
+    query: {
+      enabled: !!appFactoryAddress,
+    },
   });
 
   const useCreationFee = () => useReadContract({
-    address: appFactoryAddress as `0x${string}`,
-    abi: AppFactoryABI,
-    functionName: 'creationFee',
+    ...factory.creationFee(),
+    query: {
+      enabled: !!appFactoryAddress,
+    },
   });
 
   const useDefaultSupply = () => useReadContract({
-    address: appFactoryAddress as `0x${string}`,
-    abi: AppFactoryABI,
-    functionName: 'defaultSupply',
+    ...factory.defaultSupply(),
+    query: {
+      enabled: !!appFactoryAddress,
+    },
   });
 
+  // Pre-flight simulation (createApp returns the new appId)
+  const useSimulateCreateApp = (
+    args: Parameters<typeof factory.createApp>,
+    enabled = true
+  ) => useSimulation(factory.createApp(...args), !!appFactoryAddress && enabled);
+
   // Write functions
-  const { writeContract: createApp, data: createAppHash, error: createAppError, isPending: isCreatingApp } = useWriteContract();
-  
-  const createAppTx = useWaitForTransactionReceipt({
-    hash: createAppHash,
-  });
+  const { write: createApp, hash: createAppHash, error: createAppError, isPending: isCreatingApp, tx: createAppTx } = useTransaction('Launch app');
 
   const handleCreateApp = (
     name: string,
@@ -81,27 +260,32 @@ export function useAppFactory() {
     imageURI: string,
     website: string
   ) => {
-    createApp({
-      address: appFactoryAddress as `0x${string}`,
-      abi: AppFactoryABI,
-      functionName: 'createApp',
-      args: [name, symbol, supply, description, imageURI, website],
-    });
+    if (!appFactoryAddress) return;
+    createApp(factory.createApp(name, symbol, supply, description, imageURI, website));
   };
 
   return {
-    // Contract address
+    // Contract addresses
     appFactoryAddress,
+    appFactoryViewsAddress,
     
     // Read hooks
     useAppCount,
     useApp,
     useCreatorApps,
+    useAppsWithMetadata,
+    useAppCreated,
+    useAppGraduated,
     useLaunchStats,
+    useTotalCreationCost,
+    useLaunchParameters,
     useSeedElta,
     useTargetRaisedElta,
     useCreationFee,
     useDefaultSupply,
+
+    // Simulations
+    useSimulateCreateApp,
     
     // Write functions
     createApp: handleCreateApp,
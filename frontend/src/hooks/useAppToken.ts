@@ -0,0 +1,57 @@
+import { useReadContract } from 'wagmi';
+import { zeroAddress } from 'viem';
+import { appTokenCalls } from '@elata/sdk';
+import { useSimulation } from './useSimulation';
+import { useTransaction } from './useTransaction';
+
+export function useAppToken(tokenAddress: `0x${string}` | undefined) {
+  const token = appTokenCalls(tokenAddress ?? zeroAddress);
+
+  // Read functions
+  const useTokenInfo = () => {
+    const decimals = useReadContract({ ...token.decimals(), query: { enabled: !!tokenAddress } });
+
+    const totalSupply = useReadContract({ ...token.totalSupply(), query: { enabled: !!tokenAddress } });
+
+    const maxSupply = useReadContract({ ...token.maxSupply(), query: { enabled: !!tokenAddress } });
+
+    return {
+      decimals: decimals.data,
+      totalSupply: totalSupply.data,
+      maxSupply: maxSupply.data,
+      isLoading: decimals.isLoading || totalSupply.isLoading || maxSupply.isLoading,
+      error: decimals.error || totalSupply.error || maxSupply.error,
+      refetch: () => {
+        totalSupply.refetch();
+      },
+    };
+  };
+
+  // Pre-flight simulation
+  const useSimulateUpdateMetadata = (description: string, imageURI: string, website: string, enabled = true) =>
+    useSimulation(token.updateMetadata(description, imageURI, website), !!tokenAddress && enabled);
+
+  // Write functions
+  const { write: updateMetadata, hash: updateMetadataHash, error: updateMetadataError, isPending: isUpdatingMetadata, tx: updateMetadataTx } = useTransaction('Update app metadata');
+
+  const handleUpdateMetadata = (description: string, imageURI: string, website: string) => {
+    if (!tokenAddress) return;
+
+    updateMetadata(token.updateMetadata(description, imageURI, website));
+  };
+
+  return {
+    // Read hooks
+    useTokenInfo,
+
+    // Simulations
+    useSimulateUpdateMetadata,
+
+    // Write functions
+    updateMetadata: handleUpdateMetadata,
+    updateMetadataHash,
+    updateMetadataError,
+    isUpdatingMetadata,
+    updateMetadataTx,
+  };
+}
@@ -0,0 +1,68 @@
+import { useEffect, useRef } from 'react';
+import { useAccount, useCapabilities, useSendCalls, useWaitForCallsStatus } from 'wagmi';
+import { encodeFunctionData } from 'viem';
+import type { ElataWriteCall } from '@elata/sdk';
+import { useTransactionManager } from '../components/TransactionProvider';
+
+const toCall = ({ address, abi, functionName, args }: ElataWriteCall) => ({
+  to: address,
+  data: encodeFunctionData({ abi, functionName, args }),
+});
+
+/**
+ * EIP-5792 wallet_sendCalls for approve + action in one confirmation.
+ *
+ * None of the protocol's spenders (AppFactory, AppBondingCurve,
+ * AppFeeRouter, VeELTA, AppStakingVault) accept an EIP-2612 signature, so
+ * a permit cannot replace the approve tx on its own. When the wallet can
+ * execute a batch atomically the approvals and the action go out together;
+ * otherwise callers fall back to approve() followed by the action.
+ */
+export function useBatchedCalls() {
+  const { address, chainId } = useAccount();
+  const { track } = useTransactionManager();
+
+  const { data: capabilities } = useCapabilities({
+    query: {
+      enabled: !!address && !!chainId,
+      retry: false,
+    },
+  });
+  const atomic = chainId !== undefined ? capabilities?.[chainId]?.atomic?.status : undefined;
+  const supportsBatch = atomic === 'supported' || atomic === 'ready';
+
+  const { sendCalls, data: batch, error: batchError, isPending: isSendingBatch, reset } = useSendCalls();
+
+  const batchTx = useWaitForCallsStatus({
+    id: batch?.id,
+    query: {
+      enabled: !!batch?.id,
+    },
+  });
+
+  // The bundle only has a tx hash once mined; record it in the history then
+  const label = useRef('');
+  const receiptHash = batchTx.data?.receipts?.[0]?.transactionHash;
+  useEffect(() => {
+    if (receiptHash) track(receiptHash, label.current);
+  }, [receiptHash]);
+
+  const handleSendBatch = (calls: readonly ElataWriteCall[], description: string) => {
+    if (!supportsBatch || calls.length === 0) return;
+
+    label.current = description;
+    sendCalls({ calls: calls.map(toCall), forceAtomic: true });
+  };
+
+  return {
+    supportsBatch,
+
+    sendBatch: handleSendBatch,
+    batchId: batch?.id,
+    batchError,
+    isSendingBatch,
+    // status 'success' once every call in the bundle is mined; receipts carry the logs
+    batchTx,
+    resetBatch: reset,
+  };
+}
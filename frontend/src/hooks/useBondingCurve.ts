@@ -1,124 +1,245 @@
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { AppBondingCurveABI } from '../abi/AppBondingCurve';
-import type { CurveState } from '../types';
+import {
+  usePublicClient,
+  useReadContract,
+  useWatchContractEvent,
+} from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { zeroAddress } from 'viem';
+import { AppBondingCurveABI, bondingCurveCalls, feeRouterCalls, type CurveFees } from '@elata/sdk';
+import { connectIndexer, toCurveTrade } from '../lib/indexer';
+import { getBlockTimestamps, getLogsInPages } from '../lib/logs';
+import type { CurveHistory, IndexedApp, IndexedTrade } from '../types';
+import { useContractAddress } from './useContractAddress';
+import { useSimulation } from './useSimulation';
+import { useTransaction } from './useTransaction';
 
 export function useBondingCurve(curveAddress: `0x${string}` | undefined) {
+  const curve = bondingCurveCalls(curveAddress as `0x${string}`);
+  // The indexer is keyed by factory, so history lookups need its address
+  const { address: appFactoryAddress } = useContractAddress('AppFactory');
+
   // Read functions
   const useCurveState = () => useReadContract({
-    address: curveAddress,
-    abi: AppBondingCurveABI,
-    functionName: 'getCurveState',
+    ...curve.getCurveState(),
     query: {
       enabled: !!curveAddress,
     },
   });
 
   const useTokensOut = (eltaIn: bigint) => useReadContract({
-    address: curveAddress,
-    abi: AppBondingCurveABI,
-    functionName: 'getTokensOut',
-    args: [eltaIn],
+    ...curve.getTokensOut(eltaIn),
     query: {
       enabled: !!curveAddress && eltaIn > 0n,
     },
   });
 
   const useEltaInForTokens = (tokensDesired: bigint) => useReadContract({
-    address: curveAddress,
-    abi: AppBondingCurveABI,
-    functionName: 'getEltaInForTokens',
-    args: [tokensDesired],
+    ...curve.getEltaInForTokens(tokensDesired),
     query: {
       enabled: !!curveAddress && tokensDesired > 0n,
     },
   });
 
   const useCurrentPrice = () => useReadContract({
-    address: curveAddress,
-    abi: AppBondingCurveABI,
-    functionName: 'getCurrentPrice',
+    ...curve.getCurrentPrice(),
     query: {
       enabled: !!curveAddress,
     },
   });
 
   const useReserveElta = () => useReadContract({
-    address: curveAddress,
-    abi: AppBondingCurveABI,
-    functionName: 'reserveElta',
+    ...curve.reserveElta(),
     query: {
       enabled: !!curveAddress,
     },
   });
 
   const useReserveToken = () => useReadContract({
-    address: curveAddress,
-    abi: AppBondingCurveABI,
-    functionName: 'reserveToken',
+    ...curve.reserveToken(),
     query: {
       enabled: !!curveAddress,
     },
   });
 
   const useTargetRaised = () => useReadContract({
-    address: curveAddress,
-    abi: AppBondingCurveABI,
-    functionName: 'targetRaisedElta',
+    ...curve.targetRaisedElta(),
     query: {
       enabled: !!curveAddress,
     },
   });
 
   const useGraduated = () => useReadContract({
-    address: curveAddress,
-    abi: AppBondingCurveABI,
-    functionName: 'graduated',
+    ...curve.graduated(),
     query: {
       enabled: !!curveAddress,
     },
   });
 
   const usePair = () => useReadContract({
-    address: curveAddress,
-    abi: AppBondingCurveABI,
-    functionName: 'pair',
+    ...curve.pair(),
     query: {
       enabled: !!curveAddress,
     },
   });
 
+  // Protocol fee rate plus the fee router's feeBps, as consumed by quoteBuy()
+  const useCurveFees = () => {
+    const protocolFeeRate = useReadContract({
+      ...curve.protocolFeeRate(),
+      query: {
+        enabled: !!curveAddress,
+      },
+    });
+
+    const feeRouter = useReadContract({
+      ...curve.appFeeRouter(),
+      query: {
+        enabled: !!curveAddress,
+      },
+    });
+
+    const hasFeeRouter = !!feeRouter.data && feeRouter.data !== zeroAddress;
+    const feeBps = useReadContract({
+      ...feeRouterCalls(feeRouter.data ?? zeroAddress).feeBps(),
+      query: {
+        enabled: hasFeeRouter,
+      },
+    });
+
+    const fees: CurveFees | undefined =
+      protocolFeeRate.data !== undefined && feeRouter.data !== undefined && (!hasFeeRouter || feeBps.data !== undefined)
+        ? { protocolFeeRate: protocolFeeRate.data, feeBps: hasFeeRouter ? feeBps.data! : 0n }
+        : undefined;
+
+    return {
+      fees,
+      feeRouter: hasFeeRouter ? feeRouter.data : undefined,
+      isLoading: protocolFeeRate.isLoading || feeRouter.isLoading || feeBps.isLoading,
+      error: protocolFeeRate.error || feeRouter.error || feeBps.error,
+    };
+  };
+
+  // CurveInitialized + every TokensPurchased, refetched whenever a new buy lands.
+  // Events up to the indexer's last block come from the indexer; later ones are scanned
+  const publicClient = usePublicClient();
+  const useCurveHistory = () => {
+    const query = useQuery({
+      queryKey: ['curveHistory', publicClient?.chain.id, appFactoryAddress, curveAddress],
+      queryFn: async (): Promise<CurveHistory> => {
+        const client = publicClient!;
+        const latest = await client.getBlockNumber();
+
+        const indexer = appFactoryAddress ? await connectIndexer(client.chain.id, appFactoryAddress) : undefined;
+        const indexed = await indexer?.get<IndexedApp>(`/curves/${curveAddress}`);
+        const indexedTrades = indexed ? (await indexer!.get<IndexedTrade[]>(`/apps/${indexed.appId}/trades`)) ?? [] : [];
+        // The store may have moved past lastBlock since /status; those events are scanned instead
+        const covered = (blockNumber: number) => !!indexer && BigInt(blockNumber) <= indexer.lastBlock;
+        const indexedInit = indexed?.curveState && covered(indexed.curveState.initializedAt.blockNumber)
+          ? indexed.curveState
+          : undefined;
+        const fromBlock = indexer && indexer.lastBlock + 1n;
+
+        const [initLogs, tradeLogs] = await Promise.all([
+          indexedInit
+            ? []
+            : getLogsInPages(
+                client.chain.id,
+                latest,
+                (range) =>
+                  client.getContractEvents({
+                    address: curveAddress!,
+                    abi: AppBondingCurveABI,
+                    eventName: 'CurveInitialized',
+                    ...range,
+                    strict: true,
+                  }),
+                fromBlock
+              ),
+          getLogsInPages(
+            client.chain.id,
+            latest,
+            (range) =>
+              client.getContractEvents({
+                address: curveAddress!,
+                abi: AppBondingCurveABI,
+                eventName: 'TokensPurchased',
+                ...range,
+                strict: true,
+              }),
+            fromBlock
+          ),
+        ]);
+
+        // Timestamps for the scanned blocks; indexed events carry theirs
+        const timestamps = await getBlockTimestamps(
+          client,
+          [...initLogs, ...tradeLogs].map((log) => log.blockNumber)
+        );
+
+        const init = indexedInit
+          ? {
+              seedElta: BigInt(indexedInit.seedElta),
+              tokenSupply: BigInt(indexedInit.tokenSupply),
+              timestamp: indexedInit.initializedAt.timestamp,
+            }
+          : initLogs[0] && { ...initLogs[0].args, timestamp: timestamps.get(initLogs[0].blockNumber) };
+        return {
+          initialPrice: init ? (init.seedElta * 10n ** 18n) / init.tokenSupply : undefined,
+          initialReserveElta: init?.seedElta,
+          initializedAt: init?.timestamp,
+          trades: [
+            ...indexedTrades.filter((trade) => covered(trade.event.blockNumber)).map(toCurveTrade),
+            ...tradeLogs.map((log) => ({
+              buyer: log.args.buyer,
+              eltaIn: log.args.eltaIn,
+              tokensOut: log.args.tokensOut,
+              reserveElta: log.args.newReserveElta,
+              reserveToken: log.args.newReserveToken,
+              price: log.args.newPrice,
+              timestamp: timestamps.get(log.blockNumber)!,
+              blockNumber: log.blockNumber,
+              logIndex: log.logIndex,
+              transactionHash: log.transactionHash,
+            })),
+          ],
+        };
+      },
+      enabled: !!publicClient && !!curveAddress,
+    });
+
+    useWatchContractEvent({
+      address: curveAddress,
+      abi: AppBondingCurveABI,
+      eventName: 'TokensPurchased',
+      enabled: !!curveAddress,
+      onLogs: () => query.refetch(),
+    });
+
+    return query;
+  };
+
+  // Pre-flight simulations (buy returns tokensOut)
+  const useSimulateBuy = (eltaIn: bigint, minTokensOut: bigint, enabled = true) =>
+    useSimulation(curve.buy(eltaIn, minTokensOut), !!curveAddress && eltaIn > 0n && enabled);
+
+  const useSimulateGraduate = (enabled = true) =>
+    useSimulation(curve.graduate(), !!curveAddress && enabled);
+
   // Write functions
-  const { writeContract: buyTokens, data: buyHash, error: buyError, isPending: isBuying } = useWriteContract();
-  
-  const buyTx = useWaitForTransactionReceipt({
-    hash: buyHash,
-  });
+  const { write: buyTokens, hash: buyHash, error: buyError, isPending: isBuying, tx: buyTx } = useTransaction('Buy app tokens');
 
   const handleBuy = (eltaIn: bigint, minTokensOut: bigint) => {
     if (!curveAddress) return;
     
-    buyTokens({
-      address: curveAddress,
-      abi: AppBondingCurveABI,
-      functionName: 'buy',
-      args: [eltaIn, minTokensOut],
-    });
+    buyTokens(curve.buy(eltaIn, minTokensOut));
   };
 
-  const { writeContract: graduate, data: graduateHash, error: graduateError, isPending: isGraduating } = useWriteContract();
-  
-  const graduateTx = useWaitForTransactionReceipt({
-    hash: graduateHash,
-  });
+  const { write: graduate, hash: graduateHash, error: graduateError, isPending: isGraduating, tx: graduateTx } = useTransaction('Graduate bonding curve');
 
   const handleGraduate = () => {
     if (!curveAddress) return;
     
-    graduate({
-      address: curveAddress,
-      abi: AppBondingCurveABI,
-      functionName: 'graduate',
-    });
+    graduate(curve.graduate());
   };
 
   return {
@@ -132,6 +253,12 @@ export function useBondingCurve(curveAddress: `0x${string}` | undefined) {
     useTargetRaised,
     useGraduated,
     usePair,
+    useCurveFees,
+    useCurveHistory,
+
+    // Simulations
+    useSimulateBuy,
+    useSimulateGraduate,
     
     // Write functions
     buy: handleBuy,
@@ -0,0 +1,15 @@
+import { useAccount, useChainId } from 'wagmi';
+import { resolveContract } from '../lib/wagmi';
+import type { ContractName } from '../config/contracts';
+
+/**
+ * Resolve a protocol contract on the chain the wallet is connected to
+ * (or the default config chain when disconnected). `address` is only set
+ * when the contract is deployed there; hooks gate their reads on it.
+ */
+export function useContractAddress(contract: ContractName) {
+  const { chainId: walletChainId } = useAccount();
+  const configChainId = useChainId();
+
+  return resolveContract(walletChainId ?? configChainId, contract);
+}
@@ -1,59 +1,40 @@
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { useChainId, useAccount } from 'wagmi';
-import { ERC20ABI } from '../abi/ERC20';
-import { getContractAddress } from '../lib/wagmi';
+import { useReadContract } from 'wagmi';
+import { useAccount } from 'wagmi';
+import { zeroAddress } from 'viem';
+import { erc20Calls } from '@elata/sdk';
+import { useContractAddress } from './useContractAddress';
+import { useTransaction } from './useTransaction';
 
 export function useELTA() {
-  const chainId = useChainId();
   const { address } = useAccount();
   
-  const eltaAddress = getContractAddress(chainId, 'ELTA');
+  // Undefined when the current chain has no deployment; reads stay disabled
+  const { address: eltaAddress } = useContractAddress('ELTA');
+  const elta = erc20Calls(eltaAddress ?? zeroAddress);
 
   // Read functions
   const useBalance = (account?: `0x${string}`) => useReadContract({
-    address: eltaAddress as `0x${string}`,
-    abi: ERC20ABI,
-    functionName: 'balanceOf',
-    args: account ? [account] : address ? [address] : undefined,
+    ...elta.balanceOf((account ?? address) as `0x${string}`),
     query: {
-      enabled: !!(account || address),
+      enabled: !!eltaAddress && !!(account || address),
     },
   });
 
-  const useAllowance = (spender: `0x${string}`) => useReadContract({
-    address: eltaAddress as `0x${string}`,
-    abi: ERC20ABI,
-    functionName: 'allowance',
-    args: address && spender ? [address, spender] : undefined,
+  const useAllowance = (spender: `0x${string}` | undefined) => useReadContract({
+    ...elta.allowance(address as `0x${string}`, spender ?? zeroAddress),
     query: {
-      enabled: !!(address && spender),
+      enabled: !!(eltaAddress && address && spender),
     },
   });
 
   const useTokenInfo = () => {
-    const name = useReadContract({
-      address: eltaAddress as `0x${string}`,
-      abi: ERC20ABI,
-      functionName: 'name',
-    });
+    const name = useReadContract({ ...elta.name(), query: { enabled: !!eltaAddress } });
 
-    const symbol = useReadContract({
-      address: eltaAddress as `0x${string}`,
-      abi: ERC20ABI,
-      functionName: 'symbol',
-    });
+    const symbol = useReadContract({ ...elta.symbol(), query: { enabled: !!eltaAddress } });
 
-    const decimals = useReadContract({
-      address: eltaAddress as `0x${string}`,
-      abi: ERC20ABI,
-      functionName: 'decimals',
-    });
+    const decimals = useReadContract({ ...elta.decimals(), query: { enabled: !!eltaAddress } });
 
-    const totalSupply = useReadContract({
-      address: eltaAddress as `0x${string}`,
-      abi: ERC20ABI,
-      functionName: 'totalSupply',
-    });
+    const totalSupply = useReadContract({ ...elta.totalSupply(), query: { enabled: !!eltaAddress } });
 
     return {
       name: name.data,
@@ -66,34 +47,18 @@ export function useELTA() {
   };
 
   // Write functions
-  const { writeContract: approve, data: approveHash, error: approveError, isPending: isApproving } = useWriteContract();
-  
-  const approveTx = useWaitForTransactionReceipt({
-    hash: approveHash,
-  });
+  const { write: approve, hash: approveHash, error: approveError, isPending: isApproving, tx: approveTx } = useTransaction('Approve ELTA');
 
   const handleApprove = (spender: `0x${string}`, amount: bigint) => {
-    approve({
-      address: eltaAddress as `0x${string}`,
-      abi: ERC20ABI,
-      functionName: 'approve',
-      args: [spender, amount],
-    });
+    if (!eltaAddress) return;
+    approve(elta.approve(spender, amount));
   };
 
-  const { writeContract: transfer, data: transferHash, error: transferError, isPending: isTransferring } = useWriteContract();
-  
-  const transferTx = useWaitForTransactionReceipt({
-    hash: transferHash,
-  });
+  const { write: transfer, hash: transferHash, error: transferError, isPending: isTransferring, tx: transferTx } = useTransaction('Transfer ELTA');
 
   const handleTransfer = (to: `0x${string}`, amount: bigint) => {
-    transfer({
-      address: eltaAddress as `0x${string}`,
-      abi: ERC20ABI,
-      functionName: 'transfer',
-      args: [to, amount],
-    });
+    if (!eltaAddress) return;
+    transfer(elta.transfer(to, amount));
   };
 
   return {
@@ -0,0 +1,216 @@
+import { useAccount, usePublicClient, useReadContract, useWatchContractEvent } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { decodeFunctionData, zeroAddress, type Address } from 'viem';
+import { ElataXPABI, elataXpCalls } from '@elata/sdk';
+import { getBlockTimestamps, getLogsInPages, mapInBatches } from '../lib/logs';
+import { sampleBlocks } from '../lib/xpHistory';
+import type { XPActivity, XPPoint } from '../types';
+import { useContractAddress } from './useContractAddress';
+import { useSimulation } from './useSimulation';
+import { useTransaction } from './useTransaction';
+
+export function useElataXP() {
+  const { address } = useAccount();
+
+  // Undefined when the current chain has no deployment; reads stay disabled
+  const { address: xpAddress } = useContractAddress('ElataXP');
+  const xp = elataXpCalls(xpAddress ?? zeroAddress);
+
+  // Read functions
+  const useBalance = (account?: `0x${string}`) => useReadContract({
+    ...xp.balanceOf((account ?? address) as `0x${string}`),
+    query: {
+      enabled: !!xpAddress && !!(account || address),
+    },
+  });
+
+  // Checkpointed XP, which is what getPastXP and governance read
+  const useVotes = (account?: `0x${string}`) => useReadContract({
+    ...xp.getVotes((account ?? address) as `0x${string}`),
+    query: {
+      enabled: !!xpAddress && !!(account || address),
+    },
+  });
+
+  const useDelegate = (account?: `0x${string}`) => useReadContract({
+    ...xp.delegates((account ?? address) as `0x${string}`),
+    query: {
+      enabled: !!xpAddress && !!(account || address),
+    },
+  });
+
+  const useTotalSupply = () => useReadContract({
+    ...xp.totalSupply(),
+    query: {
+      enabled: !!xpAddress,
+    },
+  });
+
+  // XPAwarded / XPRevoked for the account, newest first, with the call that
+  // caused each one; refetched when new XP events land
+  const publicClient = usePublicClient();
+  const useActivity = (account?: `0x${string}`) => {
+    const user = account ?? address;
+    const query = useQuery({
+      queryKey: ['xpActivity', publicClient?.chain.id, xpAddress, user],
+      queryFn: async (): Promise<XPActivity[]> => {
+        const client = publicClient!;
+        const latest = await client.getBlockNumber();
+        const [awarded, revoked] = await Promise.all([
+          getLogsInPages(client.chain.id, latest, (range) =>
+            client.getContractEvents({
+              address: xpAddress!,
+              abi: ElataXPABI,
+              eventName: 'XPAwarded',
+              args: { user },
+              ...range,
+              strict: true,
+            })
+          ),
+          getLogsInPages(client.chain.id, latest, (range) =>
+            client.getContractEvents({
+              address: xpAddress!,
+              abi: ElataXPABI,
+              eventName: 'XPRevoked',
+              args: { user },
+              ...range,
+              strict: true,
+            })
+          ),
+        ]);
+        const logs = [...awarded, ...revoked];
+
+        // One getBlock per distinct block and one getTransaction per distinct tx
+        const timestamps = await getBlockTimestamps(client, logs.map((log) => log.blockNumber));
+        const hashes = [...new Set(logs.map((log) => log.transactionHash))];
+        const transactions = await mapInBatches(hashes, (hash) => client.getTransaction({ hash }));
+
+        const origins = new Map(
+          transactions.map((tx) => {
+            let origin: Pick<XPActivity, 'source' | 'operator'> = {};
+            if (tx.to?.toLowerCase() === xpAddress!.toLowerCase()) {
+              try {
+                const call = decodeFunctionData({ abi: ElataXPABI, data: tx.input });
+                if (call.functionName === 'updateBySig') {
+                  origin = { source: 'updateBySig', operator: call.args[0] };
+                } else if (call.functionName === 'award' || call.functionName === 'revoke') {
+                  origin = { source: call.functionName, operator: tx.from };
+                }
+              } catch {
+                // Not an ElataXP function we know; leave the origin unknown
+              }
+            }
+            return [tx.hash, origin];
+          })
+        );
+
+        return logs
+          .map((log): XPActivity => ({
+            type: log.eventName === 'XPAwarded' ? 'awarded' : 'revoked',
+            amount: log.args.amount,
+            ...origins.get(log.transactionHash),
+            timestamp: timestamps.get(log.blockNumber)!,
+            blockNumber: log.blockNumber,
+            logIndex: log.logIndex,
+            transactionHash: log.transactionHash,
+          }))
+          .sort((a, b) =>
+            a.blockNumber === b.blockNumber ? b.logIndex - a.logIndex : a.blockNumber > b.blockNumber ? -1 : 1
+          );
+      },
+      enabled: !!publicClient && !!xpAddress && !!user,
+    });
+
+    useWatchContractEvent({
+      address: xpAddress,
+      abi: ElataXPABI,
+      eventName: 'XPAwarded',
+      args: { user },
+      enabled: !!xpAddress && !!user,
+      onLogs: () => query.refetch(),
+    });
+    useWatchContractEvent({
+      address: xpAddress,
+      abi: ElataXPABI,
+      eventName: 'XPRevoked',
+      args: { user },
+      enabled: !!xpAddress && !!user,
+      onLogs: () => query.refetch(),
+    });
+
+    return query;
+  };
+
+  // getPastXP sampled from just before the first XP event up to the last
+  // mined block (timepoints must be in the past)
+  const useHistory = (activity: readonly XPActivity[] | undefined, account?: `0x${string}`) => {
+    const user = account ?? address;
+    const changeBlocks = activity?.map((event) => event.blockNumber) ?? [];
+    const firstBlock = changeBlocks.reduce<bigint | undefined>(
+      (min, block) => (min === undefined || block < min ? block : min),
+      undefined
+    );
+
+    return useQuery({
+      queryKey: ['xpHistory', publicClient?.chain.id, xpAddress, user, changeBlocks.map(String)],
+      queryFn: async (): Promise<XPPoint[]> => {
+        const client = publicClient!;
+        const latest = await client.getBlockNumber();
+        if (latest === 0n) return [];
+
+        const fromBlock = firstBlock! > 0n ? firstBlock! - 1n : 0n;
+        const blocks = sampleBlocks(fromBlock, latest - 1n, changeBlocks);
+
+        const [values, timestamps] = await Promise.all([
+          client.multicall({
+            contracts: blocks.map((blockNumber) => xp.getPastXP(user as Address, blockNumber)),
+            allowFailure: false,
+          }),
+          getBlockTimestamps(client, blocks),
+        ]);
+
+        return blocks.map((blockNumber, i) => ({
+          blockNumber,
+          time: timestamps.get(blockNumber)!,
+          xp: values[i],
+        }));
+      },
+      enabled: !!publicClient && !!xpAddress && !!user && firstBlock !== undefined,
+    });
+  };
+
+  // Pre-flight simulation
+  const useSimulateDelegate = (delegatee: `0x${string}` | undefined, enabled = true) =>
+    useSimulation(delegatee ? xp.delegate(delegatee) : undefined, !!xpAddress && enabled);
+
+  // Write functions
+  const { write: delegate, hash: delegateHash, error: delegateError, isPending: isDelegating, tx: delegateTx } = useTransaction('Delegate XP');
+
+  const handleDelegate = (delegatee: `0x${string}`) => {
+    if (!xpAddress) return;
+    delegate(xp.delegate(delegatee));
+  };
+
+  return {
+    // Contract address
+    xpAddress,
+
+    // Read hooks
+    useBalance,
+    useVotes,
+    useDelegate,
+    useTotalSupply,
+    useActivity,
+    useHistory,
+
+    // Simulations
+    useSimulateDelegate,
+
+    // Write functions
+    delegate: handleDelegate,
+    delegateHash,
+    delegateError,
+    isDelegating,
+    delegateTx,
+  };
+}
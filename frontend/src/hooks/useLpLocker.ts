@@ -0,0 +1,115 @@
+import {
+  usePublicClient,
+  useReadContracts,
+  useWatchContractEvent,
+} from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { LpLockerABI, lpLockerCalls } from '@elata/sdk';
+import { getLogsInPages } from '../lib/logs';
+import type { LpLockerEvent, LpLockerState } from '../types';
+import { useSimulation } from './useSimulation';
+import { useTransaction } from './useTransaction';
+
+export function useLpLocker(lockerAddress: `0x${string}` | undefined) {
+  const locker = lpLockerCalls(lockerAddress as `0x${string}`);
+
+  // Read functions
+  const useLockerState = () => {
+    const result = useReadContracts({
+      contracts: [
+        locker.getLockedBalance(),
+        locker.beneficiary(),
+        locker.unlockAt(),
+        locker.timeUntilUnlock(),
+        locker.canClaim(),
+        locker.claimed(),
+      ],
+      allowFailure: false,
+      query: {
+        enabled: !!lockerAddress,
+      },
+    });
+
+    let state: LpLockerState | undefined;
+    if (result.data) {
+      const [lockedBalance, beneficiary, unlockAt, timeUntilUnlock, canClaim, claimed] = result.data;
+      state = { lockedBalance, beneficiary, unlockAt, timeUntilUnlock, canClaim, claimed };
+    }
+
+    return {
+      data: state,
+      isLoading: result.isLoading,
+      error: result.error,
+      refetch: result.refetch,
+    };
+  };
+
+  // LpLocked / LpClaimed history, oldest first; refetched when a claim lands
+  const publicClient = usePublicClient();
+  const useLockerEvents = () => {
+    const query = useQuery({
+      queryKey: ['lpLockerEvents', publicClient?.chain.id, lockerAddress],
+      queryFn: async (): Promise<LpLockerEvent[]> => {
+        const client = publicClient!;
+        const logs = await getLogsInPages(client.chain.id, await client.getBlockNumber(), (range) =>
+          client.getContractEvents({
+            address: lockerAddress!,
+            abi: LpLockerABI,
+            ...range,
+            strict: true,
+          })
+        );
+
+        return logs.flatMap((log): LpLockerEvent[] => {
+          const common = { blockNumber: log.blockNumber, transactionHash: log.transactionHash };
+          if (log.eventName === 'LpLocked') {
+            return [{ type: 'locked', beneficiary: log.args.beneficiary, amount: log.args.amount, ...common }];
+          }
+          if (log.eventName === 'LpClaimed') {
+            return [{ type: 'claimed', beneficiary: log.args.beneficiary, amount: log.args.amount, ...common }];
+          }
+          return [];
+        });
+      },
+      enabled: !!publicClient && !!lockerAddress,
+    });
+
+    useWatchContractEvent({
+      address: lockerAddress,
+      abi: LpLockerABI,
+      eventName: 'LpClaimed',
+      enabled: !!lockerAddress,
+      onLogs: () => query.refetch(),
+    });
+
+    return query;
+  };
+
+  // Pre-flight simulation
+  const useSimulateClaim = (enabled = true) => useSimulation(locker.claim(), !!lockerAddress && enabled);
+
+  // Write functions
+  const { write: claim, hash: claimHash, error: claimError, isPending: isClaiming, tx: claimTx } = useTransaction('Claim LP tokens');
+
+  const handleClaim = () => {
+    if (!lockerAddress) return;
+
+    claim(locker.claim());
+  };
+
+  return {
+    // Read hooks
+    useLockerState,
+    useLockerEvents,
+
+    // Simulations
+    useSimulateClaim,
+
+    // Write functions
+    claim: handleClaim,
+    claimHash,
+    claimError,
+    isClaiming,
+    claimTx,
+  };
+}
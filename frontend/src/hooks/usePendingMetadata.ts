@@ -0,0 +1,126 @@
+import { useState, useEffect } from 'react';
+import { useAccount, useChainId, useConfig, usePublicClient } from 'wagmi';
+import { getCallsStatus } from 'wagmi/actions';
+import { useQuery } from '@tanstack/react-query';
+import { appTokenCalls, parseAppCreated } from '@elata/sdk';
+import {
+  PENDING_METADATA_EVENT,
+  isSameLaunch,
+  loadPendingMetadata,
+  removePendingMetadata,
+  savePendingMetadata,
+} from '../lib/pendingMetadata';
+import type { PendingMetadata } from '../types';
+
+export function usePendingMetadata() {
+  const { address, chainId: accountChainId } = useAccount();
+  const configChainId = useChainId();
+  const chainId = accountChainId ?? configChainId;
+  const publicClient = usePublicClient({ chainId });
+  const config = useConfig();
+
+  const [entries, setEntries] = useState<PendingMetadata[]>([]);
+
+  useEffect(() => {
+    if (!address) {
+      setEntries([]);
+      return;
+    }
+
+    const reload = () => setEntries(loadPendingMetadata(chainId, address));
+    reload();
+    window.addEventListener(PENDING_METADATA_EVENT, reload);
+    window.addEventListener('storage', reload);
+    return () => {
+      window.removeEventListener(PENDING_METADATA_EVENT, reload);
+      window.removeEventListener('storage', reload);
+    };
+  }, [address, chainId]);
+
+  const save = (entry: PendingMetadata) => {
+    if (!address) return;
+    setEntries(savePendingMetadata(chainId, address, entry));
+  };
+
+  const remove = (launch: Pick<PendingMetadata, 'createTxHash' | 'batchId'>) => {
+    if (!address) return;
+    setEntries(removePendingMetadata(chainId, address, launch));
+  };
+
+  // Reconcile stored entries with the chain: pick up the create tx of
+  // batches mined while the page was closed and the token for launches
+  // abandoned before the receipt arrived, and drop entries whose create tx
+  // reverted or whose metadata is already on-chain.
+  const { data: reconciled } = useQuery({
+    queryKey: [
+      'pendingMetadata',
+      chainId,
+      address,
+      entries.map((e) => `${e.createTxHash ?? e.batchId}:${e.token ?? ''}`),
+    ],
+    queryFn: async () => {
+      const client = publicClient!;
+      return Promise.all(
+        entries.map(async (entry): Promise<{ entry: PendingMetadata; done: boolean }> => {
+          if (!entry.createTxHash) {
+            // Only the wallet that sent the batch knows its status
+            const batch = entry.batchId
+              ? await getCallsStatus(config, { id: entry.batchId }).catch(() => undefined)
+              : undefined;
+            if (!batch || batch.status === 'pending') return { entry, done: false };
+            if (batch.status === 'failure') return { entry, done: true };
+
+            const receipt = batch.receipts?.find((r) => parseAppCreated(r.logs));
+            const created = receipt && parseAppCreated(receipt.logs);
+            if (!receipt || !created) return { entry, done: true };
+            return {
+              entry: {
+                ...entry,
+                createTxHash: receipt.transactionHash,
+                appId: created.appId.toString(),
+                token: created.token,
+              },
+              done: false,
+            };
+          }
+
+          if (!entry.token) {
+            const receipt = await client.getTransactionReceipt({ hash: entry.createTxHash }).catch(() => undefined);
+            if (!receipt) return { entry, done: false };
+            if (receipt.status === 'reverted') return { entry, done: true };
+
+            const created = parseAppCreated(receipt.logs);
+            if (!created) return { entry, done: true };
+            return { entry: { ...entry, appId: created.appId.toString(), token: created.token }, done: false };
+          }
+
+          const token = appTokenCalls(entry.token);
+          const [description, imageURI, website] = await client.multicall({
+            contracts: [token.appDescription(), token.appImageURI(), token.appWebsite()],
+            allowFailure: false,
+          });
+          const done = description === entry.description && imageURI === entry.imageURI && website === entry.website;
+          return { entry, done };
+        })
+      );
+    },
+    enabled: !!publicClient && !!address && entries.length > 0,
+  });
+
+  useEffect(() => {
+    if (!reconciled || !address) return;
+    for (const { entry, done } of reconciled) {
+      if (done) {
+        removePendingMetadata(chainId, address, entry);
+      } else if (entry.token && !entries.some((e) => isSameLaunch(e, entry) && e.token)) {
+        savePendingMetadata(chainId, address, entry);
+      }
+    }
+  }, [reconciled]);
+
+  return {
+    entries,
+    save,
+    remove,
+  };
+}
@@ -0,0 +1,175 @@
+import { useAccount, usePublicClient, useReadContract, useWatchContractEvent } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { zeroAddress } from 'viem';
+import { RewardsDistributorABI, rewardsDistributorCalls } from '@elata/sdk';
+import { getBlockTimestamps, getLogsInPages } from '../lib/logs';
+import { joinRevenueSplits } from '../lib/rewardEpochs';
+import type { RewardEpochRow, VeRewardsClaim } from '../types';
+import { useContractAddress } from './useContractAddress';
+import { useSimulation } from './useSimulation';
+import { useTransaction } from './useTransaction';
+
+export function useRewardsDistributor() {
+  const { address } = useAccount();
+
+  // Undefined when the current chain has no deployment; reads stay disabled
+  const { address: distributorAddress } = useContractAddress('RewardsDistributor');
+  const distributor = rewardsDistributorCalls(distributorAddress ?? zeroAddress);
+
+  // Read functions
+  const useEpochCount = () => useReadContract({
+    ...distributor.getEpochCount(),
+    query: {
+      enabled: !!distributorAddress,
+    },
+  });
+
+  const useUnclaimedRange = (account?: `0x${string}`) => useReadContract({
+    ...distributor.getUnclaimedRange((account ?? address) as `0x${string}`),
+    query: {
+      enabled: !!distributorAddress && !!(account || address),
+      select: ([fromEpoch, toEpoch]) => ({ fromEpoch, toEpoch }),
+    },
+  });
+
+  const useEpochsBatch = (startId: bigint, count: bigint) => useReadContract({
+    ...distributor.getEpochsBatch(startId, count),
+    query: {
+      enabled: !!distributorAddress && count > 0n,
+      select: (epochs): RewardEpochRow[] =>
+        epochs.map((epoch, i) => ({ epochId: startId + BigInt(i), blockNumber: epoch.blockNumber, amount: epoch.amount })),
+    },
+  });
+
+  // Only covers the first MAX_CLAIM_EPOCHS unclaimed epochs, like claimVe
+  const usePendingRewards = (account?: `0x${string}`) => useReadContract({
+    ...distributor.estimatePendingVeRewards((account ?? address) as `0x${string}`),
+    query: {
+      enabled: !!distributorAddress && !!(account || address),
+    },
+  });
+
+  // The account's VeRewardsClaimed history, newest first; refetched when it claims
+  const publicClient = usePublicClient();
+  const useClaimHistory = (account?: `0x${string}`) => {
+    const user = account ?? address;
+    const query = useQuery({
+      queryKey: ['veRewardsClaims', publicClient?.chain.id, distributorAddress, user],
+      queryFn: async (): Promise<VeRewardsClaim[]> => {
+        const client = publicClient!;
+        const logs = await getLogsInPages(client.chain.id, await client.getBlockNumber(), (range) =>
+          client.getContractEvents({
+            address: distributorAddress!,
+            abi: RewardsDistributorABI,
+            eventName: 'VeRewardsClaimed',
+            args: { user },
+            ...range,
+            strict: true,
+          })
+        );
+
+        const timestamps = await getBlockTimestamps(client, logs.map((log) => log.blockNumber));
+
+        return logs
+          .map((log) => ({
+            fromEpoch: log.args.fromEpoch,
+            toEpoch: log.args.toEpoch,
+            amount: log.args.amount,
+            timestamp: timestamps.get(log.blockNumber)!,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+          }))
+          .reverse();
+      },
+      enabled: !!publicClient && !!distributorAddress && !!user,
+    });
+
+    useWatchContractEvent({
+      address: distributorAddress,
+      abi: RewardsDistributorABI,
+      eventName: 'VeRewardsClaimed',
+      args: { user },
+      enabled: !!distributorAddress && !!user,
+      onLogs: () => query.refetch(),
+    });
+
+    return query;
+  };
+
+  // RevenueSplit of the deposit behind each epoch, keyed by epoch id
+  const useRevenueSplits = (epochs: readonly RewardEpochRow[] | undefined) => {
+    const epochIds = epochs?.map((epoch) => epoch.epochId) ?? [];
+    const blockNumbers = [...new Set(epochs?.map((epoch) => epoch.blockNumber))];
+
+    return useQuery({
+      queryKey: ['revenueSplits', publicClient?.chain.id, distributorAddress, epochIds.map(String)],
+      queryFn: async () => {
+        const client = publicClient!;
+        const fromBlock = blockNumbers.reduce((min, block) => (block < min ? block : min));
+        const toBlock = blockNumbers.reduce((max, block) => (block > max ? block : max));
+        const [epochLogs, splitLogs] = await Promise.all([
+          client.getContractEvents({
+            address: distributorAddress!,
+            abi: RewardsDistributorABI,
+            eventName: 'VeEpochCreated',
+            args: { epochId: epochIds },
+            fromBlock,
+            toBlock,
+            strict: true,
+          }),
+          client.getContractEvents({
+            address: distributorAddress!,
+            abi: RewardsDistributorABI,
+            eventName: 'RevenueSplit',
+            args: { blockNumber: blockNumbers },
+            fromBlock,
+            toBlock,
+            strict: true,
+          }),
+        ]);
+
+        const timestamps = await getBlockTimestamps(client, blockNumbers);
+
+        return joinRevenueSplits(epochLogs, splitLogs, timestamps);
+      },
+      enabled: !!publicClient && !!distributorAddress && epochIds.length > 0,
+      // Past epochs never change
+      staleTime: Infinity,
+    });
+  };
+
+  // Pre-flight simulation
+  const useSimulateClaimVe = (fromEpoch: bigint, toEpoch: bigint, enabled = true) =>
+    useSimulation(distributor.claimVe(fromEpoch, toEpoch), !!distributorAddress && toEpoch > fromEpoch && enabled);
+
+  // Write functions
+  const { write: claimVe, hash: claimVeHash, error: claimVeError, isPending: isClaimingVe, tx: claimVeTx } = useTransaction('Claim veELTA rewards');
+
+  const handleClaimVe = (fromEpoch: bigint, toEpoch: bigint) => {
+    if (!distributorAddress) return;
+    claimVe(distributor.claimVe(fromEpoch, toEpoch));
+  };
+
+  return {
+    // Contract address
+    distributorAddress,
+
+    // Read hooks
+    useEpochCount,
+    useEpochsBatch,
+    useRevenueSplits,
+    useUnclaimedRange,
+    usePendingRewards,
+    useClaimHistory,
+
+    // Simulations
+    useSimulateClaimVe,
+
+    // Write functions
+    claimVe: handleClaimVe,
+    claimVeHash,
+    claimVeError,
+    isClaimingVe,
+    claimVeTx,
+  };
+}
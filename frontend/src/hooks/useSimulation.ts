@@ -0,0 +1,42 @@
+import { useAccount, useSimulateContract, type Config, type UseSimulateContractParameters } from 'wagmi';
+import type { Abi, ContractFunctionArgs, ContractFunctionName } from 'viem';
+import { decodeElataError } from '@elata/sdk';
+
+type WriteFunctionName<abi extends Abi> = ContractFunctionName<abi, 'nonpayable' | 'payable'>;
+
+/**
+ * Pre-flight for a write: runs `call` through eth_call from the connected
+ * account and exposes the function's return value, or the decoded revert,
+ * before the user is asked to sign. Reruns whenever the call's arguments
+ * change; callers refetch after transactions that affect it.
+ */
+export function useSimulation<
+  const abi extends Abi,
+  functionName extends WriteFunctionName<abi>,
+  const args extends ContractFunctionArgs<abi, 'nonpayable' | 'payable', functionName>,
+>(call: UseSimulateContractParameters<abi, functionName, args, Config> | undefined, enabled = true) {
+  const { address } = useAccount();
+
+  // The call reaches wagmi unchanged, so the result is typed from its ABI
+  const simulation = useSimulateContract<abi, functionName, args, Config>(
+    Object.assign({}, call, {
+      account: address,
+      query: {
+        enabled: !!call && !!address && enabled,
+        retry: false,
+      },
+    })
+  );
+  const result = simulation.data?.result;
+
+  return {
+    result,
+    revert: simulation.error ? decodeElataError(simulation.error) : undefined,
+    // Only meaningful while enabled
+    isSimulating: simulation.isFetching,
+    isReady: !!simulation.data && !simulation.error,
+    refetch: simulation.refetch,
+  };
+}
+
+export type Simulation = Pick<ReturnType<typeof useSimulation>, 'revert' | 'isSimulating' | 'isReady'>;
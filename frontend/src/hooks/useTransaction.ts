@@ -0,0 +1,25 @@
+import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { useTransactionManager } from '../components/TransactionProvider';
+
+type WriteParameters = Parameters<ReturnType<typeof useWriteContract>['writeContract']>[0];
+
+/**
+ * useWriteContract + useWaitForTransactionReceipt, with every submitted
+ * hash registered in the transaction manager under `label`.
+ */
+export function useTransaction(label: string) {
+  const { track } = useTransactionManager();
+  const { writeContract, data: hash, error, isPending } = useWriteContract();
+
+  const tx = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const write = (parameters: WriteParameters, description = label) => {
+    writeContract(parameters, {
+      onSuccess: (submitted) => track(submitted, description),
+    });
+  };
+
+  return { write, hash, error, isPending, tx };
+}
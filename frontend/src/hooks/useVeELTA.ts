@@ -0,0 +1,156 @@
+import { useReadContract, useReadContracts } from 'wagmi';
+import { useAccount } from 'wagmi';
+import { zeroAddress } from 'viem';
+import { toLockDetails, toLockParameters, veEltaCalls } from '@elata/sdk';
+import { useContractAddress } from './useContractAddress';
+import { useSimulation } from './useSimulation';
+import { useTransaction } from './useTransaction';
+
+export function useVeELTA() {
+  const { address } = useAccount();
+
+  // Undefined when the current chain has no deployment; reads stay disabled
+  const { address: veEltaAddress } = useContractAddress('VeELTA');
+  const veElta = veEltaCalls(veEltaAddress ?? zeroAddress);
+
+  // Read functions
+  const useLockParameters = () => useReadContracts({
+    contracts: [veElta.MIN_LOCK(), veElta.MAX_LOCK(), veElta.BOOST_MIN(), veElta.BOOST_MAX()],
+    allowFailure: false,
+    query: {
+      enabled: !!veEltaAddress,
+      select: toLockParameters,
+      // Contract constants
+      staleTime: Infinity,
+    },
+  });
+
+  const useLockDetails = (account?: `0x${string}`) => useReadContract({
+    ...veElta.getLockDetails((account ?? address) as `0x${string}`),
+    query: {
+      enabled: !!veEltaAddress && !!(account || address),
+      select: toLockDetails,
+    },
+  });
+
+  const useCanUnlock = (account?: `0x${string}`) => useReadContract({
+    ...veElta.canUnlock((account ?? address) as `0x${string}`),
+    query: {
+      enabled: !!veEltaAddress && !!(account || address),
+      select: ([unlockable, timeRemaining]) => ({ unlockable, timeRemaining }),
+    },
+  });
+
+  const useTotalSupply = () => useReadContract({
+    ...veElta.totalSupply(),
+    query: {
+      enabled: !!veEltaAddress,
+    },
+  });
+
+  // veELTA supply (and the account's votes) at each snapshot block.
+  // Entries are undefined for blocks getPast* can't look up yet (the current one)
+  const useSnapshotVotes = (blockNumbers: readonly bigint[], account?: `0x${string}`) => {
+    const user = account ?? address;
+    const stride = user ? 2 : 1;
+    return useReadContracts({
+      contracts: blockNumbers.flatMap((blockNumber) =>
+        user
+          ? [veElta.getPastTotalSupply(blockNumber), veElta.getPastVotes(user, blockNumber)]
+          : [veElta.getPastTotalSupply(blockNumber)]
+      ),
+      query: {
+        enabled: !!veEltaAddress && blockNumbers.length > 0,
+        select: (results) =>
+          blockNumbers.map((_, i) => ({
+            totalVotes: results[stride * i].result,
+            userVotes: user ? results[stride * i + 1].result : undefined,
+          })),
+      },
+    });
+  };
+
+  // Pre-flight simulations
+  const useSimulateLock = (amount: bigint, unlockTime: bigint, enabled = true) =>
+    useSimulation(veElta.lock(amount, unlockTime), !!veEltaAddress && amount > 0n && enabled);
+
+  const useSimulateIncreaseAmount = (amount: bigint, enabled = true) =>
+    useSimulation(veElta.increaseAmount(amount), !!veEltaAddress && amount > 0n && enabled);
+
+  const useSimulateExtendLock = (newUnlockTime: bigint, enabled = true) =>
+    useSimulation(veElta.extendLock(newUnlockTime), !!veEltaAddress && enabled);
+
+  const useSimulateUnlock = (enabled = true) => useSimulation(veElta.unlock(), !!veEltaAddress && enabled);
+
+  // Write functions
+  const { write: lock, hash: lockHash, error: lockError, isPending: isLocking, tx: lockTx } = useTransaction('Lock ELTA');
+
+  const handleLock = (amount: bigint, unlockTime: bigint) => {
+    if (!veEltaAddress) return;
+    lock(veElta.lock(amount, unlockTime));
+  };
+
+  const { write: increaseAmount, hash: increaseAmountHash, error: increaseAmountError, isPending: isIncreasingAmount, tx: increaseAmountTx } = useTransaction('Add ELTA to lock');
+
+  const handleIncreaseAmount = (amount: bigint) => {
+    if (!veEltaAddress) return;
+    increaseAmount(veElta.increaseAmount(amount));
+  };
+
+  const { write: extendLock, hash: extendLockHash, error: extendLockError, isPending: isExtendingLock, tx: extendLockTx } = useTransaction('Extend lock');
+
+  const handleExtendLock = (newUnlockTime: bigint) => {
+    if (!veEltaAddress) return;
+    extendLock(veElta.extendLock(newUnlockTime));
+  };
+
+  const { write: unlock, hash: unlockHash, error: unlockError, isPending: isUnlocking, tx: unlockTx } = useTransaction('Unlock ELTA');
+
+  const handleUnlock = () => {
+    if (!veEltaAddress) return;
+    unlock(veElta.unlock());
+  };
+
+  return {
+    // Contract address
+    veEltaAddress,
+
+    // Read hooks
+    useLockParameters,
+    useLockDetails,
+    useCanUnlock,
+    useTotalSupply,
+    useSnapshotVotes,
+
+    // Simulations
+    useSimulateLock,
+    useSimulateIncreaseAmount,
+    useSimulateExtendLock,
+    useSimulateUnlock,
+
+    // Write functions
+    lock: handleLock,
+    lockHash,
+    lockError,
+    isLocking,
+    lockTx,
+
+    increaseAmount: handleIncreaseAmount,
+    increaseAmountHash,
+    increaseAmountError,
+    isIncreasingAmount,
+    increaseAmountTx,
+
+    extendLock: handleExtendLock,
+    extendLockHash,
+    extendLockError,
+    isExtendingLock,
+    extendLockTx,
+
+    unlock: handleUnlock,
+    unlockHash,
+    unlockError,
+    isUnlocking,
+    unlockTx,
+  };
+}
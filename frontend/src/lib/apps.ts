@@ -0,0 +1,44 @@
+import type { App, AppCardData, AppMetadata, AppWithMetadata, CurveState } from '../types';
+
+export function toAppWithMetadata(
+  id: number,
+  app: App,
+  metadata: AppMetadata,
+  curveState?: CurveState
+): AppWithMetadata {
+  return {
+    ...app,
+    id,
+    metadata,
+    curveState,
+  };
+}
+
+/**
+ * Flatten an on-chain app into the shape rendered by cards.
+ * Before graduation the raised amount lives in the curve reserves;
+ * afterwards the factory records it in `totalRaised`.
+ */
+export function toAppCardData(app: AppWithMetadata): AppCardData {
+  const curve = app.curveState;
+  const totalRaised = app.graduated ? app.totalRaised : curve?.eltaReserve ?? 0n;
+  const progress = app.graduated ? 100 : Math.min(Number(curve?.progress ?? 0n) / 100, 100);
+
+  return {
+    id: app.id,
+    name: app.metadata.name,
+    symbol: app.metadata.symbol,
+    description: app.metadata.description,
+    imageURI: app.metadata.imageURI,
+    website: app.metadata.website,
+    creator: app.creator,
+    status: app.graduated ? 'graduated' : 'active',
+    progress,
+    currentPrice: curve?.currentPrice ?? 0n,
+    totalRaised,
+    target: curve?.target ?? 0n,
+    // Contract timestamps are in seconds
+    createdAt: new Date(Number(app.createdAt) * 1000),
+    graduatedAt: app.graduated ? new Date(Number(app.graduatedAt) * 1000) : undefined,
+  };
+}
@@ -0,0 +1,73 @@
+import type { Address } from 'viem';
+import type { CurveTrade, IndexedApp, IndexedTrade, IndexerStatus } from '../types';
+
+// Event indexer API (scripts/indexer, `npm run dev:index`); unset to always scan logs
+const INDEXER_URL = process.env.NEXT_PUBLIC_INDEXER_URL;
+
+export interface IndexerReader {
+  // Records after this block may be partial; scan logs from lastBlock + 1
+  lastBlock: bigint;
+  // Undefined when the indexer has no such record (404)
+  get<T>(path: string): Promise<T | undefined>;
+}
+
+async function request<T>(path: string): Promise<T | undefined> {
+  const response = await fetch(`${INDEXER_URL}${path}`);
+  if (response.status === 404) return undefined;
+  if (!response.ok) throw new Error(`Indexer request ${path} failed (${response.status})`);
+  return response.json();
+}
+
+/**
+ * Connect to the indexer if one is configured and it indexes this chain
+ * and AppFactory. Returns undefined otherwise, or when it cannot be
+ * reached, so callers fall back to getLogsInPages from the deployment block.
+ */
+export async function connectIndexer(chainId: number, factory: Address): Promise<IndexerReader | undefined> {
+  if (!INDEXER_URL) return undefined;
+
+  const status = await request<IndexerStatus>('/status').catch(() => undefined);
+  if (!status || status.chainId !== chainId || status.factory.toLowerCase() !== factory.toLowerCase()) {
+    return undefined;
+  }
+
+  return { lastBlock: BigInt(status.lastBlock), get: request };
+}
+
+// Indexed records in the shape of the decoded event (args + block number + tx hash)
+
+export const toAppCreated = (app: IndexedApp) => ({
+  appId: BigInt(app.appId),
+  creator: app.creator,
+  token: app.token,
+  vault: app.vault,
+  curve: app.curve,
+  creatorStaked: BigInt(app.creatorStaked),
+  blockNumber: BigInt(app.createdAt.blockNumber),
+  transactionHash: app.createdAt.txHash,
+});
+
+export const toAppGraduated = (app: IndexedApp, graduation: NonNullable<IndexedApp['graduation']>) => ({
+  appId: BigInt(app.appId),
+  token: app.token,
+  pair: graduation.pair,
+  locker: graduation.locker,
+  unlockAt: BigInt(graduation.unlockAt),
+  totalRaised: BigInt(graduation.totalRaised),
+  finalSupply: BigInt(graduation.finalSupply),
+  blockNumber: BigInt(graduation.graduatedAt.blockNumber),
+  transactionHash: graduation.graduatedAt.txHash,
+});
+
+export const toCurveTrade = (trade: IndexedTrade): CurveTrade => ({
+  buyer: trade.buyer,
+  eltaIn: BigInt(trade.eltaIn),
+  tokensOut: BigInt(trade.tokensOut),
+  reserveElta: BigInt(trade.newReserveElta),
+  reserveToken: BigInt(trade.newReserveToken),
+  price: BigInt(trade.newPrice),
+  timestamp: trade.event.timestamp,
+  blockNumber: BigInt(trade.event.blockNumber),
+  logIndex: trade.event.logIndex,
+  transactionHash: trade.event.txHash,
+});
@@ -0,0 +1,82 @@
+import type { PublicClient } from 'viem';
+import { getDeployment } from '../config/contracts';
+
+// Blocks per eth_getLogs request; many RPC providers reject wider ranges
+export const LOG_PAGE_SIZE = 10_000n;
+
+export interface BlockRange {
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+/**
+ * First block worth scanning for protocol events: the manifest's startBlock,
+ * or genesis for manifests that predate it
+ */
+export function getDeploymentBlock(chainId: number): bigint {
+  const startBlock = getDeployment(chainId)?.startBlock;
+  return startBlock !== undefined ? BigInt(startBlock) : 0n;
+}
+
+/**
+ * Split [fromBlock, toBlock] into LOG_PAGE_SIZE windows, oldest first
+ */
+export function getBlockRanges(fromBlock: bigint, toBlock: bigint, pageSize = LOG_PAGE_SIZE): BlockRange[] {
+  const ranges: BlockRange[] = [];
+  for (let start = fromBlock; start <= toBlock; start += pageSize) {
+    const end = start + pageSize - 1n;
+    ranges.push({ fromBlock: start, toBlock: end < toBlock ? end : toBlock });
+  }
+  return ranges;
+}
+
+/**
+ * Run a log query page by page from the deployment block (or `fromBlock`,
+ * e.g. past what the indexer has covered) up to `toBlock` and concatenate
+ * the results in block order. Pages are fetched one at a time to stay
+ * under provider rate limits.
+ */
+export async function getLogsInPages<T>(
+  chainId: number,
+  toBlock: bigint,
+  fetchPage: (range: BlockRange) => Promise<T[]>,
+  fromBlock = getDeploymentBlock(chainId)
+): Promise<T[]> {
+  const logs: T[] = [];
+  for (const range of getBlockRanges(fromBlock, toBlock)) {
+    logs.push(...(await fetchPage(range)));
+  }
+  return logs;
+}
+
+// Requests in flight at once when fetching per-block or per-tx data
+export const RPC_CONCURRENCY = 8;
+
+/**
+ * Map `items` through `fetchOne`, `concurrency` requests at a time, keeping
+ * the input order. For per-item RPC lookups (block headers, transactions)
+ * that would otherwise all go out at once.
+ */
+export async function mapInBatches<T, R>(
+  items: readonly T[],
+  fetchOne: (item: T) => Promise<R>,
+  concurrency = RPC_CONCURRENCY
+): Promise<R[]> {
+  const results: R[] = [];
+  for (let start = 0; start < items.length; start += concurrency) {
+    results.push(...(await Promise.all(items.slice(start, start + concurrency).map(fetchOne))));
+  }
+  return results;
+}
+
+/**
+ * Unix-seconds timestamp of each distinct block, from one getBlock per
+ * block fetched in batches
+ */
+export async function getBlockTimestamps(
+  client: PublicClient,
+  blockNumbers: readonly bigint[]
+): Promise<Map<bigint, number>> {
+  const blocks = await mapInBatches([...new Set(blockNumbers)], (blockNumber) => client.getBlock({ blockNumber }));
+  return new Map(blocks.map((block) => [block.number, Number(block.timestamp)]));
+}
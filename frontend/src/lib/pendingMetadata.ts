@@ -0,0 +1,56 @@
+import type { Address } from 'viem';
+import type { PendingMetadata } from '../types';
+
+// Fired on window after every write so other mounted hooks reload
+export const PENDING_METADATA_EVENT = 'elata:pending-metadata';
+
+const storageKey = (chainId: number, account: Address) =>
+  `elata:pending-metadata:${chainId}:${account.toLowerCase()}`;
+
+/**
+ * Launches still waiting for their updateMetadata tx. createApp leaves the
+ * token's description, image and website blank, so the create wizard
+ * records what the creator entered until the follow-up tx confirms.
+ */
+export function loadPendingMetadata(chainId: number, account: Address): PendingMetadata[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(storageKey(chainId, account));
+    return raw ? (JSON.parse(raw) as PendingMetadata[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writePendingMetadata(chainId: number, account: Address, entries: PendingMetadata[]) {
+  const key = storageKey(chainId, account);
+  if (entries.length === 0) {
+    window.localStorage.removeItem(key);
+  } else {
+    window.localStorage.setItem(key, JSON.stringify(entries));
+  }
+  window.dispatchEvent(new Event(PENDING_METADATA_EVENT));
+}
+
+type LaunchRef = Pick<PendingMetadata, 'createTxHash' | 'batchId'>;
+
+// Same launch when either the create tx hash or the batch id matches
+export const isSameLaunch = (a: LaunchRef, b: LaunchRef) =>
+  (!!a.createTxHash && a.createTxHash === b.createTxHash) || (!!a.batchId && a.batchId === b.batchId);
+
+// Insert or merge by create tx hash or batch id
+export function savePendingMetadata(chainId: number, account: Address, entry: PendingMetadata): PendingMetadata[] {
+  const entries = loadPendingMetadata(chainId, account);
+  const index = entries.findIndex((e) => isSameLaunch(e, entry));
+  const next = index === -1
+    ? [...entries, entry]
+    : entries.map((e, i) => (i === index ? { ...e, ...entry } : e));
+  writePendingMetadata(chainId, account, next);
+  return next;
+}
+
+export function removePendingMetadata(chainId: number, account: Address, launch: LaunchRef): PendingMetadata[] {
+  const next = loadPendingMetadata(chainId, account).filter((e) => !isSameLaunch(e, launch));
+  writePendingMetadata(chainId, account, next);
+  return next;
+}
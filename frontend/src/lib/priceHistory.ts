@@ -0,0 +1,90 @@
+import type { Candle, CurveHistory, ReservePoint } from '../types';
+
+export const CHART_INTERVALS = [
+  { label: '1m', seconds: 60 },
+  { label: '5m', seconds: 5 * 60 },
+  { label: '15m', seconds: 15 * 60 },
+  { label: '1h', seconds: 60 * 60 },
+  { label: '4h', seconds: 4 * 60 * 60 },
+  { label: '1d', seconds: 24 * 60 * 60 },
+] as const;
+
+// Most candles rendered at once; older buckets are dropped
+export const MAX_CANDLES = 120;
+
+/**
+ * Bucket trades into OHLC candles. Each candle opens at the previous close
+ * (the curve price before its first trade) and empty intervals between
+ * trades are filled with flat candles so the time axis stays linear.
+ */
+export function toCandles(history: CurveHistory, intervalSeconds: number, maxCandles = MAX_CANDLES): Candle[] {
+  const buckets = new Map<number, Candle>();
+  let previous = history.initialPrice ?? history.trades[0]?.price ?? 0n;
+
+  for (const trade of history.trades) {
+    const time = Math.floor(trade.timestamp / intervalSeconds) * intervalSeconds;
+    const candle = buckets.get(time) ?? {
+      time,
+      open: previous,
+      high: previous,
+      low: previous,
+      close: previous,
+      volume: 0n,
+      trades: 0,
+    };
+
+    if (trade.price > candle.high) candle.high = trade.price;
+    if (trade.price < candle.low) candle.low = trade.price;
+    candle.close = trade.price;
+    candle.volume += trade.eltaIn;
+    candle.trades += 1;
+    buckets.set(time, candle);
+
+    previous = trade.price;
+  }
+
+  const times = [...buckets.keys()];
+  if (times.length === 0) return [];
+
+  const last = times[times.length - 1];
+  const start = Math.max(times[0], last - (maxCandles - 1) * intervalSeconds);
+
+  // Price going into the window: close of the last bucket before it
+  let close = buckets.get(times[0])!.open;
+  for (const time of times) {
+    if (time >= start) break;
+    close = buckets.get(time)!.close;
+  }
+
+  const candles: Candle[] = [];
+  for (let time = start; time <= last; time += intervalSeconds) {
+    const candle = buckets.get(time) ?? { time, open: close, high: close, low: close, close, volume: 0n, trades: 0 };
+    candles.push(candle);
+    close = candle.close;
+  }
+
+  return candles;
+}
+
+/**
+ * ELTA reserve and graduation progress after every trade, starting from
+ * the seed reserve when CurveInitialized is known.
+ */
+export function toReserveSeries(history: CurveHistory, target: bigint): ReservePoint[] {
+  const points: ReservePoint[] = [];
+  const toProgress = (reserve: bigint) => (target > 0n ? (reserve * 10000n) / target : 0n);
+
+  if (history.initialReserveElta !== undefined && history.initializedAt !== undefined) {
+    points.push({
+      time: history.initializedAt,
+      reserveElta: history.initialReserveElta,
+      progress: toProgress(history.initialReserveElta),
+    });
+  }
+
+  for (const trade of history.trades) {
+    points.push({ time: trade.timestamp, reserveElta: trade.reserveElta, progress: toProgress(trade.reserveElta) });
+  }
+
+  return points;
+}
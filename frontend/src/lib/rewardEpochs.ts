@@ -0,0 +1,58 @@
+import type { RevenueSplit } from '../types';
+
+// Epochs per explorer page
+export const EPOCH_PAGE_SIZE = 20n;
+
+interface LogPosition {
+  transactionHash: `0x${string}`;
+  logIndex: number;
+  blockNumber: bigint;
+}
+
+export interface VeEpochCreatedLog extends LogPosition {
+  args: { epochId: bigint };
+}
+
+export interface RevenueSplitLog extends LogPosition {
+  args: { totalAmount: bigint; appAmount: bigint; veAmount: bigint; treasuryAmount: bigint };
+}
+
+/**
+ * Match each VeEpochCreated to the RevenueSplit emitted by the same
+ * deposit(): the first one after it in the same transaction. Several
+ * deposits can share a block (or a tx), so the block number alone is not
+ * enough. Keyed by epoch id.
+ */
+export function joinRevenueSplits(
+  epochLogs: readonly VeEpochCreatedLog[],
+  splitLogs: readonly RevenueSplitLog[],
+  timestamps: ReadonlyMap<bigint, number>
+): Map<bigint, RevenueSplit> {
+  const splits = new Map<bigint, RevenueSplit>();
+
+  for (const epochLog of epochLogs) {
+    const split = splitLogs
+      .filter((log) => log.transactionHash === epochLog.transactionHash && log.logIndex > epochLog.logIndex)
+      .reduce<RevenueSplitLog | undefined>(
+        (first, log) => (!first || log.logIndex < first.logIndex ? log : first),
+        undefined
+      );
+    if (!split) continue;
+
+    splits.set(epochLog.args.epochId, {
+      ...split.args,
+      timestamp: timestamps.get(split.blockNumber) ?? 0,
+      transactionHash: split.transactionHash,
+    });
+  }
+
+  return splits;
+}
+
+/**
+ * A holder's pro-rata share of an epoch, as RewardsDistributor.claimVe computes it
+ */
+export function getEpochShare(amount: bigint, userVotes: bigint, totalVotes: bigint): bigint {
+  if (userVotes === 0n || totalVotes === 0n) return 0n;
+  return (amount * userVotes) / totalVotes;
+}
@@ -0,0 +1,30 @@
+import type { Address, Chain } from 'viem';
+import type { TrackedTransaction } from '../types';
+
+// Oldest entries beyond this are dropped
+export const MAX_TRANSACTION_HISTORY = 50;
+
+const storageKey = (account: Address) => `elata:transactions:${account.toLowerCase()}`;
+
+export function loadTransactions(account: Address): TrackedTransaction[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(storageKey(account));
+    return raw ? (JSON.parse(raw) as TrackedTransaction[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveTransactions(account: Address, transactions: TrackedTransaction[]) {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(
+    storageKey(account),
+    JSON.stringify(transactions.slice(0, MAX_TRANSACTION_HISTORY))
+  );
+}
+
+export function getExplorerTxUrl(chain: Chain | undefined, hash: `0x${string}`): string | undefined {
+  const explorer = chain?.blockExplorers?.default.url;
+  return explorer ? `${explorer.replace(/\/$/, '')}/tx/${hash}` : undefined;
+}
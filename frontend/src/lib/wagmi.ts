@@ -7,7 +7,13 @@ import {
   sepolia,
   baseSepolia,
 } from 'wagmi/chains';
-import { http } from 'viem';
+import { defineChain, http, isAddress, type Address, type Chain } from 'viem';
+import {
+  SUPPORTED_CHAIN_IDS,
+  getContractAddress,
+  getDeployment,
+  type ContractName,
+} from '../config/contracts';
 
 // Define localhost chain for development
 export const localhost = {
@@ -29,69 +35,67 @@ export const localhost = {
   },
 } as const;
 
+// Chains the frontend knows how to connect to; only those with a deployment are offered
+const KNOWN_CHAINS: Chain[] = [
+  mainnet,
+  polygon,
+  arbitrum,
+  base,
+  ...(process.env.NODE_ENV === 'development' ? [localhost, sepolia, baseSepolia] : []),
+];
+
+const deployedChains = SUPPORTED_CHAIN_IDS.flatMap((chainId) => {
+  const known = KNOWN_CHAINS.find((chain) => chain.id === chainId);
+  if (known) return [known];
+
+  // Custom networks need an RPC URL in their deployment manifest
+  const deployment = getDeployment(chainId);
+  if (!deployment?.rpcUrl || process.env.NODE_ENV !== 'development') return [];
+  return [defineChain({
+    id: chainId,
+    name: deployment.network,
+    nativeCurrency: { decimals: 18, name: 'Ether', symbol: 'ETH' },
+    rpcUrls: { default: { http: [deployment.rpcUrl] } },
+  })];
+});
+
+const chains = (deployedChains.length > 0 ? deployedChains : [localhost]) as [Chain, ...Chain[]];
+
 export const config = getDefaultConfig({
   appName: 'Elata App Store',
   projectId: process.env.NEXT_PUBLIC_WALLET_CONNECT_PROJECT_ID || 'YOUR_PROJECT_ID',
-  chains: [
-    mainnet,
-    polygon,
-    arbitrum,
-    base,
-    ...(process.env.NODE_ENV === 'development' ? [localhost, sepolia, baseSepolia] : []),
-  ],
-  transports: {
-    [mainnet.id]: http(),
-    [polygon.id]: http(),
-    [arbitrum.id]: http(),
-    [base.id]: http(),
-    [sepolia.id]: http(),
-    [baseSepolia.id]: http(),
-    [localhost.id]: http(),
-  },
+  chains,
+  transports: Object.fromEntries(
+    chains.map((chain) => [chain.id, http(getDeployment(chain.id)?.rpcUrl)])
+  ),
   ssr: true,
 });
 
-// Contract addresses - these will be updated with actual deployed addresses
-export const CONTRACT_ADDRESSES = {
-  // Localhost/Development
-  31337: {
-    ELTA: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
-    AppFactory: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
-    UniswapV2Router: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
-  },
-  // Ethereum Mainnet (placeholder - not deployed yet)
-  1: {
-    ELTA: process.env.NEXT_PUBLIC_ELTA_ADDRESS_MAINNET || '',
-    AppFactory: process.env.NEXT_PUBLIC_APP_FACTORY_ADDRESS_MAINNET || '',
-    UniswapV2Router: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D', // Uniswap V2 Router
-  },
-  // Sepolia Testnet
-  11155111: {
-    ELTA: process.env.NEXT_PUBLIC_ELTA_ADDRESS_SEPOLIA || '',
-    AppFactory: process.env.NEXT_PUBLIC_APP_FACTORY_ADDRESS_SEPOLIA || '',
-    UniswapV2Router: '0xC532a74256D3Db42D0Bf7a0400fEFDbad7694008', // Sepolia Uniswap V2
-  },
-  // Base Sepolia
-  84532: {
-    ELTA: process.env.NEXT_PUBLIC_ELTA_ADDRESS_BASE_SEPOLIA || '',
-    AppFactory: process.env.NEXT_PUBLIC_APP_FACTORY_ADDRESS_BASE_SEPOLIA || '',
-    UniswapV2Router: '0x4752ba5dbc23f44d87826276bf6fd6b1c372ad24', // Base Sepolia Uniswap V2
-  },
-  // Base Mainnet
-  8453: {
-    ELTA: process.env.NEXT_PUBLIC_ELTA_ADDRESS_BASE || '',
-    AppFactory: process.env.NEXT_PUBLIC_APP_FACTORY_ADDRESS_BASE || '',
-    UniswapV2Router: '0x4752ba5dbc23f44d87826276bf6fd6b1c372ad24', // Base Uniswap V2
-  },
-} as const;
+export type ContractResolution =
+  | { status: 'deployed'; chainId: number; contract: ContractName; address: Address }
+  | { status: 'unsupported-chain'; chainId: number | undefined; contract: ContractName; address?: undefined }
+  | { status: 'not-deployed'; chainId: number; contract: ContractName; address?: undefined };
 
-export type ChainId = keyof typeof CONTRACT_ADDRESSES;
+/**
+ * Resolve a contract on a specific chain. Never falls back to another
+ * chain: unknown chains and missing manifest entries are reported as such.
+ */
+export function resolveContract(chainId: number | undefined, contract: ContractName): ContractResolution {
+  if (chainId === undefined || !getDeployment(chainId)) {
+    return { status: 'unsupported-chain', chainId, contract };
+  }
 
-export function getContractAddress(chainId: number, contract: keyof typeof CONTRACT_ADDRESSES[ChainId]) {
-  const addresses = CONTRACT_ADDRESSES[chainId as ChainId];
-  if (!addresses) {
-    console.warn(`Unsupported chain ID: ${chainId}, falling back to localhost`);
-    return CONTRACT_ADDRESSES[31337][contract]; // Fallback to localhost
+  const address = getContractAddress(chainId, contract);
+  if (!address || !isAddress(address)) {
+    return { status: 'not-deployed', chainId, contract };
   }
-  return addresses[contract];
+
+  return { status: 'deployed', chainId, contract, address };
+}
+
+/**
+ * Configured chains on which every given contract is deployed.
+ */
+export function getChainsWithContracts(contracts: readonly ContractName[]): Chain[] {
+  return chains.filter((chain) => contracts.every((contract) => !!getContractAddress(chain.id, contract)));
 }
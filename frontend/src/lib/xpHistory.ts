@@ -0,0 +1,31 @@
+// getPastXP reads per history chart, besides the blocks XP changed in
+export const XP_HISTORY_SAMPLES = 24;
+
+/**
+ * Blocks to read getPastXP at: `samples` evenly spaced between `fromBlock`
+ * and `toBlock`, plus each block where XP changed and the one before it so
+ * the chart steps exactly at awards and revokes. Sorted and deduplicated.
+ */
+export function sampleBlocks(
+  fromBlock: bigint,
+  toBlock: bigint,
+  changeBlocks: readonly bigint[] = [],
+  samples = XP_HISTORY_SAMPLES
+): bigint[] {
+  if (toBlock < fromBlock) return [];
+
+  const blocks = new Set<bigint>([fromBlock, toBlock]);
+  const span = toBlock - fromBlock;
+  const steps = BigInt(Math.max(samples - 1, 1));
+  for (let i = 1n; i < steps; i++) {
+    blocks.add(fromBlock + (span * i) / steps);
+  }
+  for (const block of changeBlocks) {
+    if (block > fromBlock && block <= toBlock) {
+      blocks.add(block - 1n);
+      blocks.add(block);
+    }
+  }
+
+  return [...blocks].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
@@ -1,48 +1,16 @@
 import { Address } from 'viem';
+import type { App, AppMetadata, CurveState } from '@elata/sdk';
 
-export interface App {
-  creator: Address;
-  token: Address;
-  curve: Address;
-  pair: Address;
-  locker: Address;
-  createdAt: bigint;
-  graduatedAt: bigint;
-  graduated: boolean;
-  totalRaised: bigint;
-  finalSupply: bigint;
-}
+// On-chain shapes are owned by the SDK
+export type { App, AppMetadata, CurveState, LaunchStats, LpLockerState } from '@elata/sdk';
 
 export interface AppWithId extends App {
   id: number;
 }
 
-export interface AppMetadata {
-  name: string;
-  symbol: string;
-  description: string;
-  imageURI: string;
-  website: string;
-}
-
 export interface AppWithMetadata extends AppWithId {
   metadata: AppMetadata;
-}
-
-export interface CurveState {
-  eltaReserve: bigint;
-  tokenReserve: bigint;
-  target: bigint;
-  isGraduated: boolean;
-  currentPrice: bigint;
-  progress: bigint; // in basis points (0-10000)
-}
-
-export interface LaunchStats {
-  totalApps: bigint;
-  graduatedApps: bigint;
-  totalValueLocked: bigint;
-  totalFeesCollected: bigint;
+  curveState?: CurveState;
 }
 
 export interface CreateAppForm {
@@ -86,3 +54,177 @@ export interface AppCardData {
 }
 
 
+
+// A TokensPurchased event with its block timestamp
+export interface CurveTrade {
+  buyer: Address;
+  eltaIn: bigint;
+  tokensOut: bigint;
+  reserveElta: bigint;
+  reserveToken: bigint;
+  price: bigint; // newPrice, ELTA per token scaled by 1e18
+  timestamp: number; // unix seconds
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+}
+
+export interface CurveHistory {
+  // From CurveInitialized; undefined if the event is out of range
+  initialPrice?: bigint;
+  initialReserveElta?: bigint;
+  initializedAt?: number;
+  trades: CurveTrade[]; // oldest first
+}
+
+// JSON served by the event indexer (scripts/indexer); amounts are decimal strings
+export interface IndexerStatus {
+  chainId: number;
+  factory: Address;
+  lastBlock: number; // last block the indexer has processed
+}
+
+export interface IndexedEventRef {
+  blockNumber: number;
+  blockHash: `0x${string}`;
+  txHash: `0x${string}`;
+  logIndex: number;
+  timestamp: number; // unix seconds
+}
+
+export interface IndexedApp {
+  appId: number;
+  creator: Address;
+  token: Address;
+  vault: Address;
+  curve: Address;
+  creatorStaked: string;
+  createdAt: IndexedEventRef;
+  curveState?: {
+    seedElta: string;
+    tokenSupply: string;
+    initialK: string;
+    initializedAt: IndexedEventRef;
+  };
+  graduation?: {
+    pair: Address;
+    locker: Address;
+    unlockAt: number;
+    totalRaised: string;
+    finalSupply: string;
+    graduatedAt: IndexedEventRef;
+  };
+}
+
+export interface IndexedTrade {
+  appId: number;
+  buyer: Address;
+  eltaIn: string;
+  tokensOut: string;
+  newReserveElta: string;
+  newReserveToken: string;
+  newPrice: string;
+  event: IndexedEventRef;
+}
+
+export interface Candle {
+  time: number; // bucket start, unix seconds
+  open: bigint;
+  high: bigint;
+  low: bigint;
+  close: bigint;
+  volume: bigint; // ELTA
+  trades: number;
+}
+
+export interface ReservePoint {
+  time: number;
+  reserveElta: bigint;
+  progress: bigint; // basis points
+}
+
+export interface LpLockerEvent {
+  type: 'locked' | 'claimed';
+  beneficiary: Address;
+  amount: bigint;
+  blockNumber: bigint;
+  transactionHash: `0x${string}`;
+}
+
+// A RewardsDistributor.claimVe, from VeRewardsClaimed
+export interface VeRewardsClaim {
+  fromEpoch: bigint;
+  toEpoch: bigint; // exclusive
+  amount: bigint;
+  timestamp: number;
+  blockNumber: bigint;
+  transactionHash: `0x${string}`;
+}
+
+// RewardsDistributor.deposit's RevenueSplit, joined to the epoch it created
+export interface RevenueSplit {
+  totalAmount: bigint;
+  appAmount: bigint;
+  veAmount: bigint;
+  treasuryAmount: bigint;
+  timestamp: number;
+  transactionHash: `0x${string}`;
+}
+
+export interface RewardEpochRow {
+  epochId: bigint;
+  blockNumber: bigint; // veELTA snapshot block
+  amount: bigint; // ELTA for veELTA holders
+}
+
+// An XPAwarded / XPRevoked event and the ElataXP call behind it
+export interface XPActivity {
+  type: 'awarded' | 'revoked';
+  amount: bigint;
+  // Undefined when ElataXP was reached through another contract
+  source?: 'award' | 'updateBySig' | 'revoke';
+  // Signer of an updateBySig award, otherwise the tx sender
+  operator?: Address;
+  timestamp: number;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+}
+
+export interface XPPoint {
+  blockNumber: bigint;
+  time: number;
+  xp: bigint;
+}
+
+// A launch whose updateMetadata tx has not confirmed yet (persisted per account)
+export interface PendingMetadata {
+  // The createApp tx. A batched launch only gets one once the batch is
+  // mined and is known by its EIP-5792 batch id until then
+  createTxHash?: `0x${string}`;
+  batchId?: string;
+  // Filled in from AppCreated once the create tx confirms
+  appId?: string;
+  token?: Address;
+  name: string;
+  symbol: string;
+  description: string;
+  imageURI: string;
+  website: string;
+  createdAt: number; // unix ms
+}
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'cancelled';
+
+// A write sent through the transaction manager (persisted per account)
+export interface TrackedTransaction {
+  hash: `0x${string}`;
+  chainId: number;
+  label: string;
+  status: TransactionStatus;
+  submittedAt: number; // unix ms
+  settledAt?: number;
+  // Set when the wallet sped up or cancelled the tx under a new hash
+  replacedBy?: `0x${string}`;
+  error?: string;
+}
@@ -271,6 +271,8 @@ contract Deploy is Script {
         vm.serializeAddress(json, "tournamentFactory", address(protocol.tournamentFactory));
         vm.serializeAddress(json, "admin", ADMIN_MSIG);
         vm.serializeAddress(json, "treasury", INITIAL_TREASURY);
+        // Scripts run against a fixed block, so this is the block before the first deploy tx
+        vm.serializeUint(json, "startBlock", block.number);
 
         string memory finalJson = vm.serializeString(json, "network", _getNetworkName());
 
@@ -120,6 +120,8 @@ contract DeployLocalFull is Script {
         address deployer;
         address treasury;
         address[] testAccounts;
+        // First block worth scanning for protocol events
+        uint256 startBlock;
     }
 
     function run() external returns (DeploymentResult memory result) {
@@ -128,6 +130,7 @@ contract DeployLocalFull is Script {
             0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80;
         result.deployer = vm.addr(deployerPrivateKey);
         result.treasury = result.deployer;
+        result.startBlock = block.number;
 
         vm.startBroadcast(deployerPrivateKey);
 
@@ -325,6 +328,9 @@ contract DeployLocalFull is Script {
             '  "deployer": "',
             vm.toString(result.deployer),
             '",\n',
+            '  "startBlock": ',
+            vm.toString(result.startBlock),
+            ",\n",
             '  "contracts": {\n',
             '    "ELTA": "',
             vm.toString(address(result.token)),
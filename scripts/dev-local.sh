@@ -65,6 +65,7 @@ echo -e "${YELLOW}[2/6] Building contracts (this may take 30-60 seconds)...${NC}
 cd "$PROJECT_ROOT"
 FOUNDRY_PROFILE=local forge build --force
 echo -e "${GREEN}✓ Contracts built successfully${NC}"
+npx tsx "$PROJECT_ROOT/scripts/generate-abis.ts"
 
 echo -e "${YELLOW}[3/6] Deploying all contracts...${NC}"
 FOUNDRY_PROFILE=local forge script script/DeployLocalFull.s.sol:DeployLocalFull \
@@ -85,6 +86,7 @@ echo -e "${GREEN}✓ Test data seeded${NC}"
 echo -e "${YELLOW}[5/6] Generating frontend configuration...${NC}"
 if [ -f "$PROJECT_ROOT/scripts/generate-config.ts" ]; then
     npx tsx "$PROJECT_ROOT/scripts/generate-config.ts"
+    npx tsx "$PROJECT_ROOT/scripts/generate-config.ts" --verify --chain 31337
     echo -e "${GREEN}✓ Frontend configuration generated${NC}"
 else
     echo -e "${YELLOW}⚠ Frontend config script not found, skipping...${NC}"
@@ -0,0 +1,288 @@
+#!/usr/bin/env node
+
+/**
+ * Generate SDK ABIs from Forge Artifacts
+ *
+ * Reads forge `out/` JSON for every deployable contract in `src/` and writes:
+ * 1. sdk/src/abi/<Contract>.ts - `export const <Contract>ABI = [...] as const`
+ * 2. sdk/src/abi/index.ts      - barrel export (also keeps hand-written ABIs such as ERC20)
+ *
+ * Afterwards every call built by the SDK `*Calls(address)` builders is checked
+ * against its ABI, and the script exits non-zero if a builder targets a
+ * function the contract does not expose. Frontend code goes through these
+ * builders, and its wagmi calls are typed by the `as const` ABIs.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-abis.ts [--out <forge out dir>] [--check]
+ *
+ *   --check  Skip generation and compare the committed ABIs with the forge
+ *            artifacts instead: generated files must match exactly, and every
+ *            function, event and error in a hand-written one must exist in
+ *            the contract with the same signature. Needs forge `out/` too.
+ */
+
+import { readFileSync, writeFileSync, existsSync, readdirSync, statSync } from 'fs';
+import { join, dirname, basename, relative } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { zeroAddress } from 'viem';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const projectRoot = join(__dirname, '..');
+const srcDir = join(projectRoot, 'src');
+const abiDir = join(projectRoot, 'sdk', 'src', 'abi');
+const sdkEntry = join(projectRoot, 'sdk', 'src', 'index.ts');
+
+// First line of every generated file; files without it are hand-written and left alone
+const GENERATED_MARKER = '// Auto-generated by scripts/generate-abis.ts - DO NOT EDIT';
+
+interface AbiParameter {
+  type: string;
+  indexed?: boolean;
+  components?: readonly AbiParameter[];
+}
+
+interface AbiItem {
+  type: string;
+  name?: string;
+  inputs?: readonly AbiParameter[];
+  outputs?: readonly AbiParameter[];
+  stateMutability?: string;
+}
+
+interface ForgeArtifact {
+  abi: AbiItem[];
+  bytecode?: { object: string };
+  metadata?: { settings?: { compilationTarget?: Record<string, string> } };
+}
+
+interface BuilderCall {
+  builder: string;
+  abi: readonly AbiItem[];
+  functionName: string;
+}
+
+function walk(dir: string, filter: (path: string) => boolean): string[] {
+  return readdirSync(dir).flatMap((entry) => {
+    const path = join(dir, entry);
+    if (statSync(path).isDirectory()) return walk(path, filter);
+    return filter(path) ? [path] : [];
+  });
+}
+
+/**
+ * Collect the ABI of every contract compiled from src/. Interfaces and
+ * abstract contracts are skipped (no bytecode), as are contracts with an
+ * empty ABI.
+ */
+function collectAbis(outDir: string): Map<string, AbiItem[]> {
+  const abis = new Map<string, AbiItem[]>();
+
+  for (const solFile of walk(srcDir, (path) => path.endsWith('.sol'))) {
+    const sourceName = relative(projectRoot, solFile);
+    const artifactDir = join(outDir, basename(solFile));
+    if (!existsSync(artifactDir)) {
+      throw new Error(`No artifacts for ${sourceName} in ${artifactDir} (run forge build)`);
+    }
+
+    for (const file of readdirSync(artifactDir).filter((f) => f.endsWith('.json'))) {
+      const artifact: ForgeArtifact = JSON.parse(readFileSync(join(artifactDir, file), 'utf-8'));
+      const target = artifact.metadata?.settings?.compilationTarget;
+
+      // Same file name under lib/ (e.g. another ERC20.sol) lands in the same out/ folder
+      if (target && !(sourceName in target)) continue;
+      if (!artifact.bytecode?.object || artifact.bytecode.object === '0x') continue;
+      if (artifact.abi.length === 0) continue;
+
+      const name = basename(file, '.json');
+      if (abis.has(name)) {
+        throw new Error(`Duplicate contract name ${name} (${sourceName})`);
+      }
+      abis.set(name, artifact.abi);
+    }
+  }
+
+  return abis;
+}
+
+function writeAbis(abis: Map<string, AbiItem[]>) {
+  for (const [name, abi] of abis) {
+    const ts = `${GENERATED_MARKER}
+// Source: forge artifact for ${name}
+
+export const ${name}ABI = ${JSON.stringify(abi, null, 2)} as const;
+`;
+    writeFileSync(join(abiDir, `${name}.ts`), ts);
+  }
+  console.log(`✓ Generated ${abis.size} ABIs in sdk/src/abi/`);
+
+  const handWritten = readdirSync(abiDir)
+    .filter((f) => f.endsWith('.ts') && f !== 'index.ts')
+    .map((f) => basename(f, '.ts'))
+    .filter((name) => !abis.has(name))
+    .filter((name) => !readFileSync(join(abiDir, `${name}.ts`), 'utf-8').startsWith(GENERATED_MARKER));
+
+  const names = [...abis.keys(), ...handWritten].sort();
+  const index = `${GENERATED_MARKER}
+
+${names.map((name) => `export { ${name}ABI } from './${name}';`).join('\n')}
+`;
+  writeFileSync(join(abiDir, 'index.ts'), index);
+  console.log(`✓ Generated sdk/src/abi/index.ts (${handWritten.length} hand-written: ${handWritten.join(', ') || 'none'})`);
+}
+
+// Stands in for every builder argument, including objects whose fields are read (e.g. a SignedPermit)
+const placeholder: object = new Proxy({}, { get: () => placeholder });
+
+/**
+ * Build every call the SDK `*Calls(address)` builders expose. Builders only
+ * package their arguments, so placeholder arguments are enough to read the
+ * ABI and functionName each one targets.
+ */
+async function collectBuilderCalls(): Promise<BuilderCall[]> {
+  const sdk: Record<string, unknown> = await import(pathToFileURL(sdkEntry).href);
+  const calls: BuilderCall[] = [];
+
+  for (const [name, factory] of Object.entries(sdk)) {
+    if (!name.endsWith('Calls') || typeof factory !== 'function') continue;
+
+    const builders: Record<string, (...args: unknown[]) => { abi: readonly AbiItem[]; functionName: string }> =
+      factory(zeroAddress);
+    for (const [method, build] of Object.entries(builders)) {
+      const { abi, functionName } = build(...Array(build.length).fill(placeholder));
+      calls.push({ builder: `${name}.${method}`, abi, functionName });
+    }
+  }
+
+  return calls;
+}
+
+const formatParameter = (param: AbiParameter): string => {
+  const type = param.type.startsWith('tuple')
+    ? `(${(param.components ?? []).map(formatParameter).join(',')})${param.type.slice('tuple'.length)}`
+    : param.type;
+  return param.indexed ? `${type} indexed` : type;
+};
+
+// Parameter names are ignored: hand-written ABIs do not always match the source
+function formatSignature(item: AbiItem): string {
+  const inputs = (item.inputs ?? []).map(formatParameter).join(',');
+  if (item.type !== 'function') return `${item.type} ${item.name}(${inputs})`;
+  const outputs = (item.outputs ?? []).map(formatParameter).join(',');
+  return `function ${item.name}(${inputs}) ${item.stateMutability} returns (${outputs})`;
+}
+
+const signatures = (abi: readonly AbiItem[]) =>
+  new Set(abi.filter((item) => ['function', 'event', 'error'].includes(item.type)).map(formatSignature));
+
+function loadCommittedAbis(): Promise<Record<string, readonly AbiItem[]>> {
+  return import(pathToFileURL(join(abiDir, 'index.ts')).href);
+}
+
+async function checkArtifacts(artifacts: Map<string, AbiItem[]>): Promise<boolean> {
+  const committed = await loadCommittedAbis();
+  const failures: string[] = [];
+  const skipped: string[] = [];
+  let checked = 0;
+
+  for (const file of readdirSync(abiDir).filter((f) => f.endsWith('.ts') && f !== 'index.ts')) {
+    const name = basename(file, '.ts');
+    const artifact = artifacts.get(name);
+    const abi = committed[`${name}ABI`];
+    if (!artifact || !abi) {
+      skipped.push(name);
+      continue;
+    }
+
+    const expected = signatures(artifact);
+    const actual = signatures(abi);
+    for (const signature of actual) {
+      if (!expected.has(signature)) failures.push(`sdk/src/abi/${file}  ${signature} is not in the ${name} artifact`);
+    }
+    if (readFileSync(join(abiDir, file), 'utf-8').startsWith(GENERATED_MARKER)) {
+      for (const signature of expected) {
+        if (!actual.has(signature)) failures.push(`sdk/src/abi/${file}  missing ${signature} (regenerate)`);
+      }
+    }
+    checked++;
+  }
+
+  if (failures.length > 0) {
+    console.error(`❌ ${failures.length} committed ABI item(s) do not match the forge artifacts:\n`);
+    failures.forEach((failure) => console.error(`   ${failure}`));
+    return false;
+  }
+
+  console.log(`✓ Compared ${checked} committed ABIs with the forge artifacts`);
+  if (skipped.length > 0) console.log(`  (no artifact from src/, not compared: ${skipped.join(', ')})`);
+  return true;
+}
+
+async function checkReferences(): Promise<boolean> {
+  const abis = await loadCommittedAbis();
+  const calls = await collectBuilderCalls();
+  const failures: string[] = [];
+
+  for (const call of calls) {
+    const contract = Object.keys(abis).find((name) => abis[name] === call.abi)?.replace(/ABI$/, '');
+
+    if (!contract) {
+      failures.push(`${call.builder}  uses an ABI that is not exported from sdk/src/abi`);
+    } else if (!call.abi.some((item) => item.type === 'function' && item.name === call.functionName)) {
+      failures.push(`${call.builder}  ${contract} does not expose ${call.functionName}()`);
+    }
+  }
+
+  if (failures.length > 0) {
+    console.error(`❌ ${failures.length} SDK call builder(s) do not match the contracts:\n`);
+    failures.forEach((failure) => console.error(`   ${failure}`));
+    return false;
+  }
+
+  console.log(`✓ Checked ${calls.length} SDK call builders`);
+  return true;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const checkOnly = args.includes('--check');
+  const outIndex = args.indexOf('--out');
+  const outDir = outIndex >= 0 ? args[outIndex + 1] : join(projectRoot, 'out');
+
+  console.log(checkOnly ? '🔍 Checking ABIs against forge artifacts...\n' : '🔧 Generating ABIs from forge artifacts...\n');
+
+  // Without artifacts there is nothing to compare the committed ABIs with
+  if (!existsSync(outDir)) {
+    console.error(`❌ Error: ${outDir} not found!`);
+    console.error('   Build contracts first: forge build');
+    process.exit(1);
+  }
+
+  const artifacts = collectAbis(outDir);
+  if (checkOnly) {
+    if (!(await checkArtifacts(artifacts))) process.exit(1);
+  } else {
+    writeAbis(artifacts);
+  }
+
+  if (!(await checkReferences())) {
+    process.exit(1);
+  }
+
+  console.log(
+    checkOnly
+      ? '\n✅ Committed ABIs match the forge artifacts and every SDK call builder resolves'
+      : '\n✅ ABIs generated and every SDK call builder resolves'
+  );
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    console.error('❌ ABI generation failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
+
+export { main as generateAbis };
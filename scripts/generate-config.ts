@@ -1,63 +1,171 @@
 #!/usr/bin/env node
 
 /**
- * Generate Frontend Configuration from Deployment
- * 
- * Reads deployments/local.json and generates:
- * 1. frontend/.env.local - Environment variables
- * 2. frontend/src/config/contracts.ts - TypeScript config
+ * Generate Frontend Configuration from Deployments
+ *
+ * Reads every deployments/<network>.json manifest and generates:
+ * 1. frontend/.env.local - Environment variables for the default chain
+ * 2. frontend/src/config/contracts.ts - Per-chain contract address map
+ *
+ * Usage:
+ *   npx tsx scripts/generate-config.ts [--deployments <dir>] [--verify [--chain <id>]]
+ *
+ *   --verify  Instead of writing files, connect to each deployment's RPC and
+ *             check the chainId, that every address has bytecode and that an
+ *             identifying view (ELTA.symbol(), AppFactory.appCount(), ...)
+ *             answers. Exits non-zero with a per-contract report on failure.
+ *   --chain   Only verify the deployment for this chain ID
+ *
+ * The generated config only carries the manifest's `rpcUrl` (defaulting to
+ * http://127.0.0.1:8545 for chain 31337), since it is bundled into the
+ * frontend. RPC_URL_<chainId>, which may hold a provider API key, is only
+ * read by --verify when the manifest has no `rpcUrl`. The manifest's
+ * `startBlock` (the block the deploy script ran at) is passed through so
+ * event history can be scanned from there instead of from genesis.
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
-import { join, dirname } from 'path';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync } from 'fs';
+import { join, dirname, basename } from 'path';
 import { fileURLToPath } from 'url';
+import { createPublicClient, http, isAddress, type AbiFunction, type PublicClient } from 'viem';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+const LOCAL_CHAIN_ID = 31337;
+const LOCAL_RPC_URL = 'http://127.0.0.1:8545';
+
+// Every contract the frontend can resolve, grouped as emitted
+const CONTRACT_GROUPS = {
+  'Core Protocol': ['ELTA', 'ElataXP', 'VeELTA', 'LotPool', 'RewardsDistributor', 'ElataTimelock', 'ElataGovernor'],
+  'App Ecosystem': [
+    'AppFactory',
+    'AppFactoryViews',
+    'AppModuleFactory',
+    'TournamentFactory',
+    'AppFeeRouter',
+    'AppRewardsDistributor',
+  ],
+  DEX: ['UniswapV2Factory', 'UniswapV2Router'],
+} as const;
+
+type ContractName = (typeof CONTRACT_GROUPS)[keyof typeof CONTRACT_GROUPS][number];
+
 interface DeploymentConfig {
   network: string;
   chainId: number;
-  deployer: string;
-  contracts: {
-    ELTA: string;
-    ElataXP: string;
-    VeELTA: string;
-    LotPool: string;
-    RewardsDistributor: string;
-    ElataTimelock: string;
-    ElataGovernor: string;
-    AppFactory: string;
-    AppModuleFactory: string;
-    TournamentFactory: string;
-    UniswapV2Factory: string;
-    UniswapV2Router: string;
-  };
-  testAccounts: string[];
+  deployer?: string;
+  rpcUrl?: string;
+  startBlock?: number;
+  contracts: Partial<Record<ContractName, string>>;
+  testAccounts?: string[];
 }
 
-function main() {
-  console.log('🔧 Generating frontend configuration...\n');
+// script/Deploy.sol writes <network>-deployment.json with these keys and no chainId
+const LEGACY_KEYS: Record<string, ContractName> = {
+  elta: 'ELTA',
+  xp: 'ElataXP',
+  veElta: 'VeELTA',
+  funding: 'LotPool',
+  rewardsDistributor: 'RewardsDistributor',
+  appRewardsDistributor: 'AppRewardsDistributor',
+  appFeeRouter: 'AppFeeRouter',
+  governor: 'ElataGovernor',
+  timelock: 'ElataTimelock',
+  appFactory: 'AppFactory',
+  appModuleFactory: 'AppModuleFactory',
+  tournamentFactory: 'TournamentFactory',
+};
+
+// Mirrors Deploy.sol _getNetworkName()
+const LEGACY_NETWORK_CHAIN_IDS: Record<string, number> = {
+  mainnet: 1,
+  goerli: 5,
+  sepolia: 11155111,
+  base: 8453,
+  'base-goerli': 84531,
+  'base-sepolia': 84532,
+  localhost: LOCAL_CHAIN_ID,
+};
 
+// A no-argument view with a single return value
+const view = (name: string, output: 'string' | 'uint256' | 'uint64' | 'address'): AbiFunction => ({
+  type: 'function',
+  name,
+  stateMutability: 'view',
+  inputs: [],
+  outputs: [{ type: output }],
+});
+
+// Identifying view per contract, called during --verify
+const PROBES: Record<ContractName, AbiFunction> = {
+  ELTA: view('symbol', 'string'),
+  ElataXP: view('symbol', 'string'),
+  VeELTA: view('MAX_LOCK', 'uint64'),
+  LotPool: view('currentRoundId', 'uint256'),
+  RewardsDistributor: view('getEpochCount', 'uint256'),
+  ElataTimelock: view('getMinDelay', 'uint256'),
+  ElataGovernor: view('name', 'string'),
+  AppFactory: view('appCount', 'uint256'),
+  AppFactoryViews: view('factory', 'address'),
+  AppModuleFactory: view('createFeeELTA', 'uint256'),
+  TournamentFactory: view('getTournamentCount', 'uint256'),
+  AppFeeRouter: view('feeBps', 'uint256'),
+  AppRewardsDistributor: view('ELTA', 'address'),
+  UniswapV2Factory: view('allPairsLength', 'uint256'),
+  UniswapV2Router: view('factory', 'address'),
+};
+
+interface ContractCheck {
+  name: ContractName;
+  address?: string;
+  ok: boolean;
+  detail: string;
+}
+
+async function main() {
   const projectRoot = join(__dirname, '..');
-  const deploymentPath = join(projectRoot, 'deployments', 'local.json');
+  const args = process.argv.slice(2);
+  const dirIndex = args.indexOf('--deployments');
+  const deploymentsDir = dirIndex >= 0 ? args[dirIndex + 1] : join(projectRoot, 'deployments');
   const frontendDir = join(projectRoot, 'frontend');
-  
-  // Check if deployment exists
-  if (!existsSync(deploymentPath)) {
-    console.error('❌ Error: deployments/local.json not found!');
+  const verify = args.includes('--verify');
+  const chainIndex = args.indexOf('--chain');
+  const onlyChain = chainIndex >= 0 ? Number(args[chainIndex + 1]) : undefined;
+
+  console.log(verify ? '🔍 Verifying deployments on-chain...\n' : '🔧 Generating frontend configuration...\n');
+
+  const deployments = loadDeployments(deploymentsDir).filter(
+    (d) => onlyChain === undefined || d.chainId === onlyChain
+  );
+
+  if (deployments.length === 0) {
+    console.error(`❌ Error: no deployment manifests found in ${deploymentsDir}`);
     console.error('   Run deployment first: npm run dev:deploy');
     process.exit(1);
   }
 
-  // Read deployment config
-  const deployment: DeploymentConfig = JSON.parse(readFileSync(deploymentPath, 'utf-8'));
+  if (verify) {
+    let failed = 0;
+    for (const deployment of deployments) {
+      failed += await verifyDeployment(deployment);
+    }
+
+    if (failed > 0) {
+      console.error(`\n❌ ${failed} problem(s) found. Redeploy or fix deployments/*.json, then re-run.`);
+      process.exit(1);
+    }
+    console.log('\n✅ All deployments verified');
+    return;
+  }
+
+  const defaultDeployment = deployments.find((d) => d.chainId === LOCAL_CHAIN_ID) ?? deployments[0];
 
   // Generate .env.local
-  generateEnvLocal(deployment, frontendDir);
+  generateEnvLocal(defaultDeployment, frontendDir);
 
   // Generate TypeScript config
-  generateTsConfig(deployment, frontendDir);
+  generateTsConfig(deployments, defaultDeployment, frontendDir);
 
   console.log('\n✅ Frontend configuration generated successfully!');
   console.log('\nFiles created:');
@@ -65,41 +173,172 @@ function main() {
   console.log('  - frontend/src/config/contracts.ts');
 }
 
+function loadDeployments(deploymentsDir: string): DeploymentConfig[] {
+  if (!existsSync(deploymentsDir)) return [];
+
+  const byChain = new Map<number, DeploymentConfig>();
+
+  for (const file of readdirSync(deploymentsDir).filter((f) => f.endsWith('.json')).sort()) {
+    const raw = JSON.parse(readFileSync(join(deploymentsDir, file), 'utf-8'));
+    const deployment = raw.contracts ? (raw as DeploymentConfig) : fromLegacy(raw, file);
+
+    if (!deployment || typeof deployment.chainId !== 'number') {
+      console.warn(`⚠ Skipping ${file}: not a deployment manifest`);
+      continue;
+    }
+
+    const existing = byChain.get(deployment.chainId);
+    if (existing) {
+      // <network>.json wins over a legacy <network>-deployment.json for the same chain
+      if (file.endsWith('-deployment.json')) continue;
+      console.warn(`⚠ ${file} replaces ${existing.network} for chain ${deployment.chainId}`);
+    }
+
+    deployment.rpcUrl = deployment.rpcUrl || (deployment.chainId === LOCAL_CHAIN_ID ? LOCAL_RPC_URL : undefined);
+
+    byChain.set(deployment.chainId, deployment);
+    console.log(`✓ Loaded ${file} (${deployment.network}, chain ${deployment.chainId})`);
+  }
+
+  return [...byChain.values()].sort((a, b) => a.chainId - b.chainId);
+}
+
+/**
+ * Check one deployment against its RPC. Returns the number of failed checks.
+ */
+async function verifyDeployment(deployment: DeploymentConfig): Promise<number> {
+  console.log(`\n${deployment.network} (chain ${deployment.chainId})`);
+
+  // Env URLs are used here only, never written to the generated config
+  const rpcUrl = deployment.rpcUrl || process.env[`RPC_URL_${deployment.chainId}`];
+  if (!rpcUrl) {
+    console.error(`  ❌ No RPC URL: set rpcUrl in the manifest or RPC_URL_${deployment.chainId}`);
+    return 1;
+  }
+
+  const client = createPublicClient({ transport: http(rpcUrl) });
+
+  let chainId: number;
+  try {
+    chainId = await client.getChainId();
+  } catch (error) {
+    console.error(`  ❌ RPC ${rpcUrl} unreachable: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+    return 1;
+  }
+
+  if (chainId !== deployment.chainId) {
+    console.error(`  ❌ RPC ${rpcUrl} reports chain ${chainId}, manifest says ${deployment.chainId}`);
+    return 1;
+  }
+  console.log(`  ✓ RPC ${rpcUrl} is chain ${chainId}`);
+
+  const names = Object.values(CONTRACT_GROUPS).flat().filter((name) => deployment.contracts[name]);
+  const checks = await Promise.all(names.map((name) => checkContract(client, deployment, name)));
+
+  const width = Math.max(...names.map((name) => name.length));
+  for (const check of checks) {
+    const line = `  ${check.ok ? '✓' : '❌'} ${check.name.padEnd(width)}  ${check.address}  ${check.detail}`;
+    if (check.ok) {
+      console.log(line);
+    } else {
+      console.error(line);
+    }
+  }
+
+  return checks.filter((check) => !check.ok).length;
+}
+
+async function checkContract(
+  client: PublicClient,
+  deployment: DeploymentConfig,
+  name: ContractName
+): Promise<ContractCheck> {
+  const address = deployment.contracts[name]!;
+  const fail = (detail: string): ContractCheck => ({ name, address, ok: false, detail });
+
+  if (!isAddress(address)) return fail('invalid address');
+
+  const code = await client.getCode({ address }).catch(() => undefined);
+  if (!code || code === '0x') return fail('no bytecode at address (stale manifest?)');
+
+  const probe = PROBES[name];
+  const functionName = probe.name;
+
+  let result: unknown;
+  try {
+    result = await client.readContract({ address, abi: [probe], functionName });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    return fail(`${functionName}() failed: ${reason}`);
+  }
+
+  // AppFactoryViews must wrap the AppFactory from the same manifest
+  if (name === 'AppFactoryViews' && deployment.contracts.AppFactory) {
+    if (String(result).toLowerCase() !== deployment.contracts.AppFactory.toLowerCase()) {
+      return fail(`factory() is ${result}, expected AppFactory ${deployment.contracts.AppFactory}`);
+    }
+  }
+
+  return { name, address, ok: true, detail: `${functionName}() = ${String(result)}` };
+}
+
+function fromLegacy(raw: Record<string, string>, file: string): DeploymentConfig | undefined {
+  const network = raw.network ?? basename(file, '-deployment.json');
+  const chainId = LEGACY_NETWORK_CHAIN_IDS[network];
+  if (chainId === undefined) return undefined;
+
+  const contracts: DeploymentConfig['contracts'] = {};
+  for (const [key, name] of Object.entries(LEGACY_KEYS)) {
+    if (raw[key]) contracts[name] = raw[key];
+  }
+
+  const startBlock = raw.startBlock !== undefined ? Number(raw.startBlock) : undefined;
+
+  return { network, chainId, startBlock, contracts };
+}
+
 function generateEnvLocal(deployment: DeploymentConfig, frontendDir: string) {
+  const address = (name: ContractName) => deployment.contracts[name] ?? '';
+  const testAccounts = deployment.testAccounts ?? [];
+
   const env = `# Auto-generated by generate-config.ts
 # Local Development Environment
 
 # Network Configuration
 NEXT_PUBLIC_CHAIN_ID=${deployment.chainId}
-NEXT_PUBLIC_RPC_URL=http://127.0.0.1:8545
+NEXT_PUBLIC_RPC_URL=${deployment.rpcUrl ?? ''}
+
+# Event indexer (npm run dev:index); history falls back to log scans when it is down or empty
+NEXT_PUBLIC_INDEXER_URL=${deployment.chainId === LOCAL_CHAIN_ID ? 'http://127.0.0.1:4350' : ''}
 
 # Contract Addresses - Core Protocol
-NEXT_PUBLIC_ELTA_ADDRESS=${deployment.contracts.ELTA}
-NEXT_PUBLIC_ELATA_XP_ADDRESS=${deployment.contracts.ElataXP}
-NEXT_PUBLIC_VE_ELTA_ADDRESS=${deployment.contracts.VeELTA}
-NEXT_PUBLIC_LOT_POOL_ADDRESS=${deployment.contracts.LotPool}
-NEXT_PUBLIC_REWARDS_DISTRIBUTOR_ADDRESS=${deployment.contracts.RewardsDistributor}
-NEXT_PUBLIC_ELATA_TIMELOCK_ADDRESS=${deployment.contracts.ElataTimelock}
-NEXT_PUBLIC_ELATA_GOVERNOR_ADDRESS=${deployment.contracts.ElataGovernor}
+NEXT_PUBLIC_ELTA_ADDRESS=${address('ELTA')}
+NEXT_PUBLIC_ELATA_XP_ADDRESS=${address('ElataXP')}
+NEXT_PUBLIC_VE_ELTA_ADDRESS=${address('VeELTA')}
+NEXT_PUBLIC_LOT_POOL_ADDRESS=${address('LotPool')}
+NEXT_PUBLIC_REWARDS_DISTRIBUTOR_ADDRESS=${address('RewardsDistributor')}
+NEXT_PUBLIC_ELATA_TIMELOCK_ADDRESS=${address('ElataTimelock')}
+NEXT_PUBLIC_ELATA_GOVERNOR_ADDRESS=${address('ElataGovernor')}
 
 # Contract Addresses - App Ecosystem
-NEXT_PUBLIC_APP_FACTORY_ADDRESS=${deployment.contracts.AppFactory}
-NEXT_PUBLIC_APP_MODULE_FACTORY_ADDRESS=${deployment.contracts.AppModuleFactory}
-NEXT_PUBLIC_TOURNAMENT_FACTORY_ADDRESS=${deployment.contracts.TournamentFactory}
+NEXT_PUBLIC_APP_FACTORY_ADDRESS=${address('AppFactory')}
+NEXT_PUBLIC_APP_FACTORY_VIEWS_ADDRESS=${address('AppFactoryViews')}
+NEXT_PUBLIC_APP_MODULE_FACTORY_ADDRESS=${address('AppModuleFactory')}
+NEXT_PUBLIC_TOURNAMENT_FACTORY_ADDRESS=${address('TournamentFactory')}
 
 # DEX Addresses (Mock Uniswap)
-NEXT_PUBLIC_UNISWAP_V2_FACTORY_ADDRESS=${deployment.contracts.UniswapV2Factory}
-NEXT_PUBLIC_UNISWAP_V2_ROUTER_ADDRESS=${deployment.contracts.UniswapV2Router}
+NEXT_PUBLIC_UNISWAP_V2_FACTORY_ADDRESS=${address('UniswapV2Factory')}
+NEXT_PUBLIC_UNISWAP_V2_ROUTER_ADDRESS=${address('UniswapV2Router')}
 
 # Test Accounts
-NEXT_PUBLIC_TEST_ACCOUNT_1=${deployment.testAccounts[0] || ''}
-NEXT_PUBLIC_TEST_ACCOUNT_2=${deployment.testAccounts[1] || ''}
-NEXT_PUBLIC_TEST_ACCOUNT_3=${deployment.testAccounts[2] || ''}
-NEXT_PUBLIC_TEST_ACCOUNT_4=${deployment.testAccounts[3] || ''}
-NEXT_PUBLIC_TEST_ACCOUNT_5=${deployment.testAccounts[4] || ''}
+NEXT_PUBLIC_TEST_ACCOUNT_1=${testAccounts[0] || ''}
+NEXT_PUBLIC_TEST_ACCOUNT_2=${testAccounts[1] || ''}
+NEXT_PUBLIC_TEST_ACCOUNT_3=${testAccounts[2] || ''}
+NEXT_PUBLIC_TEST_ACCOUNT_4=${testAccounts[3] || ''}
+NEXT_PUBLIC_TEST_ACCOUNT_5=${testAccounts[4] || ''}
 
 # Development Mode
-NEXT_PUBLIC_DEV_MODE=true
+NEXT_PUBLIC_DEV_MODE=${deployment.chainId === LOCAL_CHAIN_ID}
 `;
 
   const envPath = join(frontendDir, '.env.local');
@@ -107,63 +346,77 @@ NEXT_PUBLIC_DEV_MODE=true
   console.log('✓ Generated .env.local');
 }
 
-function generateTsConfig(deployment: DeploymentConfig, frontendDir: string) {
+function formatDeployment(deployment: DeploymentConfig): string {
+  const groups = Object.entries(CONTRACT_GROUPS)
+    .map(([group, names]) => {
+      const lines = names
+        .filter((name) => deployment.contracts[name])
+        .map((name) => `      ${name}: '${deployment.contracts[name]}',`);
+      return lines.length > 0 ? [`      // ${group}`, ...lines].join('\n') : undefined;
+    })
+    .filter((group): group is string => group !== undefined);
+
+  return `  ${deployment.chainId}: {
+    network: '${deployment.network}',
+    chainId: ${deployment.chainId},${deployment.rpcUrl ? `\n    rpcUrl: '${deployment.rpcUrl}',` : ''}${deployment.deployer ? `\n    deployer: '${deployment.deployer}',` : ''}${deployment.startBlock !== undefined ? `\n    startBlock: ${deployment.startBlock},` : ''}
+    contracts: {
+${groups.join('\n\n')}
+    },
+  },`;
+}
+
+function generateTsConfig(deployments: DeploymentConfig[], defaultDeployment: DeploymentConfig, frontendDir: string) {
+  const contractNames = Object.values(CONTRACT_GROUPS).flat();
+  const sources = deployments.map((d) => `${d.network} (${d.chainId})`).join(', ');
+
   const ts = `/**
  * Auto-generated Contract Configuration
- * 
+ *
  * Generated by: scripts/generate-config.ts
- * Source: deployments/local.json
- * 
+ * Source: deployments/*.json - ${sources}
+ *
  * DO NOT EDIT THIS FILE MANUALLY
  */
 
-export const CHAIN_ID = ${deployment.chainId};
-export const RPC_URL = 'http://127.0.0.1:8545';
-
-export const contracts = {
-  // Core Protocol
-  ELTA: '${deployment.contracts.ELTA}' as const,
-  ElataXP: '${deployment.contracts.ElataXP}' as const,
-  VeELTA: '${deployment.contracts.VeELTA}' as const,
-  LotPool: '${deployment.contracts.LotPool}' as const,
-  RewardsDistributor: '${deployment.contracts.RewardsDistributor}' as const,
-  ElataTimelock: '${deployment.contracts.ElataTimelock}' as const,
-  ElataGovernor: '${deployment.contracts.ElataGovernor}' as const,
-  
-  // App Ecosystem
-  AppFactory: '${deployment.contracts.AppFactory}' as const,
-  AppModuleFactory: '${deployment.contracts.AppModuleFactory}' as const,
-  TournamentFactory: '${deployment.contracts.TournamentFactory}' as const,
-  
-  // Mock DEX
-  UniswapV2Factory: '${deployment.contracts.UniswapV2Factory}' as const,
-  UniswapV2Router: '${deployment.contracts.UniswapV2Router}' as const,
-} as const;
+export const CONTRACT_NAMES = ${JSON.stringify(contractNames, null, 2)} as const;
+
+export type ContractName = (typeof CONTRACT_NAMES)[number];
 
-export const testAccounts = ${JSON.stringify(deployment.testAccounts, null, 2)} as const;
+export interface ChainDeployment {
+  network: string;
+  chainId: number;
+  rpcUrl?: string;
+  deployer?: string;
+  // Block the deployment started at; event scans begin here
+  startBlock?: number;
+  contracts: Partial<Record<ContractName, \`0x\${string}\`>>;
+}
 
-export type ContractName = keyof typeof contracts;
-export type ContractAddress = typeof contracts[ContractName];
+export const deployments: Record<number, ChainDeployment> = {
+${deployments.map(formatDeployment).join('\n')}
+};
 
-// Helper to get contract address by name
-export function getContractAddress(name: ContractName): string {
-  return contracts[name];
+export const DEFAULT_CHAIN_ID = ${defaultDeployment.chainId};
+
+export const SUPPORTED_CHAIN_IDS = Object.keys(deployments).map(Number);
+
+export const testAccounts = ${JSON.stringify(defaultDeployment.testAccounts ?? [], null, 2)} as const;
+
+export function getDeployment(chainId: number): ChainDeployment | undefined {
+  return deployments[chainId];
 }
 
-// Export deployment info
-export const deploymentInfo = {
-  network: '${deployment.network}',
-  chainId: ${deployment.chainId},
-  deployer: '${deployment.deployer}',
-  timestamp: new Date().toISOString(),
-} as const;
+// Helper to get contract address by chain and name
+export function getContractAddress(chainId: number, name: ContractName): \`0x\${string}\` | undefined {
+  return deployments[chainId]?.contracts[name];
+}
 `;
 
   const configDir = join(frontendDir, 'src', 'config');
   if (!existsSync(configDir)) {
     mkdirSync(configDir, { recursive: true });
   }
-  
+
   const tsPath = join(configDir, 'contracts.ts');
   writeFileSync(tsPath, ts);
   console.log('✓ Generated src/config/contracts.ts');
@@ -171,9 +424,10 @@ export const deploymentInfo = {
 
 // Run if called directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  main();
+  main().catch((error) => {
+    console.error('❌ Config generation failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
 }
 
 export { main as generateConfig };
-
-
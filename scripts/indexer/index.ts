@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+
+/**
+ * Local Event Indexer
+ *
+ * Backfills and follows AppCreated, AppGraduated, CurveInitialized and
+ * TokensPurchased events into a JSON store, optionally serving it over HTTP.
+ *
+ * Usage:
+ *   npx tsx scripts/indexer/index.ts [--rpc <url>] [--deployment <path>]
+ *     [--factory <address>] [--from <block>] [--store <path>]
+ *     [--interval <ms>] [--confirmations <n>] [--serve <port>] [--once]
+ *
+ * Without --from, a new store starts at the manifest's startBlock (or 0).
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { createPublicClient, http, isAddress } from 'viem';
+import { JsonStore } from './store';
+import { Indexer } from './sync';
+import { serve } from './server';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const projectRoot = join(__dirname, '..', '..');
+
+interface CliOptions {
+  rpcUrl: string;
+  deploymentPath: string;
+  factory?: string;
+  fromBlock?: number;
+  storePath?: string;
+  intervalMs: number;
+  confirmations: number;
+  chunkSize: number;
+  port?: number;
+  once: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    rpcUrl: process.env.RPC_URL || 'http://127.0.0.1:8545',
+    deploymentPath: join(projectRoot, 'deployments', 'local.json'),
+    intervalMs: 2000,
+    confirmations: 0,
+    chunkSize: 2000,
+    once: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`Missing value for ${arg}`);
+      return value;
+    };
+
+    switch (arg) {
+      case '--rpc': options.rpcUrl = next(); break;
+      case '--deployment': options.deploymentPath = next(); break;
+      case '--factory': options.factory = next(); break;
+      case '--from': options.fromBlock = Number(next()); break;
+      case '--store': options.storePath = next(); break;
+      case '--interval': options.intervalMs = Number(next()); break;
+      case '--confirmations': options.confirmations = Number(next()); break;
+      case '--chunk-size': options.chunkSize = Number(next()); break;
+      case '--serve': options.port = Number(next()); break;
+      case '--once': options.once = true; break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  let factory = options.factory;
+  let fromBlock = options.fromBlock;
+  if (!factory) {
+    if (!existsSync(options.deploymentPath)) {
+      console.error(`❌ Error: ${options.deploymentPath} not found!`);
+      console.error('   Run deployment first (npm run dev:deploy) or pass --factory <address>');
+      process.exit(1);
+    }
+    const deployment = JSON.parse(readFileSync(options.deploymentPath, 'utf-8'));
+    factory = deployment.contracts?.AppFactory;
+    fromBlock ??= deployment.startBlock;
+  }
+
+  if (!factory || !isAddress(factory)) {
+    console.error(`❌ Error: invalid AppFactory address: ${factory}`);
+    process.exit(1);
+  }
+
+  const client = createPublicClient({ transport: http(options.rpcUrl) });
+  const chainId = await client.getChainId();
+
+  const storePath = options.storePath ?? join(projectRoot, '.local', 'indexer', `${chainId}.json`);
+  const store = new JsonStore(storePath, { chainId, factory, startBlock: fromBlock ?? 0 });
+  const indexer = new Indexer(client, store, {
+    chunkSize: options.chunkSize,
+    confirmations: options.confirmations,
+  });
+
+  console.log('🔎 Elata event indexer');
+  console.log(`   RPC:      ${options.rpcUrl} (chain ${chainId})`);
+  console.log(`   Factory:  ${factory}`);
+  console.log(`   Store:    ${storePath}`);
+  console.log(`   Resuming: block ${store.state.lastBlock + 1}\n`);
+
+  const indexed = await indexer.syncToHead();
+  console.log(`✓ Backfill complete: ${indexed} events, last block ${store.state.lastBlock}`);
+
+  if (options.once) return;
+
+  if (options.port) {
+    serve(store, options.port);
+    console.log(`✓ Serving http://127.0.0.1:${options.port}`);
+  }
+
+  let stopping = false;
+  process.on('SIGINT', () => {
+    console.log('\nStopping indexer...');
+    stopping = true;
+    process.exit(0);
+  });
+
+  await indexer.follow(options.intervalMs, () => stopping);
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    console.error('❌ Indexer failed:', error);
+    process.exit(1);
+  });
+}
+
+export { main as runIndexer };
@@ -0,0 +1,54 @@
+/**
+ * Minimal read-only HTTP API over the indexer store.
+ *
+ *   GET /status              chainId, factory and last indexed block
+ *   GET /apps                all indexed apps
+ *   GET /apps/:id            single app
+ *   GET /apps/:id/trades     TokensPurchased history for an app
+ *   GET /curves/:address     app owning a bonding curve
+ */
+
+import { createServer, type Server } from 'http';
+import type { JsonStore } from './store';
+
+export function serve(store: JsonStore, port: number): Server {
+  const server = createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== 'GET') return send(405, { error: 'Method not allowed' });
+
+    const { state } = store;
+    const parts = new URL(req.url ?? '/', 'http://localhost').pathname.split('/').filter(Boolean);
+
+    if (parts.length === 1 && parts[0] === 'status') {
+      return send(200, { chainId: state.chainId, factory: state.factory, lastBlock: state.lastBlock });
+    }
+
+    if (parts[0] === 'apps') {
+      if (parts.length === 1) return send(200, Object.values(state.apps));
+
+      const app = state.apps[parts[1]];
+      if (!app) return send(404, { error: 'App not found' });
+      if (parts.length === 2) return send(200, app);
+      if (parts.length === 3 && parts[2] === 'trades') {
+        return send(200, state.trades.filter((trade) => trade.appId === app.appId));
+      }
+    }
+
+    if (parts.length === 2 && parts[0] === 'curves') {
+      const app = store.appByCurve(parts[1]);
+      return app ? send(200, app) : send(404, { error: 'App not found' });
+    }
+
+    send(404, { error: 'Not found' });
+  });
+
+  server.listen(port);
+  return server;
+}
@@ -0,0 +1,150 @@
+/**
+ * JSON-backed store for indexed AppFactory / AppBondingCurve events.
+ *
+ * Amounts are kept as decimal strings so the file round-trips through
+ * JSON without losing bigint precision.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from 'fs';
+import { dirname } from 'path';
+
+// Number of recent block hashes kept for reorg detection
+const MAX_TRACKED_BLOCKS = 256;
+
+export interface EventRef {
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+  timestamp: number;
+}
+
+export interface IndexedCurve {
+  seedElta: string;
+  tokenSupply: string;
+  initialK: string;
+  initializedAt: EventRef;
+}
+
+export interface IndexedGraduation {
+  pair: string;
+  locker: string;
+  unlockAt: number;
+  totalRaised: string;
+  finalSupply: string;
+  graduatedAt: EventRef;
+}
+
+export interface IndexedApp {
+  appId: number;
+  creator: string;
+  token: string;
+  vault: string;
+  curve: string;
+  creatorStaked: string;
+  createdAt: EventRef;
+  curveState?: IndexedCurve;
+  graduation?: IndexedGraduation;
+}
+
+export interface IndexedTrade {
+  appId: number;
+  buyer: string;
+  eltaIn: string;
+  tokensOut: string;
+  newReserveElta: string;
+  newReserveToken: string;
+  newPrice: string;
+  event: EventRef;
+}
+
+export interface TrackedBlock {
+  number: number;
+  hash: string;
+}
+
+export interface IndexerState {
+  chainId: number;
+  factory: string;
+  startBlock: number;
+  lastBlock: number; // last fully indexed block (startBlock - 1 before first sync)
+  blocks: TrackedBlock[];
+  apps: Record<string, IndexedApp>;
+  trades: IndexedTrade[];
+}
+
+export class JsonStore {
+  state: IndexerState;
+
+  constructor(private readonly path: string, initial: Omit<IndexerState, 'lastBlock' | 'blocks' | 'apps' | 'trades'>) {
+    const existing = existsSync(path) ? (JSON.parse(readFileSync(path, 'utf-8')) as IndexerState) : undefined;
+
+    // A store written for another chain or factory (e.g. after an anvil restart) is discarded
+    if (
+      existing &&
+      existing.chainId === initial.chainId &&
+      existing.factory.toLowerCase() === initial.factory.toLowerCase()
+    ) {
+      this.state = existing;
+    } else {
+      this.state = {
+        ...initial,
+        lastBlock: initial.startBlock - 1,
+        blocks: [],
+        apps: {},
+        trades: [],
+      };
+    }
+  }
+
+  get curves(): string[] {
+    return Object.values(this.state.apps).map((app) => app.curve);
+  }
+
+  appByCurve(curve: string): IndexedApp | undefined {
+    return Object.values(this.state.apps).find((app) => app.curve.toLowerCase() === curve.toLowerCase());
+  }
+
+  trackBlock(block: TrackedBlock) {
+    const blocks = this.state.blocks.filter((b) => b.number !== block.number);
+    blocks.push(block);
+    blocks.sort((a, b) => a.number - b.number);
+    this.state.blocks = blocks.slice(-MAX_TRACKED_BLOCKS);
+  }
+
+  /**
+   * Drop everything recorded after `blockNumber`.
+   */
+  rollback(blockNumber: number) {
+    const { state } = this;
+
+    for (const [id, app] of Object.entries(state.apps)) {
+      if (app.createdAt.blockNumber > blockNumber) {
+        delete state.apps[id];
+        continue;
+      }
+      if (app.curveState && app.curveState.initializedAt.blockNumber > blockNumber) {
+        delete app.curveState;
+      }
+      if (app.graduation && app.graduation.graduatedAt.blockNumber > blockNumber) {
+        delete app.graduation;
+      }
+    }
+
+    state.trades = state.trades.filter((trade) => trade.event.blockNumber <= blockNumber);
+    state.blocks = state.blocks.filter((b) => b.number <= blockNumber);
+    state.lastBlock = Math.min(state.lastBlock, blockNumber);
+  }
+
+  save() {
+    const dir = dirname(this.path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    // Write then rename so readers never see a half-written file
+    const tmpPath = `${this.path}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(this.state, null, 2));
+    renameSync(tmpPath, this.path);
+  }
+}
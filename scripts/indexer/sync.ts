@@ -0,0 +1,209 @@
+/**
+ * Event sync for AppFactory and AppBondingCurve.
+ *
+ * Backfills in fixed-size block ranges, then follows the chain head by
+ * polling. Before each pass the newest tracked block hash is compared to
+ * the chain; on mismatch the store is rolled back to the last block whose
+ * hash still matches and re-indexed from there.
+ */
+
+import type { Address, PublicClient } from 'viem';
+import { AppFactoryABI, AppBondingCurveABI } from '../../sdk/src/abi';
+import type { EventRef, JsonStore } from './store';
+
+export interface SyncOptions {
+  chunkSize: number;
+  confirmations: number;
+}
+
+interface RawLogRef {
+  blockNumber: bigint | null;
+  blockHash: `0x${string}` | null;
+  transactionHash: `0x${string}` | null;
+  logIndex: number | null;
+}
+
+export class Indexer {
+  private timestamps = new Map<number, number>();
+
+  constructor(
+    private readonly client: PublicClient,
+    private readonly store: JsonStore,
+    private readonly options: SyncOptions
+  ) {}
+
+  /**
+   * Returns the block to roll back to if the chain no longer contains
+   * the newest tracked block, or undefined if nothing changed.
+   */
+  async detectReorg(): Promise<number | undefined> {
+    const { blocks, startBlock } = this.store.state;
+
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      const tracked = blocks[i];
+      const onChain = await this.client
+        .getBlock({ blockNumber: BigInt(tracked.number) })
+        .catch(() => undefined);
+
+      if (onChain?.hash === tracked.hash) {
+        return i === blocks.length - 1 ? undefined : tracked.number;
+      }
+    }
+
+    // No tracked block survived (or none tracked yet)
+    return blocks.length > 0 ? startBlock - 1 : undefined;
+  }
+
+  async syncToHead(): Promise<number> {
+    const rollbackTo = await this.detectReorg();
+    if (rollbackTo !== undefined) {
+      console.log(`⚠️  Reorg detected, rolling back to block ${rollbackTo}`);
+      this.store.rollback(rollbackTo);
+      this.timestamps.clear();
+      this.store.save();
+    }
+
+    const latest = Number(await this.client.getBlockNumber());
+    const head = latest - this.options.confirmations;
+    let indexed = 0;
+
+    while (this.store.state.lastBlock < head) {
+      const from = this.store.state.lastBlock + 1;
+      const to = Math.min(from + this.options.chunkSize - 1, head);
+
+      indexed += await this.syncRange(from, to);
+
+      const end = await this.client.getBlock({ blockNumber: BigInt(to) });
+      this.store.trackBlock({ number: to, hash: end.hash });
+      this.store.state.lastBlock = to;
+      this.store.save();
+    }
+
+    return indexed;
+  }
+
+  async follow(intervalMs: number, shouldStop: () => boolean) {
+    while (!shouldStop()) {
+      try {
+        const indexed = await this.syncToHead();
+        if (indexed > 0) {
+          console.log(`✓ Indexed ${indexed} events up to block ${this.store.state.lastBlock}`);
+        }
+      } catch (error) {
+        console.error('❌ Sync failed, retrying:', error instanceof Error ? error.message : error);
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+  }
+
+  private async syncRange(from: number, to: number): Promise<number> {
+    const fromBlock = BigInt(from);
+    const toBlock = BigInt(to);
+    const { state } = this.store;
+
+    // Factory events first: AppCreated is how new curves are discovered
+    const factoryLogs = await this.client.getContractEvents({
+      address: state.factory as Address,
+      abi: AppFactoryABI,
+      fromBlock,
+      toBlock,
+      strict: true,
+    });
+
+    for (const log of factoryLogs) {
+      const ref = await this.toEventRef(log);
+
+      if (log.eventName === 'AppCreated') {
+        const { appId, creator, token, vault, curve, creatorStaked } = log.args;
+        state.apps[appId.toString()] = {
+          appId: Number(appId),
+          creator,
+          token,
+          vault,
+          curve,
+          creatorStaked: creatorStaked.toString(),
+          createdAt: ref,
+        };
+      } else if (log.eventName === 'AppGraduated') {
+        const { appId, pair, locker, unlockAt, totalRaised, finalSupply } = log.args;
+        const app = state.apps[appId.toString()];
+        if (app) {
+          app.graduation = {
+            pair,
+            locker,
+            unlockAt: Number(unlockAt),
+            totalRaised: totalRaised.toString(),
+            finalSupply: finalSupply.toString(),
+            graduatedAt: ref,
+          };
+        }
+      }
+    }
+
+    const curves = this.store.curves;
+    if (curves.length === 0) return factoryLogs.length;
+
+    const curveLogs = await this.client.getContractEvents({
+      address: curves as Address[],
+      abi: AppBondingCurveABI,
+      fromBlock,
+      toBlock,
+      strict: true,
+    });
+
+    let curveEvents = 0;
+    for (const log of curveLogs) {
+      const app = this.store.appByCurve(log.address);
+      if (!app) continue;
+
+      if (log.eventName === 'CurveInitialized') {
+        const { seedElta, tokenSupply, initialK } = log.args;
+        app.curveState = {
+          seedElta: seedElta.toString(),
+          tokenSupply: tokenSupply.toString(),
+          initialK: initialK.toString(),
+          initializedAt: await this.toEventRef(log),
+        };
+        curveEvents++;
+      } else if (log.eventName === 'TokensPurchased') {
+        const { buyer, eltaIn, tokensOut, newReserveElta, newReserveToken, newPrice } = log.args;
+        state.trades.push({
+          appId: app.appId,
+          buyer,
+          eltaIn: eltaIn.toString(),
+          tokensOut: tokensOut.toString(),
+          newReserveElta: newReserveElta.toString(),
+          newReserveToken: newReserveToken.toString(),
+          newPrice: newPrice.toString(),
+          event: await this.toEventRef(log),
+        });
+        curveEvents++;
+      }
+    }
+
+    return factoryLogs.length + curveEvents;
+  }
+
+  private async toEventRef(log: RawLogRef): Promise<EventRef> {
+    if (log.blockNumber === null || log.blockHash === null || log.transactionHash === null || log.logIndex === null) {
+      throw new Error('Received pending log');
+    }
+
+    const blockNumber = Number(log.blockNumber);
+    let timestamp = this.timestamps.get(blockNumber);
+    if (timestamp === undefined) {
+      const block = await this.client.getBlock({ blockHash: log.blockHash });
+      timestamp = Number(block.timestamp);
+      this.timestamps.set(blockNumber, timestamp);
+      this.store.trackBlock({ number: blockNumber, hash: log.blockHash });
+    }
+
+    return {
+      blockNumber,
+      blockHash: log.blockHash,
+      txHash: log.transactionHash,
+      logIndex: log.logIndex,
+      timestamp,
+    };
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * In-memory chain behind a viem custom transport: enough JSON-RPC for the
+ * indexer (blocks, logs, head), with reorgs that replace the newest blocks.
+ */
+
+import {
+  createPublicClient,
+  custom,
+  encodeAbiParameters,
+  encodeEventTopics,
+  keccak256,
+  toHex,
+  type Abi,
+  type AbiEvent,
+  type Address,
+  type Hex,
+} from 'viem';
+
+interface FakeBlock {
+  number: number;
+  hash: Hex;
+  timestamp: number;
+}
+
+interface FakeLog {
+  address: Address;
+  topics: Hex[];
+  data: Hex;
+  blockNumber: number;
+  logIndex: number;
+}
+
+export interface EventSpec {
+  address: Address;
+  abi: Abi;
+  eventName: string;
+  args: Record<string, unknown>;
+}
+
+// First block timestamp; each block is 12 seconds after the previous one
+export const GENESIS_TIMESTAMP = 1_700_000_000;
+
+export class FakeChain {
+  blocks: FakeBlock[] = [];
+  private logs: FakeLog[] = [];
+  // Bumped on every reorg so replacement blocks get new hashes
+  private fork = 0;
+
+  readonly client = createPublicClient({
+    transport: custom({ request: ({ method, params }) => this.request(method, params) }),
+  });
+
+  constructor() {
+    this.mine();
+  }
+
+  get head(): number {
+    return this.blocks.length - 1;
+  }
+
+  /** Mine one block holding the given events, in order. */
+  mine(...events: EventSpec[]): number {
+    const number = this.blocks.length;
+    this.blocks.push({
+      number,
+      hash: keccak256(toHex(`${this.fork}:${number}`)),
+      timestamp: GENESIS_TIMESTAMP + number * 12,
+    });
+
+    events.forEach((event, logIndex) => {
+      this.logs.push({ ...encodeEvent(event), blockNumber: number, logIndex });
+    });
+    return number;
+  }
+
+  /** Drop every block after `blockNumber`, as a reorg to a shorter fork would. */
+  reorg(blockNumber: number) {
+    this.fork++;
+    this.blocks = this.blocks.slice(0, blockNumber + 1);
+    this.logs = this.logs.filter((log) => log.blockNumber <= blockNumber);
+  }
+
+  private async request(method: string, params: unknown): Promise<unknown> {
+    const args = params as unknown[];
+
+    switch (method) {
+      case 'eth_chainId':
+        return toHex(31337);
+      case 'eth_blockNumber':
+        return toHex(this.head);
+      case 'eth_getBlockByNumber':
+        return this.formatBlock(this.blocks[Number(args[0])]);
+      case 'eth_getBlockByHash':
+        return this.formatBlock(this.blocks.find((block) => block.hash === args[0]));
+      case 'eth_getLogs': {
+        const filter = args[0] as { address: Address | Address[]; fromBlock: Hex; toBlock: Hex };
+        const addresses = [filter.address].flat().map((address) => address.toLowerCase());
+        return this.logs
+          .filter(
+            (log) =>
+              addresses.includes(log.address.toLowerCase()) &&
+              log.blockNumber >= Number(filter.fromBlock) &&
+              log.blockNumber <= Number(filter.toBlock)
+          )
+          .map((log) => {
+            const block = this.blocks[log.blockNumber];
+            return {
+              address: log.address,
+              topics: log.topics,
+              data: log.data,
+              blockNumber: toHex(block.number),
+              blockHash: block.hash,
+              transactionHash: keccak256(toHex(`${block.hash}:${log.logIndex}`)),
+              transactionIndex: toHex(log.logIndex),
+              logIndex: toHex(log.logIndex),
+              removed: false,
+            };
+          });
+      }
+      default:
+        throw new Error(`FakeChain: unsupported method ${method}`);
+    }
+  }
+
+  private formatBlock(block: FakeBlock | undefined) {
+    if (!block) return null;
+    return {
+      number: toHex(block.number),
+      hash: block.hash,
+      parentHash: block.number > 0 ? this.blocks[block.number - 1].hash : toHex(0, { size: 32 }),
+      timestamp: toHex(block.timestamp),
+      gasLimit: toHex(30_000_000),
+      gasUsed: '0x0',
+      transactions: [],
+    };
+  }
+}
+
+function encodeEvent({ address, abi, eventName, args }: EventSpec) {
+  const event = abi.find((item): item is AbiEvent => item.type === 'event' && item.name === eventName);
+  if (!event) throw new Error(`FakeChain: no event ${eventName}`);
+
+  const indexed = event.inputs.filter((input) => input.indexed);
+  const data = event.inputs.filter((input) => !input.indexed);
+
+  return {
+    address,
+    topics: encodeEventTopics({
+      abi: [event],
+      args: Object.fromEntries(indexed.map((input) => [input.name!, args[input.name!]])),
+    }) as Hex[],
+    data: encodeAbiParameters(
+      data,
+      data.map((input) => args[input.name!])
+    ),
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Routes of the read-only HTTP API over the store.
+ */
+
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { mkdtempSync, rmSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JsonStore } from '../store';
+import { serve } from '../server';
+
+const factory = '0x610178dA211FEF7D417bC0e6FeD39F05609AD788';
+const curve = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+const dir = mkdtempSync(join(tmpdir(), 'elata-indexer-'));
+
+const ref = {
+  blockNumber: 2,
+  blockHash: `0x${'02'.repeat(32)}`,
+  txHash: `0x${'12'.repeat(32)}`,
+  logIndex: 0,
+  timestamp: 1_700_000_024,
+};
+
+const store = new JsonStore(join(dir, '31337.json'), { chainId: 31337, factory, startBlock: 0 });
+store.state.lastBlock = 6;
+store.state.apps['1'] = {
+  appId: 1,
+  creator: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  token: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+  vault: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+  curve,
+  creatorStaked: '500',
+  createdAt: ref,
+};
+store.state.trades = [
+  {
+    appId: 1,
+    buyer: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    eltaIn: '100',
+    tokensOut: '200',
+    newReserveElta: '1100',
+    newReserveToken: '9800',
+    newPrice: '7',
+    event: { ...ref, blockNumber: 4 },
+  },
+];
+
+const server = serve(store, 0);
+
+after(() => {
+  server.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function get(path: string) {
+  if (!server.listening) await once(server, 'listening');
+  const { port } = server.address() as AddressInfo;
+  const response = await fetch(`http://127.0.0.1:${port}${path}`);
+  return { status: response.status, body: await response.json() };
+}
+
+test('GET /status reports the chain, factory and last block', async () => {
+  assert.deepEqual(await get('/status'), { status: 200, body: { chainId: 31337, factory, lastBlock: 6 } });
+});
+
+test('GET /apps/:id and /apps/:id/trades', async () => {
+  const app = await get('/apps/1');
+  assert.equal(app.status, 200);
+  assert.equal(app.body.curve, curve);
+
+  const trades = await get('/apps/1/trades');
+  assert.deepEqual(
+    trades.body.map((trade: { eltaIn: string }) => trade.eltaIn),
+    ['100']
+  );
+
+  assert.equal((await get('/apps/2')).status, 404);
+});
+
+test('GET /curves/:address finds the app by curve, case-insensitively', async () => {
+  const app = await get(`/curves/${curve.toLowerCase()}`);
+  assert.equal(app.status, 200);
+  assert.equal(app.body.appId, 1);
+
+  assert.equal((await get(`/curves/${factory}`)).status, 404);
+  assert.equal((await get('/unknown')).status, 404);
+});
@@ -0,0 +1,145 @@
+/**
+ * JsonStore persistence, block tracking and rollback.
+ */
+
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JsonStore, type EventRef, type IndexedApp } from '../store';
+
+const factory = '0x610178dA211FEF7D417bC0e6FeD39F05609AD788';
+const dirs: string[] = [];
+
+const storePath = () => {
+  const dir = mkdtempSync(join(tmpdir(), 'elata-indexer-'));
+  dirs.push(dir);
+  return join(dir, 'store', '31337.json');
+};
+
+afterEach(() => {
+  dirs.splice(0).forEach((dir) => rmSync(dir, { recursive: true, force: true }));
+});
+
+const ref = (blockNumber: number): EventRef => ({
+  blockNumber,
+  blockHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+  txHash: `0x${(blockNumber + 1000).toString(16).padStart(64, '0')}`,
+  logIndex: 0,
+  timestamp: 1_700_000_000 + blockNumber * 12,
+});
+
+const app = (appId: number, blockNumber: number): IndexedApp => ({
+  appId,
+  creator: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  token: `0x${(appId + 1).toString(16).padStart(40, '0')}`,
+  vault: `0x${(appId + 2).toString(16).padStart(40, '0')}`,
+  curve: `0x${(appId + 3).toString(16).padStart(40, 'a')}`,
+  creatorStaked: '500000000000000000000000000',
+  createdAt: ref(blockNumber),
+});
+
+const trade = (appId: number, blockNumber: number) => ({
+  appId,
+  buyer: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  eltaIn: '1000',
+  tokensOut: '10',
+  newReserveElta: '1000',
+  newReserveToken: '10',
+  newPrice: '100',
+  event: ref(blockNumber),
+});
+
+test('a new store starts just before startBlock', () => {
+  const store = new JsonStore(storePath(), { chainId: 31337, factory, startBlock: 10 });
+
+  assert.equal(store.state.lastBlock, 9);
+  assert.deepEqual(store.state.apps, {});
+  assert.deepEqual(store.state.trades, []);
+});
+
+test('save round-trips and resumes only for the same chain and factory', () => {
+  const path = storePath();
+  const store = new JsonStore(path, { chainId: 31337, factory, startBlock: 0 });
+  store.state.apps['1'] = app(1, 5);
+  store.state.lastBlock = 7;
+  store.save();
+
+  assert.ok(!existsSync(`${path}.tmp`));
+
+  const resumed = new JsonStore(path, { chainId: 31337, factory: factory.toLowerCase(), startBlock: 0 });
+  assert.equal(resumed.state.lastBlock, 7);
+  assert.deepEqual(resumed.state.apps['1'], app(1, 5));
+
+  const otherChain = new JsonStore(path, { chainId: 1, factory, startBlock: 0 });
+  assert.deepEqual(otherChain.state.apps, {});
+
+  writeFileSync(path, JSON.stringify({ ...store.state, factory: '0x5FbDB2315678afecb367f032d93F642f64180aa3' }));
+  const otherFactory = new JsonStore(path, { chainId: 31337, factory, startBlock: 0 });
+  assert.equal(otherFactory.state.lastBlock, -1);
+});
+
+test('trackBlock replaces a tracked number, keeps order and caps the history', () => {
+  const store = new JsonStore(storePath(), { chainId: 31337, factory, startBlock: 0 });
+
+  store.trackBlock({ number: 5, hash: '0x05' });
+  store.trackBlock({ number: 3, hash: '0x03' });
+  store.trackBlock({ number: 5, hash: '0x5b' });
+  assert.deepEqual(store.state.blocks, [
+    { number: 3, hash: '0x03' },
+    { number: 5, hash: '0x5b' },
+  ]);
+
+  for (let number = 10; number < 400; number++) store.trackBlock({ number, hash: '0x00' });
+  assert.equal(store.state.blocks.length, 256);
+  assert.equal(store.state.blocks[0].number, 144);
+  assert.equal(store.state.blocks.at(-1)!.number, 399);
+});
+
+test('rollback drops everything recorded after the block', () => {
+  const store = new JsonStore(storePath(), { chainId: 31337, factory, startBlock: 0 });
+  const { state } = store;
+
+  state.apps['1'] = {
+    ...app(1, 2),
+    curveState: { seedElta: '1', tokenSupply: '1', initialK: '1', initializedAt: ref(2) },
+    graduation: {
+      pair: '0x0000000000000000000000000000000000000001',
+      locker: '0x0000000000000000000000000000000000000002',
+      unlockAt: 1_800_000_000,
+      totalRaised: '1',
+      finalSupply: '1',
+      graduatedAt: ref(9),
+    },
+  };
+  state.apps['2'] = {
+    ...app(2, 4),
+    curveState: { seedElta: '1', tokenSupply: '1', initialK: '1', initializedAt: ref(6) },
+  };
+  state.apps['3'] = app(3, 8);
+  state.trades = [trade(1, 3), trade(1, 5), trade(2, 7)];
+  [2, 3, 4, 5, 6, 7, 8, 9].forEach((number) => store.trackBlock({ number, hash: '0x00' }));
+  state.lastBlock = 9;
+
+  store.rollback(5);
+
+  assert.deepEqual(Object.keys(state.apps), ['1', '2']);
+  assert.ok(state.apps['1'].curveState);
+  assert.equal(state.apps['1'].graduation, undefined);
+  assert.equal(state.apps['2'].curveState, undefined);
+  assert.deepEqual(
+    state.trades.map((t) => t.event.blockNumber),
+    [3, 5]
+  );
+  assert.deepEqual(
+    state.blocks.map((b) => b.number),
+    [2, 3, 4, 5]
+  );
+  assert.equal(state.lastBlock, 5);
+
+  // Never moves lastBlock forward
+  state.lastBlock = 3;
+  store.rollback(5);
+  assert.equal(state.lastBlock, 3);
+});
@@ -0,0 +1,168 @@
+/**
+ * Indexer backfill against an in-memory chain, and rollback + re-index
+ * when the chain reorgs under the store.
+ */
+
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AppBondingCurveABI, AppFactoryABI } from '../../../sdk/src/abi';
+import { JsonStore } from '../store';
+import { Indexer } from '../sync';
+import { FakeChain, GENESIS_TIMESTAMP, type EventSpec } from './fakeChain';
+
+const factory = '0x610178dA211FEF7D417bC0e6FeD39F05609AD788';
+const creator = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const token = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const vault = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const curve = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+const dirs: string[] = [];
+
+afterEach(() => {
+  dirs.splice(0).forEach((dir) => rmSync(dir, { recursive: true, force: true }));
+});
+
+const appCreated: EventSpec = {
+  address: factory,
+  abi: AppFactoryABI,
+  eventName: 'AppCreated',
+  args: { appId: 1n, creator, token, vault, curve, creatorStaked: 500n },
+};
+
+const curveInitialized: EventSpec = {
+  address: curve,
+  abi: AppBondingCurveABI,
+  eventName: 'CurveInitialized',
+  args: { appId: 1n, seedElta: 1000n, tokenSupply: 10_000n, initialK: 10_000_000n },
+};
+
+const purchase = (eltaIn: bigint): EventSpec => ({
+  address: curve,
+  abi: AppBondingCurveABI,
+  eventName: 'TokensPurchased',
+  args: {
+    appId: 1n,
+    buyer: creator,
+    eltaIn,
+    tokensOut: eltaIn * 2n,
+    newReserveElta: 1000n + eltaIn,
+    newReserveToken: 10_000n - eltaIn * 2n,
+    newPrice: 7n,
+  },
+});
+
+// Launch at block 2, curve initialized at 3, one buy at 4, head at 6
+function launchChain() {
+  const chain = new FakeChain();
+  chain.mine();
+  chain.mine(appCreated);
+  chain.mine(curveInitialized);
+  chain.mine(purchase(100n));
+  chain.mine();
+  chain.mine();
+  return chain;
+}
+
+function createIndexer(chain: FakeChain, confirmations = 0) {
+  const dir = mkdtempSync(join(tmpdir(), 'elata-indexer-'));
+  dirs.push(dir);
+  const store = new JsonStore(join(dir, '31337.json'), { chainId: 31337, factory, startBlock: 1 });
+  return { store, indexer: new Indexer(chain.client, store, { chunkSize: 2, confirmations }) };
+}
+
+test('syncToHead backfills launches, curves and trades in chunks', async () => {
+  const chain = launchChain();
+  const { store, indexer } = createIndexer(chain, 1);
+
+  assert.equal(await indexer.syncToHead(), 3);
+
+  const { state } = store;
+  assert.equal(state.lastBlock, 5);
+  assert.deepEqual(Object.keys(state.apps), ['1']);
+
+  const app = state.apps['1'];
+  assert.equal(app.creator, creator);
+  assert.equal(app.curve, curve);
+  assert.equal(app.creatorStaked, '500');
+  assert.equal(app.createdAt.blockNumber, 2);
+  assert.equal(app.createdAt.timestamp, GENESIS_TIMESTAMP + 2 * 12);
+  assert.equal(app.curveState?.seedElta, '1000');
+  assert.equal(app.curveState?.initializedAt.blockNumber, 3);
+
+  assert.equal(state.trades.length, 1);
+  assert.equal(state.trades[0].eltaIn, '100');
+  assert.equal(state.trades[0].event.timestamp, GENESIS_TIMESTAMP + 4 * 12);
+  assert.equal(state.trades[0].event.blockHash, chain.blocks[4].hash);
+
+  // Nothing new until the head moves
+  assert.equal(await indexer.syncToHead(), 0);
+});
+
+test('syncToHead records graduation from the factory', async () => {
+  const chain = launchChain();
+  chain.mine({
+    address: factory,
+    abi: AppFactoryABI,
+    eventName: 'AppGraduated',
+    args: {
+      appId: 1n,
+      token,
+      pair: '0x0000000000000000000000000000000000000001',
+      locker: '0x0000000000000000000000000000000000000002',
+      unlockAt: 1_800_000_000n,
+      totalRaised: 42_000n,
+      finalSupply: 9_000n,
+    },
+  });
+  const { store, indexer } = createIndexer(chain);
+
+  await indexer.syncToHead();
+
+  const graduation = store.state.apps['1'].graduation;
+  assert.equal(graduation?.unlockAt, 1_800_000_000);
+  assert.equal(graduation?.totalRaised, '42000');
+  assert.equal(graduation?.graduatedAt.blockNumber, 7);
+});
+
+test('detectReorg finds the newest tracked block still on chain', async () => {
+  const chain = launchChain();
+  const { indexer } = createIndexer(chain);
+  await indexer.syncToHead();
+
+  assert.equal(await indexer.detectReorg(), undefined);
+
+  chain.reorg(3);
+  chain.mine();
+  assert.equal(await indexer.detectReorg(), 3);
+
+  chain.reorg(0);
+  chain.mine();
+  // No tracked block survived: start over
+  assert.equal(await indexer.detectReorg(), 0);
+});
+
+test('syncToHead rolls back a reorg and re-indexes the new fork', async () => {
+  const chain = launchChain();
+  const { store, indexer } = createIndexer(chain);
+  await indexer.syncToHead();
+
+  // Block 4 (the buy) is replaced by a block with a different buy
+  chain.reorg(3);
+  chain.mine(purchase(250n));
+  chain.mine();
+  chain.mine();
+
+  await indexer.syncToHead();
+
+  const { state } = store;
+  assert.equal(state.lastBlock, 6);
+  assert.ok(state.apps['1'].curveState);
+  assert.deepEqual(
+    state.trades.map((trade) => trade.eltaIn),
+    ['250']
+  );
+  assert.equal(state.trades[0].event.blockHash, chain.blocks[4].hash);
+  assert.ok(state.blocks.every((block) => chain.blocks[block.number].hash === block.hash));
+});
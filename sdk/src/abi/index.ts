@@ -0,0 +1,26 @@
+// Auto-generated by scripts/generate-abis.ts - DO NOT EDIT
+
+export { AppAccess1155ABI } from './AppAccess1155';
+export { AppBondingCurveABI } from './AppBondingCurve';
+export { AppFactoryABI } from './AppFactory';
+export { AppFactoryViewsABI } from './AppFactoryViews';
+export { AppFeeRouterABI } from './AppFeeRouter';
+export { AppModuleFactoryABI } from './AppModuleFactory';
+export { AppRewardsDistributorABI } from './AppRewardsDistributor';
+export { AppStakingVaultABI } from './AppStakingVault';
+export { AppTokenABI } from './AppToken';
+export { ELTAABI } from './ELTA';
+export { ERC20ABI } from './ERC20';
+export { ERC20PermitABI } from './ERC20Permit';
+export { ElataGovernorABI } from './ElataGovernor';
+export { ElataTimelockABI } from './ElataTimelock';
+export { ElataXPABI } from './ElataXP';
+export { EpochRewardsABI } from './EpochRewards';
+export { ErrorsABI } from './Errors';
+export { LotPoolABI } from './LotPool';
+export { LpLockerABI } from './LpLocker';
+export { ProtocolStatsABI } from './ProtocolStats';
+export { RewardsDistributorABI } from './RewardsDistributor';
+export { TournamentABI } from './Tournament';
+export { TournamentFactoryABI } from './TournamentFactory';
+export { VeELTAABI } from './VeELTA';
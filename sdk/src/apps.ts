@@ -0,0 +1,152 @@
+import { decodeEventLog, encodeEventTopics, type Address, type Hex } from 'viem';
+import { AppFactoryABI, AppFactoryViewsABI, AppTokenABI, LpLockerABI } from './abi';
+import { requireAddress, writeCall, type ElataContext } from './client';
+import type { App, AppMetadata, LaunchParameters, LaunchStats, LpLockerState } from './types';
+
+// AppToken views holding app metadata, in AppMetadata order
+export const TOKEN_METADATA_FIELDS = ['name', 'symbol', 'appDescription', 'appImageURI', 'appWebsite'] as const;
+
+export const appFactoryCalls = (address: Address) => ({
+  appCount: () => ({ address, abi: AppFactoryABI, functionName: 'appCount' }) as const,
+  getApp: (appId: bigint) => ({ address, abi: AppFactoryABI, functionName: 'getApp', args: [appId] }) as const,
+  seedElta: () => ({ address, abi: AppFactoryABI, functionName: 'seedElta' }) as const,
+  targetRaisedElta: () => ({ address, abi: AppFactoryABI, functionName: 'targetRaisedElta' }) as const,
+  creationFee: () => ({ address, abi: AppFactoryABI, functionName: 'creationFee' }) as const,
+  defaultSupply: () => ({ address, abi: AppFactoryABI, functionName: 'defaultSupply' }) as const,
+  createApp: (
+    name: string,
+    symbol: string,
+    supply: bigint,
+    description: string,
+    imageURI: string,
+    website: string
+  ) => ({
+    address,
+    abi: AppFactoryABI,
+    functionName: 'createApp',
+    args: [name, symbol, supply, description, imageURI, website],
+  }) as const,
+});
+
+export const appFactoryViewsCalls = (address: Address) => ({
+  getCreatorApps: (creator: Address) =>
+    ({ address, abi: AppFactoryViewsABI, functionName: 'getCreatorApps', args: [creator] }) as const,
+  getAppIdFromToken: (token: Address) =>
+    ({ address, abi: AppFactoryViewsABI, functionName: 'getAppIdFromToken', args: [token] }) as const,
+  getTotalCreationCost: () => ({ address, abi: AppFactoryViewsABI, functionName: 'getTotalCreationCost' }) as const,
+  getParameters: () => ({ address, abi: AppFactoryViewsABI, functionName: 'getParameters' }) as const,
+  getGraduatedApps: () => ({ address, abi: AppFactoryViewsABI, functionName: 'getGraduatedApps' }) as const,
+  getLaunchStats: () => ({ address, abi: AppFactoryViewsABI, functionName: 'getLaunchStats' }) as const,
+});
+
+export const appTokenCalls = (address: Address) => ({
+  name: () => ({ address, abi: AppTokenABI, functionName: 'name' }) as const,
+  symbol: () => ({ address, abi: AppTokenABI, functionName: 'symbol' }) as const,
+  appDescription: () => ({ address, abi: AppTokenABI, functionName: 'appDescription' }) as const,
+  appImageURI: () => ({ address, abi: AppTokenABI, functionName: 'appImageURI' }) as const,
+  appWebsite: () => ({ address, abi: AppTokenABI, functionName: 'appWebsite' }) as const,
+  decimals: () => ({ address, abi: AppTokenABI, functionName: 'decimals' }) as const,
+  totalSupply: () => ({ address, abi: AppTokenABI, functionName: 'totalSupply' }) as const,
+  maxSupply: () => ({ address, abi: AppTokenABI, functionName: 'maxSupply' }) as const,
+  appCreator: () => ({ address, abi: AppTokenABI, functionName: 'appCreator' }) as const,
+  updateMetadata: (description: string, imageURI: string, website: string) => ({
+    address,
+    abi: AppTokenABI,
+    functionName: 'updateMetadata',
+    args: [description, imageURI, website],
+  }) as const,
+});
+
+export const lpLockerCalls = (address: Address) => ({
+  getLockedBalance: () => ({ address, abi: LpLockerABI, functionName: 'getLockedBalance' }) as const,
+  beneficiary: () => ({ address, abi: LpLockerABI, functionName: 'beneficiary' }) as const,
+  unlockAt: () => ({ address, abi: LpLockerABI, functionName: 'unlockAt' }) as const,
+  timeUntilUnlock: () => ({ address, abi: LpLockerABI, functionName: 'timeUntilUnlock' }) as const,
+  canClaim: () => ({ address, abi: LpLockerABI, functionName: 'canClaim' }) as const,
+  claimed: () => ({ address, abi: LpLockerABI, functionName: 'claimed' }) as const,
+  claim: () => ({ address, abi: LpLockerABI, functionName: 'claim' }) as const,
+});
+
+export function toLaunchStats(result: readonly [bigint, bigint, bigint, bigint]): LaunchStats {
+  const [totalApps, graduatedApps, totalValueLocked, totalFeesCollected] = result;
+  return { totalApps, graduatedApps, totalValueLocked, totalFeesCollected };
+}
+
+export function toLaunchParameters(
+  result: readonly [bigint, bigint, bigint, bigint, bigint, number, bigint]
+): LaunchParameters {
+  const [seed, creation, target, supply, lpLock, decimals, protocolFee] = result;
+  return { seed, creation, target, supply, lpLock, decimals, protocolFee };
+}
+
+/**
+ * The AppCreated event from a createApp receipt. createApp does not write
+ * metadata, so callers need the new token address to follow up with
+ * updateMetadata.
+ */
+export function parseAppCreated(logs: readonly { address: Address; data: Hex; topics: readonly Hex[] }[]) {
+  // Only data and topics are decoded; EIP-5792 bundle receipts carry nothing else
+  const [selector] = encodeEventTopics({ abi: AppFactoryABI, eventName: 'AppCreated' });
+  for (const { data, topics: [signature, ...args] } of logs) {
+    if (!signature || signature !== selector) continue;
+    try {
+      return decodeEventLog({ abi: AppFactoryABI, eventName: 'AppCreated', data, topics: [signature, ...args] }).args;
+    } catch {
+      // Same signature with a different indexed layout; not the factory's event
+    }
+  }
+  return undefined;
+}
+
+export function createAppsModule(ctx: ElataContext) {
+  const factory = () => appFactoryCalls(requireAddress(ctx, 'AppFactory'));
+  const views = () => appFactoryViewsCalls(requireAddress(ctx, 'AppFactoryViews'));
+  const { publicClient } = ctx;
+
+  return {
+    getAppCount: () => publicClient.readContract(factory().appCount()),
+
+    getApp: async (appId: bigint): Promise<App> => publicClient.readContract(factory().getApp(appId)),
+
+    getAppMetadata: async (token: Address): Promise<AppMetadata> => {
+      const calls = appTokenCalls(token);
+      const [name, symbol, description, imageURI, website] = await publicClient.multicall({
+        contracts: [calls.name(), calls.symbol(), calls.appDescription(), calls.appImageURI(), calls.appWebsite()],
+        allowFailure: false,
+      });
+      return { name, symbol, description, imageURI, website };
+    },
+
+    getCreatorApps: (creator: Address) => publicClient.readContract(views().getCreatorApps(creator)),
+
+    getLaunchStats: async () => toLaunchStats(await publicClient.readContract(views().getLaunchStats())),
+
+    getParameters: async () => toLaunchParameters(await publicClient.readContract(views().getParameters())),
+
+    getTotalCreationCost: () => publicClient.readContract(views().getTotalCreationCost()),
+
+    getLockerState: async (locker: Address): Promise<LpLockerState> => {
+      const calls = lpLockerCalls(locker);
+      const [lockedBalance, beneficiary, unlockAt, timeUntilUnlock, canClaim, claimed] = await publicClient.multicall({
+        contracts: [
+          calls.getLockedBalance(),
+          calls.beneficiary(),
+          calls.unlockAt(),
+          calls.timeUntilUnlock(),
+          calls.canClaim(),
+          calls.claimed(),
+        ],
+        allowFailure: false,
+      });
+      return { lockedBalance, beneficiary, unlockAt, timeUntilUnlock, canClaim, claimed };
+    },
+
+    createApp: (...args: Parameters<ReturnType<typeof appFactoryCalls>['createApp']>) =>
+      writeCall(ctx, factory().createApp(...args)),
+
+    updateMetadata: (token: Address, description: string, imageURI: string, website: string) =>
+      writeCall(ctx, appTokenCalls(token).updateMetadata(description, imageURI, website)),
+
+    claimLp: (locker: Address) => writeCall(ctx, lpLockerCalls(locker).claim()),
+  };
+}
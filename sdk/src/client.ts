@@ -0,0 +1,88 @@
+import type {
+  Abi,
+  Account,
+  Address,
+  Chain,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  Hash,
+  PublicClient,
+  SimulateContractParameters,
+  Transport,
+  WalletClient,
+  WriteContractParameters,
+} from 'viem';
+import type { ElataAddresses, ElataContract } from './types';
+
+export type ElataWalletClient = WalletClient<Transport, Chain, Account>;
+
+export interface ElataContext {
+  publicClient: PublicClient;
+  walletClient?: ElataWalletClient;
+  addresses: ElataAddresses;
+}
+
+export function requireAddress(ctx: ElataContext, contract: ElataContract): Address {
+  const address = ctx.addresses[contract];
+  if (!address) {
+    throw new Error(`${contract} address not configured`);
+  }
+  return address;
+}
+
+export function requireWallet(ctx: ElataContext): ElataWalletClient {
+  if (!ctx.walletClient) {
+    throw new Error('A wallet client with an account and chain is required for writes');
+  }
+  return ctx.walletClient;
+}
+
+/**
+ * An SDK call builder result for a state-changing function. Typed as both
+ * viem's simulateContract and writeContract parameters, so a call reaches
+ * viem unchanged (plus the wallet's account and chain) and the function's
+ * return type is inferred from its ABI.
+ */
+export type ElataWriteCall<
+  abi extends Abi = Abi,
+  functionName extends ContractFunctionName<abi, 'nonpayable' | 'payable'> = ContractFunctionName<
+    abi,
+    'nonpayable' | 'payable'
+  >,
+  args extends ContractFunctionArgs<abi, 'nonpayable' | 'payable', functionName> = ContractFunctionArgs<
+    abi,
+    'nonpayable' | 'payable',
+    functionName
+  >,
+> = SimulateContractParameters<abi, functionName, args, Chain | undefined, Chain, Account> &
+  WriteContractParameters<abi, functionName, args, Chain, Account>;
+
+/**
+ * Run `call` through eth_call from the wallet's account. Resolves with the
+ * function's return value and a request ready for writeContract; a revert
+ * throws before anything is signed (see decodeElataError).
+ */
+export async function simulateCall<
+  const abi extends Abi,
+  functionName extends ContractFunctionName<abi, 'nonpayable' | 'payable'>,
+  const args extends ContractFunctionArgs<abi, 'nonpayable' | 'payable', functionName>,
+>(ctx: ElataContext, call: ElataWriteCall<abi, functionName, args>) {
+  const wallet = requireWallet(ctx);
+  return ctx.publicClient.simulateContract<abi, functionName, args, Chain, Account>(
+    Object.assign({}, call, { account: wallet.account, chain: wallet.chain })
+  );
+}
+
+// Every module write goes through here, so reverts surface before signing
+export async function writeCall<
+  const abi extends Abi,
+  functionName extends ContractFunctionName<abi, 'nonpayable' | 'payable'>,
+  const args extends ContractFunctionArgs<abi, 'nonpayable' | 'payable', functionName>,
+>(ctx: ElataContext, call: ElataWriteCall<abi, functionName, args>): Promise<Hash> {
+  await simulateCall(ctx, call);
+  // The simulated call itself, not the simulation's request, to keep its ABI types
+  const wallet = requireWallet(ctx);
+  return wallet.writeContract<abi, functionName, args, Chain>(
+    Object.assign({}, call, { account: wallet.account, chain: wallet.chain })
+  );
+}
@@ -0,0 +1,70 @@
+import { zeroAddress, type Address } from 'viem';
+import { AppBondingCurveABI, AppFeeRouterABI } from './abi';
+import { writeCall, type ElataContext } from './client';
+import type { CurveFees } from './curveMath';
+import type { CurveState } from './types';
+
+// Raw getCurveState() tuple as returned by the contract
+export type CurveStateTuple = readonly [bigint, bigint, bigint, boolean, bigint, bigint];
+
+export function toCurveState(state: CurveStateTuple): CurveState {
+  const [eltaReserve, tokenReserve, target, isGraduated, currentPrice, progress] = state;
+  return { eltaReserve, tokenReserve, target, isGraduated, currentPrice, progress };
+}
+
+export const bondingCurveCalls = (address: Address) => ({
+  getCurveState: () => ({ address, abi: AppBondingCurveABI, functionName: 'getCurveState' }) as const,
+  getTokensOut: (eltaIn: bigint) =>
+    ({ address, abi: AppBondingCurveABI, functionName: 'getTokensOut', args: [eltaIn] }) as const,
+  getEltaInForTokens: (tokensDesired: bigint) =>
+    ({ address, abi: AppBondingCurveABI, functionName: 'getEltaInForTokens', args: [tokensDesired] }) as const,
+  getCurrentPrice: () => ({ address, abi: AppBondingCurveABI, functionName: 'getCurrentPrice' }) as const,
+  reserveElta: () => ({ address, abi: AppBondingCurveABI, functionName: 'reserveElta' }) as const,
+  reserveToken: () => ({ address, abi: AppBondingCurveABI, functionName: 'reserveToken' }) as const,
+  targetRaisedElta: () => ({ address, abi: AppBondingCurveABI, functionName: 'targetRaisedElta' }) as const,
+  graduated: () => ({ address, abi: AppBondingCurveABI, functionName: 'graduated' }) as const,
+  pair: () => ({ address, abi: AppBondingCurveABI, functionName: 'pair' }) as const,
+  protocolFeeRate: () => ({ address, abi: AppBondingCurveABI, functionName: 'protocolFeeRate' }) as const,
+  appFeeRouter: () => ({ address, abi: AppBondingCurveABI, functionName: 'appFeeRouter' }) as const,
+  buy: (eltaIn: bigint, minTokensOut: bigint) =>
+    ({ address, abi: AppBondingCurveABI, functionName: 'buy', args: [eltaIn, minTokensOut] }) as const,
+  graduate: () => ({ address, abi: AppBondingCurveABI, functionName: 'graduate' }) as const,
+});
+
+export const feeRouterCalls = (address: Address) => ({
+  feeBps: () => ({ address, abi: AppFeeRouterABI, functionName: 'feeBps' }) as const,
+  calculateFee: (amount: bigint) =>
+    ({ address, abi: AppFeeRouterABI, functionName: 'calculateFee', args: [amount] }) as const,
+});
+
+export function createCurveModule(ctx: ElataContext) {
+  const { publicClient } = ctx;
+
+  return {
+    getCurveState: async (curve: Address) =>
+      toCurveState(await publicClient.readContract(bondingCurveCalls(curve).getCurveState())),
+
+    getTokensOut: (curve: Address, eltaIn: bigint) =>
+      publicClient.readContract(bondingCurveCalls(curve).getTokensOut(eltaIn)),
+
+    getEltaInForTokens: (curve: Address, tokensDesired: bigint) =>
+      publicClient.readContract(bondingCurveCalls(curve).getEltaInForTokens(tokensDesired)),
+
+    // Fee parameters for quoteBuy(); feeBps is 0 when the curve has no fee router
+    getFees: async (curve: Address): Promise<CurveFees> => {
+      const calls = bondingCurveCalls(curve);
+      const [protocolFeeRate, feeRouter] = await Promise.all([
+        publicClient.readContract(calls.protocolFeeRate()),
+        publicClient.readContract(calls.appFeeRouter()),
+      ]);
+      const feeBps =
+        feeRouter === zeroAddress ? 0n : await publicClient.readContract(feeRouterCalls(feeRouter).feeBps());
+      return { protocolFeeRate, feeBps };
+    },
+
+    buy: (curve: Address, eltaIn: bigint, minTokensOut: bigint) =>
+      writeCall(ctx, bondingCurveCalls(curve).buy(eltaIn, minTokensOut)),
+
+    graduate: (curve: Address) => writeCall(ctx, bondingCurveCalls(curve).graduate()),
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Offline bonding curve math.
+ *
+ * Pure bigint ports of AppBondingCurve and AppFeeRouter with the same
+ * integer rounding (Solidity division truncates, as does bigint `/`), so
+ * quotes match the contracts to the wei without an RPC round-trip.
+ */
+
+import type { CurveState } from './types';
+
+export const BPS_DENOMINATOR = 10_000n;
+export const PRICE_PRECISION = 10n ** 18n;
+
+// The subset of getCurveState() the math depends on
+export type CurveReserves = Pick<CurveState, 'eltaReserve' | 'tokenReserve' | 'target' | 'isGraduated'>;
+
+export interface CurveFees {
+  // AppBondingCurve.protocolFeeRate (bps taken from the ELTA sent, paid to treasury)
+  protocolFeeRate: bigint;
+  // AppFeeRouter.feeBps (0n when the curve has no fee router)
+  feeBps: bigint;
+}
+
+export interface BuyQuote {
+  // ELTA accepted by the curve (capped at the amount left to the target)
+  eltaIn: bigint;
+  tokensOut: bigint;
+  // feeBps on eltaIn, pulled by the curve on top of eltaIn
+  tradingFee: bigint;
+  // protocolFeeRate on eltaIn, deducted before it reaches the reserve
+  protocolFee: bigint;
+  // feeBps on the net amount, pulled by AppFeeRouter directly from the buyer
+  routerFee: bigint;
+  // ELTA sent back when the buy overshoots the target
+  refund: bigint;
+  // Amounts the buyer must approve: the curve and the fee router
+  curveAllowance: bigint;
+  routerAllowance: bigint;
+  // Net ELTA leaving the buyer's wallet
+  totalCost: bigint;
+  // Curve state after the trade, as emitted in TokensPurchased
+  reserveElta: bigint;
+  reserveToken: bigint;
+  newPrice: bigint;
+  graduates: boolean;
+}
+
+/**
+ * AppFeeRouter.calculateFee
+ */
+export function calculateFee(amount: bigint, feeBps: bigint): bigint {
+  return (amount * feeBps) / BPS_DENOMINATOR;
+}
+
+/**
+ * AppBondingCurve.getTokensOut
+ */
+export function getTokensOut(curve: CurveReserves, eltaIn: bigint): bigint {
+  if (curve.isGraduated || eltaIn === 0n || curve.eltaReserve === 0n) return 0n;
+
+  const k = curve.eltaReserve * curve.tokenReserve;
+  const newReserveToken = k / (curve.eltaReserve + eltaIn);
+  return curve.tokenReserve - newReserveToken;
+}
+
+/**
+ * AppBondingCurve.getEltaInForTokens
+ */
+export function getEltaInForTokens(curve: CurveReserves, tokensDesired: bigint): bigint {
+  if (curve.isGraduated || tokensDesired === 0n || tokensDesired >= curve.tokenReserve) return 0n;
+
+  const k = curve.eltaReserve * curve.tokenReserve;
+  const newReserveElta = k / (curve.tokenReserve - tokensDesired);
+  return newReserveElta - curve.eltaReserve;
+}
+
+/**
+ * AppBondingCurve.getCurrentPrice (ELTA per token, scaled by 1e18)
+ */
+export function getCurrentPrice(curve: CurveReserves): bigint {
+  if (curve.tokenReserve === 0n) return 0n;
+  return (curve.eltaReserve * PRICE_PRECISION) / curve.tokenReserve;
+}
+
+/**
+ * Graduation progress in basis points, as in getCurveState()
+ */
+export function getProgress(curve: CurveReserves): bigint {
+  if (curve.target === 0n) return 0n;
+  return (curve.eltaReserve * BPS_DENOMINATOR) / curve.target;
+}
+
+/**
+ * Simulate AppBondingCurve.buy. Throws with the contract's error name
+ * where buy() would revert (slippage aside, which depends on minTokensOut).
+ */
+export function quoteBuy(curve: CurveReserves, eltaIn: bigint, fees: CurveFees): BuyQuote {
+  if (curve.isGraduated) throw new Error('AlreadyGraduated: curve has graduated');
+  if (eltaIn === 0n) throw new Error('ZeroInput: eltaIn is zero');
+  if (curve.eltaReserve === 0n) throw new Error('NotInitialized: curve has no reserves');
+
+  const remainingToTarget = curve.target > curve.eltaReserve ? curve.target - curve.eltaReserve : 0n;
+  const acceptedElta = eltaIn > remainingToTarget ? remainingToTarget : eltaIn;
+  if (acceptedElta === 0n) throw new Error('InvalidAmount: target already reached');
+
+  // Tokens are priced on the gross amount, before the protocol fee comes off
+  const tokensOut = getTokensOut(curve, acceptedElta);
+  const tradingFee = calculateFee(acceptedElta, fees.feeBps);
+  const protocolFee = (acceptedElta * fees.protocolFeeRate) / BPS_DENOMINATOR;
+  const netElta = acceptedElta - protocolFee;
+  const routerFee = calculateFee(netElta, fees.feeBps);
+  const refund = eltaIn - netElta - protocolFee;
+
+  const reserveElta = curve.eltaReserve + netElta;
+  const reserveToken = curve.tokenReserve - tokensOut;
+
+  return {
+    eltaIn: acceptedElta,
+    tokensOut,
+    tradingFee,
+    protocolFee,
+    routerFee,
+    refund,
+    curveAllowance: eltaIn + tradingFee,
+    routerAllowance: routerFee,
+    totalCost: eltaIn + tradingFee + routerFee - refund,
+    reserveElta,
+    reserveToken,
+    newPrice: reserveToken > 0n ? (reserveElta * PRICE_PRECISION) / reserveToken : 0n,
+    graduates: reserveElta >= curve.target,
+  };
+}
+
+/**
+ * Largest eltaIn a buyer holding `balance` can send: buy() pulls eltaIn plus
+ * the trading fee and the fee router pulls its own fee, so the full balance
+ * never fits once fees are on. Bisects quoteBuy, whose allowances only grow
+ * with eltaIn. 0n when the curve cannot be bought.
+ */
+export function getMaxBuy(curve: CurveReserves, balance: bigint, fees: CurveFees): bigint {
+  if (curve.isGraduated || curve.eltaReserve === 0n || curve.eltaReserve >= curve.target || balance === 0n) {
+    return 0n;
+  }
+
+  const fits = (eltaIn: bigint) => {
+    const quote = quoteBuy(curve, eltaIn, fees);
+    return quote.curveAllowance + quote.routerAllowance <= balance;
+  };
+  if (fits(balance)) return balance;
+
+  // fits(low) holds (or low is 0n) and fits(high) does not
+  let low = 0n;
+  let high = balance;
+  while (high - low > 1n) {
+    const mid = (low + high) / 2n;
+    if (fits(mid)) low = mid;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Lower bound for buy(minTokensOut) given a slippage tolerance in bps.
+ */
+export function applySlippage(tokensOut: bigint, slippageBps: bigint): bigint {
+  return (tokensOut * (BPS_DENOMINATOR - slippageBps)) / BPS_DENOMINATOR;
+}
+
+/**
+ * How far the quote's average price (ELTA per token, gross of fees) sits
+ * above the current spot price, in bps.
+ */
+export function getPriceImpact(curve: CurveReserves, quote: Pick<BuyQuote, 'eltaIn' | 'tokensOut'>): bigint {
+  const spot = getCurrentPrice(curve);
+  if (spot === 0n || quote.tokensOut === 0n) return 0n;
+
+  const executionPrice = (quote.eltaIn * PRICE_PRECISION) / quote.tokensOut;
+  return executionPrice > spot ? ((executionPrice - spot) * BPS_DENOMINATOR) / spot : 0n;
+}
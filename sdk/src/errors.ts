@@ -0,0 +1,346 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  parseAbi,
+  type Hex,
+} from 'viem';
+
+/**
+ * Custom errors the protocol can revert with: the shared Errors library,
+ * contract-local errors, and the OpenZeppelin v5 errors the contracts
+ * inherit (token transfers, roles, permits, checkpoints, governance).
+ *
+ * The contract ABIs only list some of these, and a revert from a nested
+ * call (e.g. ELTA.transferFrom inside AppBondingCurve.buy) is never in the
+ * called contract's ABI, so revert data is decoded against this list.
+ */
+export const ELATA_ERRORS_ABI = parseAbi([
+  // Errors library
+  'error NotAuthorized()',
+  'error ZeroAddress()',
+  'error InvalidAmount()',
+  'error CapExceeded()',
+  'error TransfersDisabled()',
+  'error LockActive()',
+  'error NoActiveLock()',
+  'error LockTooShort()',
+  'error LockTooLong()',
+  'error LockNotExpired()',
+  'error VotingClosed()',
+  'error VotingNotStarted()',
+  'error InsufficientXP()',
+  'error ArrayLengthMismatch()',
+  'error DuplicateOption()',
+  'error SignatureExpired()',
+  'error InvalidSignature()',
+  'error NonTransferable()',
+  'error ContractPaused()',
+  'error InvalidSplit()',
+  // AppFactory
+  'error Paused()',
+  'error InvalidParameters()',
+  'error AppNotFound()',
+  // AppBondingCurve
+  'error AlreadyGraduated()',
+  'error NotGraduated()',
+  'error InsufficientOutput()',
+  'error ZeroInput()',
+  'error NotInitialized()',
+  'error OnlyFactory()',
+  // AppToken
+  'error SupplyCapExceeded()',
+  'error OnlyCreator()',
+  'error MintingAlreadyFinalized()',
+  // LpLocker
+  'error NotYetUnlocked()',
+  'error Unauthorized()',
+  'error AlreadyClaimed()',
+  'error TransferFailed()',
+  // AppFeeRouter
+  'error OnlyGovernance()',
+  'error FeeTooHigh()',
+  // VeELTA / AppStakingVault
+  'error LockExists()',
+  'error LockExpired()',
+  'error InvalidUnlockTime()',
+  'error Insufficient()',
+  // RewardsDistributor / AppRewardsDistributor
+  'error OnlyWhenNotPaused()',
+  'error VaultExists()',
+  'error UnknownVault()',
+  'error NoEpochs()',
+  // EpochRewards / Tournament
+  'error InvalidWindow()',
+  'error NoActiveEpoch()',
+  'error AlreadyFinalized()',
+  'error NotFinalized()',
+  'error InvalidProof()',
+  'error AlreadyEntered()',
+  'error TournamentNotStarted()',
+  'error TournamentEnded()',
+  'error FeesTooHigh()',
+  // AppAccess1155
+  'error ItemInactive()',
+  'error PurchaseTooEarly()',
+  'error PurchaseTooLate()',
+  'error SupplyExceeded()',
+  'error SoulboundTransfer()',
+  // TournamentFactory / AppModuleFactory
+  'error NotTokenOwner()',
+  'error InvalidFees()',
+  'error ModulesAlreadyExist()',
+  // OpenZeppelin
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InvalidSender(address sender)',
+  'error ERC20InvalidReceiver(address receiver)',
+  'error ERC20InvalidApprover(address approver)',
+  'error ERC20InvalidSpender(address spender)',
+  'error ERC2612ExpiredSignature(uint256 deadline)',
+  'error ERC2612InvalidSigner(address signer, address owner)',
+  'error ERC1155InsufficientBalance(address sender, uint256 balance, uint256 needed, uint256 tokenId)',
+  'error ERC5805FutureLookup(uint256 timepoint, uint48 clock)',
+  'error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)',
+  'error OwnableUnauthorizedAccount(address account)',
+  'error ReentrancyGuardReentrantCall()',
+  'error SafeERC20FailedOperation(address token)',
+  'error GovernorInsufficientProposerVotes(address proposer, uint256 votes, uint256 threshold)',
+  'error ERC20ExceededSafeSupply(uint256 increasedSupply, uint256 cap)',
+  'error ERC1155InvalidApprover(address approver)',
+  'error ERC1155InvalidArrayLength(uint256 idsLength, uint256 valuesLength)',
+  'error ERC1155InvalidOperator(address operator)',
+  'error ERC1155InvalidReceiver(address receiver)',
+  'error ERC1155InvalidSender(address sender)',
+  'error ERC1155MissingApprovalForAll(address operator, address owner)',
+  'error ERC6372InconsistentClock()',
+  'error VotesExpiredSignature(uint256 expiry)',
+  'error CheckpointUnorderedInsertion()',
+  'error InvalidAccountNonce(address account, uint256 currentNonce)',
+  'error ECDSAInvalidSignature()',
+  'error ECDSAInvalidSignatureLength(uint256 length)',
+  'error ECDSAInvalidSignatureS(bytes32 s)',
+  'error AccessControlBadConfirmation()',
+  'error OwnableInvalidOwner(address owner)',
+  'error AddressEmptyCode(address target)',
+  'error AddressInsufficientBalance(address account)',
+  'error FailedInnerCall()',
+  'error SafeCastOverflowedUintDowncast(uint8 bits, uint256 value)',
+  'error StringTooLong(string str)',
+  'error InvalidShortString()',
+  'error QueueEmpty()',
+  'error QueueFull()',
+  // OpenZeppelin Governor / TimelockController
+  'error GovernorAlreadyCastVote(address voter)',
+  'error GovernorAlreadyQueuedProposal(uint256 proposalId)',
+  'error GovernorDisabledDeposit()',
+  'error GovernorInvalidProposalLength(uint256 targets, uint256 calldatas, uint256 values)',
+  'error GovernorInvalidQuorumFraction(uint256 quorumNumerator, uint256 quorumDenominator)',
+  'error GovernorInvalidSignature(address voter)',
+  'error GovernorInvalidVoteType()',
+  'error GovernorInvalidVotingPeriod(uint256 votingPeriod)',
+  'error GovernorNonexistentProposal(uint256 proposalId)',
+  'error GovernorNotQueuedProposal(uint256 proposalId)',
+  'error GovernorOnlyExecutor(address account)',
+  'error GovernorOnlyProposer(address account)',
+  'error GovernorQueueNotImplemented()',
+  'error GovernorRestrictedProposer(address proposer)',
+  'error GovernorUnexpectedProposalState(uint256 proposalId, uint8 current, bytes32 expectedStates)',
+  'error TimelockInsufficientDelay(uint256 delay, uint256 minDelay)',
+  'error TimelockInvalidOperationLength(uint256 targets, uint256 payloads, uint256 values)',
+  'error TimelockUnauthorizedCaller(address caller)',
+  'error TimelockUnexecutedPredecessor(bytes32 predecessorId)',
+  'error TimelockUnexpectedOperationState(bytes32 operationId, bytes32 expectedStates)',
+]);
+
+export type ElataErrorName = Extract<(typeof ELATA_ERRORS_ABI)[number], { type: 'error' }>['name'];
+
+// Errors shared by several contracts are worded to hold for each of them
+export const ELATA_ERROR_MESSAGES: Record<ElataErrorName, string> = {
+  NotAuthorized: 'Your account is not authorized to perform this action.',
+  ZeroAddress: 'An address is missing (zero address given).',
+  InvalidAmount: 'The amount is invalid. Enter a non-zero amount within the allowed range.',
+  CapExceeded: 'This would exceed the ELTA supply cap.',
+  TransfersDisabled: 'Transfers are disabled for this token.',
+  LockActive: 'You already have an active lock.',
+  NoActiveLock: 'You have no active veELTA lock. Create a lock first.',
+  LockTooShort: 'The lock duration is too short. Locks must last longer than the minimum (7 days).',
+  LockTooLong: 'The lock duration is too long. Locks can last at most 2 years.',
+  LockNotExpired: 'Your lock has not expired yet. You can unlock after the unlock date.',
+  VotingClosed: 'Voting for this round is closed.',
+  VotingNotStarted: 'Voting for this round has not started yet.',
+  InsufficientXP: 'Not enough XP at the round snapshot for this vote weight.',
+  ArrayLengthMismatch: 'The options and recipients lists must be non-empty and the same length.',
+  DuplicateOption: 'That option is duplicated or does not exist in this round.',
+  SignatureExpired: 'The signature has expired. Sign again.',
+  InvalidSignature: 'The signature is invalid.',
+  NonTransferable: 'This token is non-transferable.',
+  ContractPaused: 'The contract is paused.',
+  InvalidSplit: 'The reward split must add up to 100%.',
+
+  Paused: 'App launches are paused right now. Try again later.',
+  InvalidParameters: 'The launch parameters are invalid.',
+  AppNotFound: 'That app does not exist.',
+
+  AlreadyGraduated: 'This app has already graduated. Trade it on Uniswap instead.',
+  NotGraduated: 'This app has not graduated yet.',
+  InsufficientOutput: 'The price moved beyond your slippage tolerance. Refresh the quote or raise the slippage.',
+  ZeroInput: 'Enter an amount greater than zero.',
+  NotInitialized: 'The bonding curve has not been initialized yet.',
+  OnlyFactory: 'Only the app factory can perform this action.',
+
+  SupplyCapExceeded: 'This would exceed the token supply cap.',
+  OnlyCreator: 'Only the app creator can perform this action.',
+  MintingAlreadyFinalized: 'Minting has already been finalized for this token.',
+
+  NotYetUnlocked: 'The LP tokens are still locked. You can claim them after the unlock date.',
+  Unauthorized: 'Only the beneficiary can claim these LP tokens.',
+  AlreadyClaimed: 'This has already been claimed.',
+  TransferFailed: 'The token transfer failed.',
+
+  OnlyGovernance: 'Only governance can perform this action.',
+  FeeTooHigh: 'The fee is above the allowed maximum.',
+
+  LockExists: 'You already have a lock. Increase its amount or extend it instead.',
+  LockExpired: 'Your lock has expired. Unlock it, or create a new one, before adding ELTA.',
+  InvalidUnlockTime: 'The new unlock date must be later than the current one.',
+  Insufficient: 'Insufficient balance for this amount.',
+
+  OnlyWhenNotPaused: 'Reward distribution is paused right now.',
+  VaultExists: 'This vault is already registered.',
+  UnknownVault: 'This vault is not registered.',
+  NoEpochs: 'There are no reward epochs to claim yet.',
+
+  InvalidWindow: 'The start and end times are invalid.',
+  NoActiveEpoch: 'There is no active epoch.',
+  AlreadyFinalized: 'This has already been finalized.',
+  NotFinalized: 'This has not been finalized yet.',
+  InvalidProof: 'Your account is not on the winners list for this amount.',
+  AlreadyEntered: 'You have already entered this tournament.',
+  TournamentNotStarted: 'This tournament has not started yet.',
+  TournamentEnded: 'This tournament has ended.',
+  FeesTooHigh: 'The combined fees are above the allowed maximum.',
+
+  ItemInactive: 'This item is not available for purchase.',
+  PurchaseTooEarly: 'This item is not on sale yet.',
+  PurchaseTooLate: 'The sale for this item has ended.',
+  SupplyExceeded: 'This item is sold out.',
+  SoulboundTransfer: 'This item is soulbound and cannot be transferred.',
+
+  NotTokenOwner: 'Only the app token owner can perform this action.',
+  InvalidFees: 'The fees are invalid.',
+  ModulesAlreadyExist: 'Modules have already been deployed for this app.',
+
+  ERC20InsufficientBalance: 'Insufficient token balance for this transaction.',
+  ERC20InsufficientAllowance: 'The token allowance is too low. Approve a larger amount and try again.',
+  ERC20InvalidSender: 'Invalid token sender.',
+  ERC20InvalidReceiver: 'Invalid token recipient.',
+  ERC20InvalidApprover: 'Invalid token approver.',
+  ERC20InvalidSpender: 'Invalid token spender.',
+  ERC2612ExpiredSignature: 'The permit signature has expired. Sign again.',
+  ERC2612InvalidSigner: 'The permit was not signed by the token owner.',
+  ERC1155InsufficientBalance: 'Insufficient item balance for this transaction.',
+  ERC5805FutureLookup: 'That block or time is in the future.',
+  AccessControlUnauthorizedAccount: 'Your account does not have the role required for this action.',
+  OwnableUnauthorizedAccount: 'Only the contract owner can perform this action.',
+  ReentrancyGuardReentrantCall: 'Reentrant call rejected.',
+  SafeERC20FailedOperation: 'The token transfer failed.',
+  GovernorInsufficientProposerVotes: 'You do not have enough voting power to create a proposal.',
+  ERC20ExceededSafeSupply: 'This would exceed the maximum supply that voting checkpoints can track.',
+  ERC1155InvalidApprover: 'Invalid item approver.',
+  ERC1155InvalidArrayLength: 'The item ids and amounts lists must be the same length.',
+  ERC1155InvalidOperator: 'Invalid item operator.',
+  ERC1155InvalidReceiver: 'Invalid item recipient.',
+  ERC1155InvalidSender: 'Invalid item sender.',
+  ERC1155MissingApprovalForAll: 'The operator is not approved to move these items.',
+  ERC6372InconsistentClock: 'The voting clock is inconsistent.',
+  VotesExpiredSignature: 'The delegation signature has expired. Sign again.',
+  CheckpointUnorderedInsertion: 'Voting checkpoints must be written in order.',
+  InvalidAccountNonce: 'The signature nonce is out of date. Sign again.',
+  ECDSAInvalidSignature: 'The signature is invalid.',
+  ECDSAInvalidSignatureLength: 'The signature has an invalid length.',
+  ECDSAInvalidSignatureS: 'The signature is malformed.',
+  AccessControlBadConfirmation: 'Roles can only be renounced by the account holding them.',
+  OwnableInvalidOwner: 'Invalid owner address.',
+  AddressEmptyCode: 'The target address has no contract code.',
+  AddressInsufficientBalance: 'The contract does not hold enough ETH for this call.',
+  FailedInnerCall: 'An inner contract call failed.',
+  SafeCastOverflowedUintDowncast: 'The value is too large.',
+  StringTooLong: 'The text is too long.',
+  InvalidShortString: 'The text is not a valid short string.',
+  QueueEmpty: 'The governance queue is empty.',
+  QueueFull: 'The governance queue is full.',
+  GovernorAlreadyCastVote: 'You have already voted on this proposal.',
+  GovernorAlreadyQueuedProposal: 'This proposal has already been queued.',
+  GovernorDisabledDeposit: 'The governor does not accept deposits.',
+  GovernorInvalidProposalLength: 'The proposal targets, values and calldatas must be non-empty and the same length.',
+  GovernorInvalidQuorumFraction: 'The quorum fraction is invalid.',
+  GovernorInvalidSignature: 'The vote signature is invalid.',
+  GovernorInvalidVoteType: 'Invalid vote type. Vote for, against or abstain.',
+  GovernorInvalidVotingPeriod: 'The voting period is invalid.',
+  GovernorNonexistentProposal: 'That proposal does not exist.',
+  GovernorNotQueuedProposal: 'This proposal has not been queued yet.',
+  GovernorOnlyExecutor: 'Only the governance executor can perform this action.',
+  GovernorOnlyProposer: 'Only the proposer can perform this action.',
+  GovernorQueueNotImplemented: 'This governor does not queue proposals.',
+  GovernorRestrictedProposer: 'This proposal is restricted to another proposer.',
+  GovernorUnexpectedProposalState: 'The proposal is not in the right state for this action.',
+  TimelockInsufficientDelay: 'The timelock delay is below the minimum.',
+  TimelockInvalidOperationLength: 'The operation targets, values and payloads must be the same length.',
+  TimelockUnauthorizedCaller: 'Only the timelock itself can perform this action.',
+  TimelockUnexecutedPredecessor: 'A prerequisite operation has not been executed yet.',
+  TimelockUnexpectedOperationState: 'The timelock operation is not in the right state for this action.',
+};
+
+export interface DecodedElataError {
+  /** Custom error name, when the revert data matched one */
+  name?: ElataErrorName;
+  args?: readonly unknown[];
+  message: string;
+}
+
+/** Decode raw revert data against every protocol error. */
+export function decodeRevertData(data: Hex): DecodedElataError | undefined {
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: ELATA_ERRORS_ABI, data });
+    return { name: errorName, args, message: ELATA_ERROR_MESSAGES[errorName] };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Turn anything thrown by a viem/wagmi read, simulate or write into a
+ * message fit to show the user. Protocol reverts map to
+ * ELATA_ERROR_MESSAGES; other viem errors fall back to their shortMessage.
+ */
+export function decodeElataError(error: unknown): DecodedElataError {
+  if (!(error instanceof BaseError)) {
+    return { message: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (error.walk((e) => e instanceof UserRejectedRequestError)) {
+    return { message: 'Transaction rejected in your wallet.' };
+  }
+
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError) {
+    // Already decoded when the called contract's ABI lists the error
+    const name = reverted.data?.errorName;
+    if (name && name in ELATA_ERROR_MESSAGES) {
+      return {
+        name: name as ElataErrorName,
+        args: reverted.data?.args,
+        message: ELATA_ERROR_MESSAGES[name as ElataErrorName],
+      };
+    }
+
+    const decoded = reverted.raw ? decodeRevertData(reverted.raw) : undefined;
+    if (decoded) return decoded;
+
+    if (reverted.reason) return { message: reverted.reason };
+  }
+
+  return { message: error.shortMessage || error.message };
+}
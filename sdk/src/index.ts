@@ -0,0 +1,55 @@
+/**
+ * @elata/sdk
+ *
+ * Typed access to the Elata Protocol contracts on top of viem. Each domain
+ * exposes `*Calls(address)` builders returning `{ address, abi, functionName, args }`
+ * objects (usable directly with viem actions or wagmi hooks) and a module with
+ * async read/write helpers bound to an ElataContext.
+ */
+
+import type { ElataContext } from './client';
+import { createAppsModule } from './apps';
+import { createCurveModule } from './curve';
+import { createLotPoolModule } from './lotPool';
+import { createModulesModule } from './modules';
+import { createPermitModule } from './permit';
+import { createRewardsModule } from './rewards';
+import { createStakingModule } from './staking';
+import { createTokenModule } from './token';
+import { createTournamentsModule } from './tournaments';
+import { createXpModule } from './xp';
+
+export * from './abi';
+export * from './types';
+export * from './client';
+export * from './apps';
+export * from './curve';
+export * from './curveMath';
+export * from './veMath';
+export * from './errors';
+export * from './token';
+export * from './permit';
+export * from './staking';
+export * from './rewards';
+export * from './xp';
+export * from './lotPool';
+export * from './tournaments';
+export * from './modules';
+
+export function createElataClient(ctx: ElataContext) {
+  return {
+    ...ctx,
+    apps: createAppsModule(ctx),
+    curve: createCurveModule(ctx),
+    token: createTokenModule(ctx),
+    permit: createPermitModule(ctx),
+    staking: createStakingModule(ctx),
+    rewards: createRewardsModule(ctx),
+    xp: createXpModule(ctx),
+    lotPool: createLotPoolModule(ctx),
+    tournaments: createTournamentsModule(ctx),
+    modules: createModulesModule(ctx),
+  };
+}
+
+export type ElataClient = ReturnType<typeof createElataClient>;
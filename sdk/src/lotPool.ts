@@ -0,0 +1,48 @@
+import type { Address } from 'viem';
+import { LotPoolABI } from './abi';
+import { requireAddress, writeCall, type ElataContext } from './client';
+import type { LotPoolRound } from './types';
+
+export const lotPoolCalls = (address: Address) => ({
+  currentRoundId: () => ({ address, abi: LotPoolABI, functionName: 'currentRoundId' }) as const,
+  getRound: (roundId: bigint) => ({ address, abi: LotPoolABI, functionName: 'getRound', args: [roundId] }) as const,
+  getRoundVotes: (roundId: bigint) =>
+    ({ address, abi: LotPoolABI, functionName: 'getRoundVotes', args: [roundId] }) as const,
+  getUserVotingStatus: (user: Address, roundId: bigint) =>
+    ({ address, abi: LotPoolABI, functionName: 'getUserVotingStatus', args: [user, roundId] }) as const,
+  isRoundActive: (roundId: bigint) =>
+    ({ address, abi: LotPoolABI, functionName: 'isRoundActive', args: [roundId] }) as const,
+  getRoundTimeRemaining: (roundId: bigint) =>
+    ({ address, abi: LotPoolABI, functionName: 'getRoundTimeRemaining', args: [roundId] }) as const,
+  vote: (roundId: bigint, option: `0x${string}`, weight: bigint) =>
+    ({ address, abi: LotPoolABI, functionName: 'vote', args: [roundId, option, weight] }) as const,
+});
+
+export function createLotPoolModule(ctx: ElataContext) {
+  const lotPool = () => lotPoolCalls(requireAddress(ctx, 'LotPool'));
+  const { publicClient } = ctx;
+
+  return {
+    getCurrentRoundId: () => publicClient.readContract(lotPool().currentRoundId()),
+
+    getRound: async (roundId: bigint): Promise<LotPoolRound> => {
+      const [snapshotBlock, start, end, finalized, options] = await publicClient.readContract(lotPool().getRound(roundId));
+      return { snapshotBlock, start, end, finalized, options };
+    },
+
+    getRoundVotes: async (roundId: bigint) => {
+      const [options, votes] = await publicClient.readContract(lotPool().getRoundVotes(roundId));
+      return { options, votes };
+    },
+
+    getUserVotingStatus: async (user: Address, roundId: bigint) => {
+      const [availableXP, usedXP, remainingXP] = await publicClient.readContract(
+        lotPool().getUserVotingStatus(user, roundId)
+      );
+      return { availableXP, usedXP, remainingXP };
+    },
+
+    vote: (roundId: bigint, option: `0x${string}`, weight: bigint) =>
+      writeCall(ctx, lotPool().vote(roundId, option, weight)),
+  };
+}
@@ -0,0 +1,57 @@
+import type { Address } from 'viem';
+import { AppAccess1155ABI, AppModuleFactoryABI, AppStakingVaultABI } from './abi';
+import { requireAddress, writeCall, type ElataContext } from './client';
+import type { AppModules } from './types';
+
+export const appModuleFactoryCalls = (address: Address) => ({
+  createFeeELTA: () => ({ address, abi: AppModuleFactoryABI, functionName: 'createFeeELTA' }) as const,
+  modulesByApp: (appToken: Address) =>
+    ({ address, abi: AppModuleFactoryABI, functionName: 'modulesByApp', args: [appToken] }) as const,
+  deployModules: (appToken: Address, baseURI: string) =>
+    ({ address, abi: AppModuleFactoryABI, functionName: 'deployModules', args: [appToken, baseURI] }) as const,
+});
+
+export const appAccess1155Calls = (address: Address) => ({
+  balanceOf: (account: Address, id: bigint) =>
+    ({ address, abi: AppAccess1155ABI, functionName: 'balanceOf', args: [account, id] }) as const,
+  getPurchaseCost: (id: bigint, amount: bigint) =>
+    ({ address, abi: AppAccess1155ABI, functionName: 'getPurchaseCost', args: [id, amount] }) as const,
+  checkPurchaseEligibility: (user: Address, id: bigint, amount: bigint) =>
+    ({ address, abi: AppAccess1155ABI, functionName: 'checkPurchaseEligibility', args: [user, id, amount] }) as const,
+  getRemainingSupply: (id: bigint) =>
+    ({ address, abi: AppAccess1155ABI, functionName: 'getRemainingSupply', args: [id] }) as const,
+  checkFeatureAccess: (user: Address, featureId: `0x${string}`, userStake: bigint) =>
+    ({ address, abi: AppAccess1155ABI, functionName: 'checkFeatureAccess', args: [user, featureId, userStake] }) as const,
+  purchase: (id: bigint, amount: bigint, reason: `0x${string}`) =>
+    ({ address, abi: AppAccess1155ABI, functionName: 'purchase', args: [id, amount, reason] }) as const,
+});
+
+export const appStakingVaultCalls = (address: Address) => ({
+  stakedOf: (user: Address) => ({ address, abi: AppStakingVaultABI, functionName: 'stakedOf', args: [user] }) as const,
+  totalStaked: () => ({ address, abi: AppStakingVaultABI, functionName: 'totalStaked' }) as const,
+  stake: (amount: bigint) => ({ address, abi: AppStakingVaultABI, functionName: 'stake', args: [amount] }) as const,
+  unstake: (amount: bigint) => ({ address, abi: AppStakingVaultABI, functionName: 'unstake', args: [amount] }) as const,
+});
+
+export function createModulesModule(ctx: ElataContext) {
+  const factory = () => appModuleFactoryCalls(requireAddress(ctx, 'AppModuleFactory'));
+  const { publicClient } = ctx;
+
+  return {
+    getModules: async (appToken: Address): Promise<AppModules> => {
+      const [access1155, stakingVault, epochRewards] = await publicClient.readContract(factory().modulesByApp(appToken));
+      return { access1155, stakingVault, epochRewards };
+    },
+
+    deployModules: (appToken: Address, baseURI: string) =>
+      writeCall(ctx, factory().deployModules(appToken, baseURI)),
+
+    stake: (vault: Address, amount: bigint) => writeCall(ctx, appStakingVaultCalls(vault).stake(amount)),
+
+    unstake: (vault: Address, amount: bigint) =>
+      writeCall(ctx, appStakingVaultCalls(vault).unstake(amount)),
+
+    purchase: (access1155: Address, id: bigint, amount: bigint, reason: `0x${string}`) =>
+      writeCall(ctx, appAccess1155Calls(access1155).purchase(id, amount, reason)),
+  };
+}
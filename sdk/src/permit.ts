@@ -0,0 +1,106 @@
+import { parseSignature, type Address, type Hex, type TypedDataDomain } from 'viem';
+import { ERC20PermitABI } from './abi';
+import { requireAddress, requireWallet, writeCall, type ElataContext } from './client';
+
+/**
+ * EIP-2612 permits.
+ *
+ * ELTA, AppToken, AppStakingVault, VeELTA and ElataXP inherit OpenZeppelin's
+ * ERC20Permit, so an owner can sign an allowance instead of sending
+ * approve(). The signature still has to reach the token through permit(),
+ * either from a contract that accepts one or as its own call (e.g. batched
+ * ahead of the spending call).
+ */
+
+// OpenZeppelin ERC20Permit PERMIT_TYPEHASH
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+export interface PermitMessage {
+  owner: Address;
+  spender: Address;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint; // unix seconds
+}
+
+export interface SignedPermit extends PermitMessage {
+  token: Address;
+  signature: Hex;
+  v: number;
+  r: Hex;
+  s: Hex;
+}
+
+export const erc20PermitCalls = (address: Address) => ({
+  nonces: (owner: Address) => ({ address, abi: ERC20PermitABI, functionName: 'nonces', args: [owner] }) as const,
+  eip712Domain: () => ({ address, abi: ERC20PermitABI, functionName: 'eip712Domain' }) as const,
+  permit: (permit: Omit<SignedPermit, 'token' | 'nonce' | 'signature'>) =>
+    ({
+      address,
+      abi: ERC20PermitABI,
+      functionName: 'permit',
+      args: [permit.owner, permit.spender, permit.value, permit.deadline, permit.v, permit.r, permit.s],
+    }) as const,
+});
+
+/**
+ * Domain from the token's ERC-5267 eip712Domain() result.
+ */
+export function toPermitDomain(
+  result: readonly [Hex, string, string, bigint, Address, Hex, readonly bigint[]]
+): TypedDataDomain {
+  const [, name, version, chainId, verifyingContract] = result;
+  return { name, version, chainId: Number(chainId), verifyingContract };
+}
+
+export function buildPermitTypedData(domain: TypedDataDomain, message: PermitMessage) {
+  return { domain, types: PERMIT_TYPES, primaryType: 'Permit', message } as const;
+}
+
+export function toSignedPermit(token: Address, message: PermitMessage, signature: Hex): SignedPermit {
+  const { r, s, v, yParity } = parseSignature(signature);
+  return { ...message, token, signature, r, s, v: Number(v ?? BigInt(yParity + 27)) };
+}
+
+export function createPermitModule(ctx: ElataContext) {
+  const { publicClient } = ctx;
+
+  return {
+    /**
+     * Read the token's domain and the owner's nonce, then sign a permit
+     * with the wallet. Defaults to ELTA and a one hour deadline.
+     */
+    signPermit: async (
+      spender: Address,
+      value: bigint,
+      options: { token?: Address; deadline?: bigint } = {}
+    ): Promise<SignedPermit> => {
+      const wallet = requireWallet(ctx);
+      const token = options.token ?? requireAddress(ctx, 'ELTA');
+      const calls = erc20PermitCalls(token);
+      const owner = wallet.account.address;
+
+      const [domain, nonce] = await Promise.all([
+        publicClient.readContract(calls.eip712Domain()).then(toPermitDomain),
+        publicClient.readContract(calls.nonces(owner)),
+      ]);
+      const deadline = options.deadline ?? BigInt(Math.floor(Date.now() / 1000) + 3600);
+      const message = { owner, spender, value, nonce, deadline };
+
+      const signature = await wallet.signTypedData(buildPermitTypedData(domain, message));
+      return toSignedPermit(token, message, signature);
+    },
+
+    // Submit a signed permit (any account may relay it)
+    submitPermit: (permit: SignedPermit) =>
+      writeCall(ctx, erc20PermitCalls(permit.token).permit(permit)),
+  };
+}
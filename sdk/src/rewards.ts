@@ -0,0 +1,59 @@
+import type { Address } from 'viem';
+import { RewardsDistributorABI } from './abi';
+import { requireAddress, writeCall, type ElataContext } from './client';
+import type { UnclaimedRange } from './types';
+
+// RewardsDistributor.claimVe reverts for ranges longer than this
+export const MAX_CLAIM_EPOCHS = 100n;
+
+export const rewardsDistributorCalls = (address: Address) => ({
+  getEpochCount: () => ({ address, abi: RewardsDistributorABI, functionName: 'getEpochCount' }) as const,
+  getEpoch: (epochId: bigint) =>
+    ({ address, abi: RewardsDistributorABI, functionName: 'getEpoch', args: [epochId] }) as const,
+  getEpochsBatch: (startId: bigint, count: bigint) =>
+    ({ address, abi: RewardsDistributorABI, functionName: 'getEpochsBatch', args: [startId, count] }) as const,
+  getUnclaimedRange: (user: Address) =>
+    ({ address, abi: RewardsDistributorABI, functionName: 'getUnclaimedRange', args: [user] }) as const,
+  estimatePendingVeRewards: (user: Address) =>
+    ({ address, abi: RewardsDistributorABI, functionName: 'estimatePendingVeRewards', args: [user] }) as const,
+  lastClaimed: (user: Address) =>
+    ({ address, abi: RewardsDistributorABI, functionName: 'lastClaimed', args: [user] }) as const,
+  claimVe: (fromEpoch: bigint, toEpoch: bigint) =>
+    ({ address, abi: RewardsDistributorABI, functionName: 'claimVe', args: [fromEpoch, toEpoch] }) as const,
+  // Reaches claimVe through this.claimVe(), so msg.sender there is the
+  // distributor itself and the caller's cursor never moves. Claim
+  // getUnclaimedRange(user) with claimVe instead.
+  claimVeFromLast: () => ({ address, abi: RewardsDistributorABI, functionName: 'claimVeFromLast' }) as const,
+});
+
+/**
+ * Split an unclaimed epoch range into claimVe-sized chunks.
+ */
+export function chunkClaimRange({ fromEpoch, toEpoch }: UnclaimedRange, size = MAX_CLAIM_EPOCHS): UnclaimedRange[] {
+  const chunks: UnclaimedRange[] = [];
+  for (let from = fromEpoch; from < toEpoch; from += size) {
+    chunks.push({ fromEpoch: from, toEpoch: from + size < toEpoch ? from + size : toEpoch });
+  }
+  return chunks;
+}
+
+export function createRewardsModule(ctx: ElataContext) {
+  const distributor = () => rewardsDistributorCalls(requireAddress(ctx, 'RewardsDistributor'));
+  const { publicClient } = ctx;
+
+  return {
+    getEpochCount: () => publicClient.readContract(distributor().getEpochCount()),
+
+    getEpochs: (startId: bigint, count: bigint) => publicClient.readContract(distributor().getEpochsBatch(startId, count)),
+
+    getUnclaimedRange: async (user: Address): Promise<UnclaimedRange> => {
+      const [fromEpoch, toEpoch] = await publicClient.readContract(distributor().getUnclaimedRange(user));
+      return { fromEpoch, toEpoch };
+    },
+
+    getPendingRewards: (user: Address) => publicClient.readContract(distributor().estimatePendingVeRewards(user)),
+
+    claimVe: (fromEpoch: bigint, toEpoch: bigint) =>
+      writeCall(ctx, distributor().claimVe(fromEpoch, toEpoch)),
+  };
+}
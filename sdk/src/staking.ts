@@ -0,0 +1,74 @@
+import type { Address } from 'viem';
+import { VeELTAABI } from './abi';
+import { requireAddress, writeCall, type ElataContext } from './client';
+import type { LockDetails, LockParameters } from './types';
+
+export const veEltaCalls = (address: Address) => ({
+  MIN_LOCK: () => ({ address, abi: VeELTAABI, functionName: 'MIN_LOCK' }) as const,
+  MAX_LOCK: () => ({ address, abi: VeELTAABI, functionName: 'MAX_LOCK' }) as const,
+  BOOST_MIN: () => ({ address, abi: VeELTAABI, functionName: 'BOOST_MIN' }) as const,
+  BOOST_MAX: () => ({ address, abi: VeELTAABI, functionName: 'BOOST_MAX' }) as const,
+  balanceOf: (account: Address) => ({ address, abi: VeELTAABI, functionName: 'balanceOf', args: [account] }) as const,
+  totalSupply: () => ({ address, abi: VeELTAABI, functionName: 'totalSupply' }) as const,
+  getPastVotes: (account: Address, blockNumber: bigint) =>
+    ({ address, abi: VeELTAABI, functionName: 'getPastVotes', args: [account, blockNumber] }) as const,
+  getPastTotalSupply: (blockNumber: bigint) =>
+    ({ address, abi: VeELTAABI, functionName: 'getPastTotalSupply', args: [blockNumber] }) as const,
+  getLockDetails: (user: Address) =>
+    ({ address, abi: VeELTAABI, functionName: 'getLockDetails', args: [user] }) as const,
+  canUnlock: (user: Address) => ({ address, abi: VeELTAABI, functionName: 'canUnlock', args: [user] }) as const,
+  lock: (amount: bigint, unlockTime: bigint) =>
+    ({ address, abi: VeELTAABI, functionName: 'lock', args: [amount, unlockTime] }) as const,
+  increaseAmount: (amount: bigint) =>
+    ({ address, abi: VeELTAABI, functionName: 'increaseAmount', args: [amount] }) as const,
+  extendLock: (newUnlockTime: bigint) =>
+    ({ address, abi: VeELTAABI, functionName: 'extendLock', args: [newUnlockTime] }) as const,
+  unlock: () => ({ address, abi: VeELTAABI, functionName: 'unlock' }) as const,
+});
+
+export function toLockDetails(result: readonly [bigint, bigint, bigint, boolean]): LockDetails {
+  const [principal, unlockTime, veBalance, isExpired] = result;
+  return { principal, unlockTime, veBalance, isExpired };
+}
+
+export function toLockParameters(
+  result: readonly [bigint, bigint, bigint, bigint]
+): LockParameters {
+  const [minLock, maxLock, boostMin, boostMax] = result;
+  return { minLock, maxLock, boostMin, boostMax };
+}
+
+export function createStakingModule(ctx: ElataContext) {
+  const veElta = () => veEltaCalls(requireAddress(ctx, 'VeELTA'));
+  const { publicClient } = ctx;
+
+  return {
+    getLockDetails: async (user: Address) =>
+      toLockDetails(await publicClient.readContract(veElta().getLockDetails(user))),
+
+    canUnlock: async (user: Address) => {
+      const [unlockable, timeRemaining] = await publicClient.readContract(veElta().canUnlock(user));
+      return { unlockable, timeRemaining };
+    },
+
+    getLockParameters: async (): Promise<LockParameters> => {
+      const calls = veElta();
+      return toLockParameters(
+        await publicClient.multicall({
+          contracts: [calls.MIN_LOCK(), calls.MAX_LOCK(), calls.BOOST_MIN(), calls.BOOST_MAX()],
+          allowFailure: false,
+        })
+      );
+    },
+
+    getVotingPower: (user: Address) => publicClient.readContract(veElta().balanceOf(user)),
+
+    lock: (amount: bigint, unlockTime: bigint) => writeCall(ctx, veElta().lock(amount, unlockTime)),
+
+    increaseAmount: (amount: bigint) => writeCall(ctx, veElta().increaseAmount(amount)),
+
+    extendLock: (newUnlockTime: bigint) => writeCall(ctx, veElta().extendLock(newUnlockTime)),
+
+    unlock: () => writeCall(ctx, veElta().unlock()),
+  };
+}
@@ -0,0 +1,36 @@
+import type { Address } from 'viem';
+import { ERC20ABI } from './abi';
+import { requireAddress, writeCall, type ElataContext } from './client';
+
+export const erc20Calls = (address: Address) => ({
+  name: () => ({ address, abi: ERC20ABI, functionName: 'name' }) as const,
+  symbol: () => ({ address, abi: ERC20ABI, functionName: 'symbol' }) as const,
+  decimals: () => ({ address, abi: ERC20ABI, functionName: 'decimals' }) as const,
+  totalSupply: () => ({ address, abi: ERC20ABI, functionName: 'totalSupply' }) as const,
+  balanceOf: (account: Address) => ({ address, abi: ERC20ABI, functionName: 'balanceOf', args: [account] }) as const,
+  allowance: (owner: Address, spender: Address) =>
+    ({ address, abi: ERC20ABI, functionName: 'allowance', args: [owner, spender] }) as const,
+  approve: (spender: Address, amount: bigint) =>
+    ({ address, abi: ERC20ABI, functionName: 'approve', args: [spender, amount] }) as const,
+  transfer: (to: Address, amount: bigint) =>
+    ({ address, abi: ERC20ABI, functionName: 'transfer', args: [to, amount] }) as const,
+});
+
+export function createTokenModule(ctx: ElataContext) {
+  const elta = () => erc20Calls(requireAddress(ctx, 'ELTA'));
+  const { publicClient } = ctx;
+
+  return {
+    balanceOf: (account: Address, token?: Address) =>
+      publicClient.readContract((token ? erc20Calls(token) : elta()).balanceOf(account)),
+
+    allowance: (owner: Address, spender: Address, token?: Address) =>
+      publicClient.readContract((token ? erc20Calls(token) : elta()).allowance(owner, spender)),
+
+    approve: (spender: Address, amount: bigint, token?: Address) =>
+      writeCall(ctx, (token ? erc20Calls(token) : elta()).approve(spender, amount)),
+
+    transfer: (to: Address, amount: bigint, token?: Address) =>
+      writeCall(ctx, (token ? erc20Calls(token) : elta()).transfer(to, amount)),
+  };
+}
@@ -0,0 +1,62 @@
+import type { Address } from 'viem';
+import { TournamentABI, TournamentFactoryABI } from './abi';
+import { requireAddress, writeCall, type ElataContext } from './client';
+import type { TournamentState } from './types';
+
+export const tournamentFactoryCalls = (address: Address) => ({
+  getAppTournaments: (appToken: Address) =>
+    ({ address, abi: TournamentFactoryABI, functionName: 'getAppTournaments', args: [appToken] }) as const,
+  getCreatorTournaments: (creator: Address) =>
+    ({ address, abi: TournamentFactoryABI, functionName: 'getCreatorTournaments', args: [creator] }) as const,
+  getTournamentCount: () => ({ address, abi: TournamentFactoryABI, functionName: 'getTournamentCount' }) as const,
+  getTournamentInfo: (tournamentId: bigint) =>
+    ({ address, abi: TournamentFactoryABI, functionName: 'getTournamentInfo', args: [tournamentId] }) as const,
+  createTournament: (appToken: Address, entryFee: bigint, startTime: bigint, endTime: bigint) => ({
+    address,
+    abi: TournamentFactoryABI,
+    functionName: 'createTournament',
+    args: [appToken, entryFee, startTime, endTime],
+  }) as const,
+});
+
+export const tournamentCalls = (address: Address) => ({
+  getTournamentState: () => ({ address, abi: TournamentABI, functionName: 'getTournamentState' }) as const,
+  checkEntryEligibility: (user: Address) =>
+    ({ address, abi: TournamentABI, functionName: 'checkEntryEligibility', args: [user] }) as const,
+  calculateFees: () => ({ address, abi: TournamentABI, functionName: 'calculateFees' }) as const,
+  enter: () => ({ address, abi: TournamentABI, functionName: 'enter' }) as const,
+  claim: (proof: readonly `0x${string}`[], amount: bigint) =>
+    ({ address, abi: TournamentABI, functionName: 'claim', args: [proof, amount] }) as const,
+});
+
+export function toTournamentState(
+  result: readonly [boolean, boolean, bigint, bigint, bigint, bigint, bigint, bigint]
+): TournamentState {
+  const [isFinalized, isActive, currentPool, entryFeeAmount, protocolFee, burnFee, start, end] = result;
+  return { isFinalized, isActive, currentPool, entryFeeAmount, protocolFee, burnFee, start, end };
+}
+
+export function createTournamentsModule(ctx: ElataContext) {
+  const factory = () => tournamentFactoryCalls(requireAddress(ctx, 'TournamentFactory'));
+  const { publicClient } = ctx;
+
+  return {
+    getAppTournaments: (appToken: Address) => publicClient.readContract(factory().getAppTournaments(appToken)),
+
+    getTournamentState: async (tournament: Address) =>
+      toTournamentState(await publicClient.readContract(tournamentCalls(tournament).getTournamentState())),
+
+    checkEntryEligibility: async (tournament: Address, user: Address) => {
+      const [canEnter, reason] = await publicClient.readContract(tournamentCalls(tournament).checkEntryEligibility(user));
+      return { canEnter, reason };
+    },
+
+    createTournament: (appToken: Address, entryFee: bigint, startTime: bigint, endTime: bigint) =>
+      writeCall(ctx, factory().createTournament(appToken, entryFee, startTime, endTime)),
+
+    enter: (tournament: Address) => writeCall(ctx, tournamentCalls(tournament).enter()),
+
+    claim: (tournament: Address, proof: readonly `0x${string}`[], amount: bigint) =>
+      writeCall(ctx, tournamentCalls(tournament).claim(proof, amount)),
+  };
+}
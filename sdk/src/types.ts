@@ -0,0 +1,139 @@
+import type { Address } from 'viem';
+
+/**
+ * Contract addresses for one Elata deployment. Keys match the
+ * `contracts` object written to deployments/<network>.json.
+ */
+export interface ElataAddresses {
+  ELTA?: Address;
+  ElataXP?: Address;
+  VeELTA?: Address;
+  LotPool?: Address;
+  RewardsDistributor?: Address;
+  AppFactory?: Address;
+  AppFactoryViews?: Address;
+  AppModuleFactory?: Address;
+  TournamentFactory?: Address;
+  UniswapV2Router?: Address;
+}
+
+export type ElataContract = keyof ElataAddresses;
+
+// ---------------------------------------------------------------------------
+// App launch
+// ---------------------------------------------------------------------------
+
+export interface App {
+  creator: Address;
+  token: Address;
+  vault: Address;
+  curve: Address;
+  pair: Address;
+  locker: Address;
+  createdAt: bigint;
+  graduatedAt: bigint;
+  graduated: boolean;
+  totalRaised: bigint;
+  finalSupply: bigint;
+}
+
+export interface AppMetadata {
+  name: string;
+  symbol: string;
+  description: string;
+  imageURI: string;
+  website: string;
+}
+
+export interface CurveState {
+  eltaReserve: bigint;
+  tokenReserve: bigint;
+  target: bigint;
+  isGraduated: boolean;
+  currentPrice: bigint;
+  progress: bigint; // in basis points (0-10000)
+}
+
+export interface LpLockerState {
+  lockedBalance: bigint;
+  beneficiary: Address;
+  unlockAt: bigint; // unix seconds
+  timeUntilUnlock: bigint; // seconds, 0 once unlocked
+  canClaim: boolean;
+  claimed: boolean;
+}
+
+export interface LaunchStats {
+  totalApps: bigint;
+  graduatedApps: bigint;
+  totalValueLocked: bigint;
+  totalFeesCollected: bigint;
+}
+
+export interface LaunchParameters {
+  seed: bigint;
+  creation: bigint;
+  target: bigint;
+  supply: bigint;
+  lpLock: bigint; // seconds
+  decimals: number;
+  protocolFee: bigint; // basis points
+}
+
+// ---------------------------------------------------------------------------
+// veELTA, rewards and XP
+// ---------------------------------------------------------------------------
+
+export interface LockDetails {
+  principal: bigint;
+  unlockTime: bigint; // unix seconds
+  veBalance: bigint;
+  isExpired: boolean;
+}
+
+// VeELTA constants: lock bounds in seconds, boosts scaled by 1e18 (1e18 = 1x)
+export interface LockParameters {
+  minLock: bigint;
+  maxLock: bigint;
+  boostMin: bigint;
+  boostMax: bigint;
+}
+
+export interface RewardEpoch {
+  blockNumber: bigint;
+  amount: bigint;
+}
+
+export interface UnclaimedRange {
+  fromEpoch: bigint;
+  toEpoch: bigint; // exclusive
+}
+
+// ---------------------------------------------------------------------------
+// LotPool and tournaments
+// ---------------------------------------------------------------------------
+
+export interface LotPoolRound {
+  snapshotBlock: bigint;
+  start: bigint;
+  end: bigint;
+  finalized: boolean;
+  options: readonly `0x${string}`[];
+}
+
+export interface TournamentState {
+  isFinalized: boolean;
+  isActive: boolean;
+  currentPool: bigint;
+  entryFeeAmount: bigint;
+  protocolFee: bigint; // basis points
+  burnFee: bigint; // basis points
+  start: bigint;
+  end: bigint;
+}
+
+export interface AppModules {
+  access1155: Address;
+  stakingVault: Address;
+  epochRewards: Address;
+}
@@ -0,0 +1,173 @@
+/**
+ * Offline veELTA math.
+ *
+ * Bigint ports of VeELTA's boost and of the voting power minted or burned
+ * by lock, increaseAmount and extendLock, with the contract's truncating
+ * division. Times are unix seconds; `now` stands in for block.timestamp.
+ */
+
+import type { ElataErrorName } from './errors';
+import type { LockDetails, LockParameters } from './types';
+
+export const BOOST_PRECISION = 10n ** 18n;
+
+// VeELTA's constants (MIN_LOCK, MAX_LOCK, BOOST_MIN, BOOST_MAX)
+export const VE_LOCK_PARAMETERS: LockParameters = {
+  minLock: 7n * 86_400n,
+  maxLock: 730n * 86_400n,
+  boostMin: 1n * BOOST_PRECISION,
+  boostMax: 2n * BOOST_PRECISION,
+};
+
+/**
+ * Thrown for a call VeELTA would revert. `errorName` is the contract error,
+ * so ELATA_ERROR_MESSAGES has a user-facing message for it; `reason` is a
+ * short description of the failed check.
+ */
+export class VeMathError extends Error {
+  constructor(
+    readonly errorName: ElataErrorName,
+    readonly reason: string
+  ) {
+    super(`${errorName}: ${reason}`);
+    this.name = 'VeMathError';
+  }
+}
+
+// The subset of getLockDetails() the math depends on
+export type VeLock = Pick<LockDetails, 'principal' | 'unlockTime' | 'veBalance'>;
+
+export interface VeQuote {
+  // Seconds from `now` to the (new) unlock time
+  remainingTime: bigint;
+  boost: bigint;
+  principal: bigint;
+  unlockTime: bigint;
+  // veELTA minted (positive) or burned (negative) by the call
+  veDelta: bigint;
+  // veELTA balance after the call
+  veBalance: bigint;
+  // The veELTA figure emitted in Locked / AmountIncreased / LockExtended:
+  // principal * boost at the new remaining time, which differs from
+  // veBalance once part of the balance was minted at an earlier boost
+  eventVeAmount: bigint;
+}
+
+/**
+ * VeELTA._calculateBoost (1e18 = 1x)
+ */
+export function calculateBoost(duration: bigint, params: LockParameters = VE_LOCK_PARAMETERS): bigint {
+  if (duration >= params.maxLock) return params.boostMax;
+  if (duration <= params.minLock) return params.boostMin;
+
+  return params.boostMin + ((params.boostMax - params.boostMin) * duration) / params.maxLock;
+}
+
+/**
+ * veELTA for `principal` locked with `duration` seconds remaining
+ */
+export function getVeAmount(
+  principal: bigint,
+  duration: bigint,
+  params: LockParameters = VE_LOCK_PARAMETERS
+): bigint {
+  return (principal * calculateBoost(duration, params)) / BOOST_PRECISION;
+}
+
+/**
+ * VeELTA.lock(amount, unlockTime) for an account without a lock
+ */
+export function quoteLock(
+  amount: bigint,
+  unlockTime: bigint,
+  now: bigint,
+  params: LockParameters = VE_LOCK_PARAMETERS
+): VeQuote {
+  if (amount === 0n) throw new VeMathError('InvalidAmount', 'amount is zero');
+  if (unlockTime <= now + params.minLock) throw new VeMathError('LockTooShort', 'unlock time is within the minimum lock');
+  if (unlockTime > now + params.maxLock) throw new VeMathError('LockTooLong', 'unlock time is past the maximum lock');
+
+  const remainingTime = unlockTime - now;
+  const boost = calculateBoost(remainingTime, params);
+  const veAmount = (amount * boost) / BOOST_PRECISION;
+
+  return {
+    remainingTime,
+    boost,
+    principal: amount,
+    unlockTime,
+    veDelta: veAmount,
+    veBalance: veAmount,
+    eventVeAmount: veAmount,
+  };
+}
+
+/**
+ * VeELTA.increaseAmount(amount): only the added principal earns veELTA, at
+ * the boost for the time left on the lock
+ */
+export function quoteIncreaseAmount(
+  lock: VeLock,
+  amount: bigint,
+  now: bigint,
+  params: LockParameters = VE_LOCK_PARAMETERS
+): VeQuote {
+  if (lock.principal === 0n) throw new VeMathError('NoActiveLock', 'account has no lock');
+  if (now >= lock.unlockTime) throw new VeMathError('LockExpired', 'lock has expired');
+  if (amount === 0n) throw new VeMathError('InvalidAmount', 'amount is zero');
+
+  const remainingTime = lock.unlockTime - now;
+  const boost = calculateBoost(remainingTime, params);
+
+  const oldVeAmount = (lock.principal * boost) / BOOST_PRECISION;
+  const principal = lock.principal + amount;
+  const newVeAmount = (principal * boost) / BOOST_PRECISION;
+  const veDelta = newVeAmount - oldVeAmount;
+
+  return {
+    remainingTime,
+    boost,
+    principal,
+    unlockTime: lock.unlockTime,
+    veDelta,
+    veBalance: lock.veBalance + veDelta,
+    eventVeAmount: newVeAmount,
+  };
+}
+
+/**
+ * VeELTA.extendLock(newUnlockTime): the principal earns the difference
+ * between the boost for the new and the old remaining time (zero once
+ * expired, which counts as BOOST_MIN)
+ */
+export function quoteExtendLock(
+  lock: VeLock,
+  newUnlockTime: bigint,
+  now: bigint,
+  params: LockParameters = VE_LOCK_PARAMETERS
+): VeQuote {
+  if (lock.principal === 0n) throw new VeMathError('NoActiveLock', 'account has no lock');
+  if (newUnlockTime <= lock.unlockTime) throw new VeMathError('InvalidUnlockTime', 'unlock time must increase');
+  // VeELTA has no such check and instead underflows on the new remaining
+  // time when an expired lock is extended to a time already past
+  if (newUnlockTime <= now) throw new VeMathError('InvalidUnlockTime', 'unlock time is not in the future');
+  if (newUnlockTime > now + params.maxLock) throw new VeMathError('LockTooLong', 'unlock time is past the maximum lock');
+
+  const oldRemainingTime = lock.unlockTime > now ? lock.unlockTime - now : 0n;
+  const remainingTime = newUnlockTime - now;
+  const boost = calculateBoost(remainingTime, params);
+
+  const oldVeAmount = (lock.principal * calculateBoost(oldRemainingTime, params)) / BOOST_PRECISION;
+  const newVeAmount = (lock.principal * boost) / BOOST_PRECISION;
+  const veDelta = newVeAmount - oldVeAmount;
+
+  return {
+    remainingTime,
+    boost,
+    principal: lock.principal,
+    unlockTime: newUnlockTime,
+    veDelta,
+    veBalance: lock.veBalance + veDelta,
+    eventVeAmount: newVeAmount,
+  };
+}
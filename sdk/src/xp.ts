@@ -0,0 +1,29 @@
+import type { Address } from 'viem';
+import { ElataXPABI } from './abi';
+import { requireAddress, writeCall, type ElataContext } from './client';
+
+export const elataXpCalls = (address: Address) => ({
+  balanceOf: (account: Address) => ({ address, abi: ElataXPABI, functionName: 'balanceOf', args: [account] }) as const,
+  totalSupply: () => ({ address, abi: ElataXPABI, functionName: 'totalSupply' }) as const,
+  getVotes: (account: Address) => ({ address, abi: ElataXPABI, functionName: 'getVotes', args: [account] }) as const,
+  getPastXP: (account: Address, blockNumber: bigint) =>
+    ({ address, abi: ElataXPABI, functionName: 'getPastXP', args: [account, blockNumber] }) as const,
+  delegates: (account: Address) => ({ address, abi: ElataXPABI, functionName: 'delegates', args: [account] }) as const,
+  delegate: (delegatee: Address) => ({ address, abi: ElataXPABI, functionName: 'delegate', args: [delegatee] }) as const,
+});
+
+export function createXpModule(ctx: ElataContext) {
+  const xp = () => elataXpCalls(requireAddress(ctx, 'ElataXP'));
+  const { publicClient } = ctx;
+
+  return {
+    getXP: (account: Address) => publicClient.readContract(xp().balanceOf(account)),
+
+    getPastXP: (account: Address, blockNumber: bigint) =>
+      publicClient.readContract(xp().getPastXP(account, blockNumber)),
+
+    // getPastXP reads vote checkpoints; XP minted by updateBySig is only
+    // checkpointed once the holder has delegated (award() self-delegates)
+    delegate: (delegatee: Address) => writeCall(ctx, xp().delegate(delegatee)),
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * parseAppCreated must read both full receipt logs and the bare
+ * { address, data, topics } logs of an EIP-5792 bundle receipt, and skip
+ * the other events a createApp transaction emits.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeAbiParameters, encodeEventTopics, erc20Abi, type Hex } from 'viem';
+import { AppFactoryABI } from '../src/abi';
+import { parseAppCreated } from '../src/apps';
+
+const factory = '0x610178dA211FEF7D417bC0e6FeD39F05609AD788';
+const creator = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const token = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+const appCreated = {
+  address: factory,
+  topics: encodeEventTopics({ abi: AppFactoryABI, eventName: 'AppCreated', args: { appId: 7n, creator, token } }) as Hex[],
+  data: encodeAbiParameters(
+    [{ type: 'address' }, { type: 'address' }, { type: 'uint256' }],
+    ['0x0000000000000000000000000000000000000001', '0x0000000000000000000000000000000000000002', 5n * 10n ** 26n]
+  ),
+} as const;
+
+const transfer = {
+  address: token,
+  topics: encodeEventTopics({ abi: erc20Abi, eventName: 'Transfer', args: { from: creator, to: factory } }) as Hex[],
+  data: encodeAbiParameters([{ type: 'uint256' }], [1n]),
+} as const;
+
+test('parseAppCreated finds AppCreated among other bundle logs', () => {
+  const event = parseAppCreated([transfer, appCreated]);
+  assert.ok(event);
+  assert.equal(event.appId, 7n);
+  assert.equal(event.creator, creator);
+  assert.equal(event.token, token);
+  assert.equal(event.creatorStaked, 5n * 10n ** 26n);
+});
+
+test('parseAppCreated returns undefined without an AppCreated log', () => {
+  assert.equal(parseAppCreated([transfer]), undefined);
+  assert.equal(parseAppCreated([{ address: factory, topics: [], data: '0x' }]), undefined);
+});
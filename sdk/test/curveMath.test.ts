@@ -0,0 +1,169 @@
+/**
+ * Checks the offline curve math against outputs recorded from the
+ * contracts by test/apps/CurveMathFixtures.t.sol.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import {
+  applySlippage,
+  getCurrentPrice,
+  getEltaInForTokens,
+  getMaxBuy,
+  getPriceImpact,
+  getProgress,
+  getTokensOut,
+  quoteBuy,
+  type CurveReserves,
+} from '../src/curveMath';
+
+interface FixtureState {
+  reserveElta: string;
+  reserveToken: string;
+  currentPrice: string;
+  progress: string;
+  tokensOut: { eltaIn: string; tokensOut: string }[];
+  eltaInForTokens: { tokensDesired: string; eltaIn: string }[];
+  buy: {
+    eltaIn: string;
+    tokensOut: string;
+    tradingFee: string;
+    protocolFee: string;
+    routerFee: string;
+    totalCost: string;
+    reserveElta: string;
+    reserveToken: string;
+    newPrice: string;
+  };
+}
+
+interface FixtureScenario {
+  name: string;
+  targetRaisedElta: string;
+  protocolFeeRate: string;
+  feeBps: string;
+  states: FixtureState[];
+}
+
+const { scenarios }: { scenarios: FixtureScenario[] } = JSON.parse(
+  readFileSync(new URL('./fixtures/curve-math.json', import.meta.url), 'utf-8')
+);
+
+for (const scenario of scenarios) {
+  const fees = { protocolFeeRate: BigInt(scenario.protocolFeeRate), feeBps: BigInt(scenario.feeBps) };
+
+  scenario.states.forEach((state, i) => {
+    const curve: CurveReserves = {
+      eltaReserve: BigInt(state.reserveElta),
+      tokenReserve: BigInt(state.reserveToken),
+      target: BigInt(scenario.targetRaisedElta),
+      isGraduated: false,
+    };
+
+    test(`${scenario.name} #${i}: views`, () => {
+      assert.equal(getCurrentPrice(curve), BigInt(state.currentPrice));
+      assert.equal(getProgress(curve), BigInt(state.progress));
+
+      for (const probe of state.tokensOut) {
+        assert.equal(
+          getTokensOut(curve, BigInt(probe.eltaIn)),
+          BigInt(probe.tokensOut),
+          `getTokensOut(${probe.eltaIn})`
+        );
+      }
+      for (const probe of state.eltaInForTokens) {
+        assert.equal(
+          getEltaInForTokens(curve, BigInt(probe.tokensDesired)),
+          BigInt(probe.eltaIn),
+          `getEltaInForTokens(${probe.tokensDesired})`
+        );
+      }
+    });
+
+    test(`${scenario.name} #${i}: buy(${state.buy.eltaIn})`, () => {
+      const quote = quoteBuy(curve, BigInt(state.buy.eltaIn), fees);
+
+      assert.equal(quote.eltaIn, BigInt(state.buy.eltaIn));
+      assert.equal(quote.tokensOut, BigInt(state.buy.tokensOut));
+      assert.equal(quote.tradingFee, BigInt(state.buy.tradingFee));
+      assert.equal(quote.protocolFee, BigInt(state.buy.protocolFee));
+      assert.equal(quote.routerFee, BigInt(state.buy.routerFee));
+      assert.equal(quote.totalCost, BigInt(state.buy.totalCost));
+      assert.equal(quote.reserveElta, BigInt(state.buy.reserveElta));
+      assert.equal(quote.reserveToken, BigInt(state.buy.reserveToken));
+      assert.equal(quote.newPrice, BigInt(state.buy.newPrice));
+      assert.equal(quote.refund, 0n);
+      assert.equal(quote.graduates, false);
+    });
+  });
+}
+
+test('buy is capped at the amount left to the target', () => {
+  const curve: CurveReserves = {
+    eltaReserve: 41_900n * 10n ** 18n,
+    tokenReserve: 10n ** 24n,
+    target: 42_000n * 10n ** 18n,
+    isGraduated: false,
+  };
+  const quote = quoteBuy(curve, 500n * 10n ** 18n, { protocolFeeRate: 250n, feeBps: 100n });
+
+  assert.equal(quote.eltaIn, 100n * 10n ** 18n);
+  assert.equal(quote.protocolFee, 25n * 10n ** 17n);
+  assert.equal(quote.refund, 400n * 10n ** 18n);
+  assert.equal(quote.curveAllowance, 500n * 10n ** 18n + quote.tradingFee);
+  assert.equal(quote.totalCost, 100n * 10n ** 18n + quote.tradingFee + quote.routerFee);
+  assert.equal(quote.graduates, false); // the protocol fee keeps the reserve just under target
+});
+
+test('max buy leaves room for the fees on top of eltaIn', () => {
+  const curve: CurveReserves = {
+    eltaReserve: 100n * 10n ** 18n,
+    tokenReserve: 10n ** 27n,
+    target: 42_000n * 10n ** 18n,
+    isGraduated: false,
+  };
+  const fees = { protocolFeeRate: 250n, feeBps: 100n };
+  const balance = 1_000n * 10n ** 18n + 12_345n;
+  const cost = (eltaIn: bigint) => {
+    const quote = quoteBuy(curve, eltaIn, fees);
+    return quote.curveAllowance + quote.routerAllowance;
+  };
+
+  const max = getMaxBuy(curve, balance, fees);
+  assert.ok(cost(max) <= balance);
+  assert.ok(cost(max + 1n) > balance);
+
+  assert.equal(getMaxBuy(curve, balance, { protocolFeeRate: 0n, feeBps: 0n }), balance);
+  assert.equal(getMaxBuy(curve, 0n, fees), 0n);
+  assert.equal(getMaxBuy({ ...curve, isGraduated: true }, balance, fees), 0n);
+});
+
+test('graduated curves quote nothing and reject buys', () => {
+  const curve: CurveReserves = {
+    eltaReserve: 42_000n * 10n ** 18n,
+    tokenReserve: 10n ** 24n,
+    target: 42_000n * 10n ** 18n,
+    isGraduated: true,
+  };
+
+  assert.equal(getTokensOut(curve, 10n ** 18n), 0n);
+  assert.equal(getEltaInForTokens(curve, 10n ** 18n), 0n);
+  assert.throws(() => quoteBuy(curve, 10n ** 18n, { protocolFeeRate: 0n, feeBps: 0n }), /AlreadyGraduated/);
+});
+
+test('slippage and price impact', () => {
+  const curve: CurveReserves = {
+    eltaReserve: 100n * 10n ** 18n,
+    tokenReserve: 10n ** 27n,
+    target: 42_000n * 10n ** 18n,
+    isGraduated: false,
+  };
+
+  assert.equal(applySlippage(10_000n, 100n), 9_900n);
+  assert.equal(applySlippage(999n, 50n), 994n); // rounds down
+
+  // Buying 100 ELTA into a 100 ELTA reserve doubles the average price over spot
+  const quote = quoteBuy(curve, 100n * 10n ** 18n, { protocolFeeRate: 0n, feeBps: 0n });
+  assert.equal(getPriceImpact(curve, quote), 10_000n);
+});
@@ -0,0 +1,93 @@
+/**
+ * Checks that every custom error declared in the contracts has a message,
+ * and that reverts are decoded even when the called contract's ABI does
+ * not list the error (as for a failed transferFrom inside buy()).
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  BaseError,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+  encodeErrorResult,
+} from 'viem';
+import * as abis from '../src/abi';
+import { AppBondingCurveABI } from '../src/abi';
+import { ELATA_ERRORS_ABI, ELATA_ERROR_MESSAGES, decodeElataError, decodeRevertData } from '../src/errors';
+
+const contractsDir = fileURLToPath(new URL('../../src/', import.meta.url));
+const spender = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+const solidityFiles = (dir: string): string[] =>
+  readdirSync(dir).flatMap((entry) => {
+    const path = join(dir, entry);
+    return statSync(path).isDirectory() ? solidityFiles(path) : path.endsWith('.sol') ? [path] : [];
+  });
+
+const declared = ELATA_ERRORS_ABI.map((item) => item.name);
+
+// A revert from buy() as wagmi's writeContract surfaces it
+const buyRevert = (data: `0x${string}`) =>
+  new ContractFunctionExecutionError(
+    new ContractFunctionRevertedError({ abi: AppBondingCurveABI, data, functionName: 'buy' }),
+    { abi: AppBondingCurveABI, functionName: 'buy', args: [1n, 0n] }
+  );
+
+test('every custom error declared in src/ has a message', () => {
+  const missing = solidityFiles(contractsDir).flatMap((file) =>
+    [...readFileSync(file, 'utf-8').matchAll(/^\s*error (\w+)\(/gm)]
+      .map((match) => match[1])
+      .filter((name) => !declared.includes(name as never))
+      .map((name) => `${name} (${file})`)
+  );
+
+  assert.deepEqual(missing, []);
+});
+
+test('every error in the SDK ABIs has a message', () => {
+  const missing = Object.entries(abis).flatMap(([abiName, abi]) =>
+    (abi as readonly { type: string; name?: string }[])
+      .filter((item) => item.type === 'error' && !(item.name! in ELATA_ERROR_MESSAGES))
+      .map((item) => `${abiName}.${item.name}`)
+  );
+
+  assert.deepEqual(missing, []);
+});
+
+test('decodes a protocol error missing from the called ABI', () => {
+  const data = encodeErrorResult({ abi: ELATA_ERRORS_ABI, errorName: 'InsufficientOutput' });
+  const decoded = decodeElataError(buyRevert(data));
+
+  assert.equal(decoded.name, 'InsufficientOutput');
+  assert.equal(decoded.message, ELATA_ERROR_MESSAGES.InsufficientOutput);
+});
+
+test('decodes OpenZeppelin errors with arguments', () => {
+  const data = encodeErrorResult({
+    abi: ELATA_ERRORS_ABI,
+    errorName: 'ERC20InsufficientAllowance',
+    args: [spender, 1n, 2n],
+  });
+
+  assert.deepEqual(decodeRevertData(data), {
+    name: 'ERC20InsufficientAllowance',
+    args: [spender, 1n, 2n],
+    message: ELATA_ERROR_MESSAGES.ERC20InsufficientAllowance,
+  });
+});
+
+test('falls back to the viem message for unknown reverts and rejections', () => {
+  assert.equal(decodeRevertData('0xdeadbeef'), undefined);
+  assert.equal(decodeElataError(buyRevert('0xdeadbeef')).name, undefined);
+
+  const rejected = new BaseError('Request failed', {
+    cause: new UserRejectedRequestError(new Error('User denied transaction signature')),
+  });
+  assert.equal(decodeElataError(rejected).message, 'Transaction rejected in your wallet.');
+  assert.equal(decodeElataError(new Error('boom')).message, 'boom');
+});
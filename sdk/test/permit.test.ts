@@ -0,0 +1,84 @@
+/**
+ * Checks the permit typed data against OpenZeppelin ERC20Permit's
+ * hashing: PERMIT_TYPEHASH, the EIP-712 domain separator and the digest
+ * that ECDSA.recover is run on.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  concat,
+  encodeAbiParameters,
+  hashTypedData,
+  keccak256,
+  recoverTypedDataAddress,
+  toHex,
+  type Address,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { buildPermitTypedData, toPermitDomain, toSignedPermit, type PermitMessage } from '../src/permit';
+
+const account = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const token: Address = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+// eip712Domain() as returned by ELTA (fields 0x0f: name, version, chainId, verifyingContract)
+const domain = toPermitDomain(['0x0f', 'ELTA', '1', 31337n, token, `0x${'00'.repeat(32)}`, []]);
+
+const message: PermitMessage = {
+  owner: account.address,
+  spender: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+  value: 110n * 10n ** 18n,
+  nonce: 3n,
+  deadline: 1_900_000_000n,
+};
+
+// Solidity-side hashing, as in OpenZeppelin EIP712 / ERC20Permit
+const PERMIT_TYPEHASH = keccak256(
+  toHex('Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)')
+);
+const DOMAIN_TYPEHASH = keccak256(
+  toHex('EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)')
+);
+
+function solidityDigest() {
+  const domainSeparator = keccak256(
+    encodeAbiParameters(
+      [{ type: 'bytes32' }, { type: 'bytes32' }, { type: 'bytes32' }, { type: 'uint256' }, { type: 'address' }],
+      [DOMAIN_TYPEHASH, keccak256(toHex('ELTA')), keccak256(toHex('1')), 31337n, token]
+    )
+  );
+  const structHash = keccak256(
+    encodeAbiParameters(
+      [
+        { type: 'bytes32' },
+        { type: 'address' },
+        { type: 'address' },
+        { type: 'uint256' },
+        { type: 'uint256' },
+        { type: 'uint256' },
+      ],
+      [PERMIT_TYPEHASH, message.owner, message.spender, message.value, message.nonce, message.deadline]
+    )
+  );
+  return keccak256(concat(['0x1901', domainSeparator, structHash]));
+}
+
+test('PERMIT_TYPEHASH matches OpenZeppelin', () => {
+  assert.equal(PERMIT_TYPEHASH, '0x6e71edae12b1b97f4d1f60370fef10105fa2faae0126114a169c64845d6126c9');
+});
+
+test('typed data digest matches the contract-side digest', () => {
+  assert.equal(hashTypedData(buildPermitTypedData(domain, message)), solidityDigest());
+});
+
+test('signed permit recovers to the owner and splits into v, r, s', async () => {
+  const typedData = buildPermitTypedData(domain, message);
+  const signature = await account.signTypedData(typedData);
+  const permit = toSignedPermit(token, message, signature);
+
+  assert.equal(await recoverTypedDataAddress({ ...typedData, signature }), account.address);
+  assert.ok(permit.v === 27 || permit.v === 28);
+  assert.equal(concat([permit.r, permit.s, toHex(permit.v, { size: 1 })]), signature);
+  assert.equal(permit.token, token);
+  assert.equal(permit.nonce, message.nonce);
+});
@@ -0,0 +1,106 @@
+/**
+ * Checks the offline veELTA math against outputs recorded from the
+ * contract by test/unit/VeMathFixtures.t.sol.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import {
+  calculateBoost,
+  getVeAmount,
+  quoteExtendLock,
+  quoteIncreaseAmount,
+  quoteLock,
+  VE_LOCK_PARAMETERS,
+  VeMathError,
+  type VeLock,
+  type VeQuote,
+} from '../src/veMath';
+
+interface FixtureStep {
+  action: 'lock' | 'increaseAmount' | 'extendLock';
+  timestamp: string;
+  amount: string;
+  unlockTime: string;
+  principalAfter: string;
+  unlockTimeAfter: string;
+  veBalanceAfter: string;
+}
+
+interface Fixtures {
+  boost: { duration: string; boost: string }[];
+  sequences: { name: string; steps: FixtureStep[] }[];
+}
+
+const fixtures: Fixtures = JSON.parse(
+  readFileSync(new URL('./fixtures/ve-math.json', import.meta.url), 'utf-8')
+);
+
+const DAY = 86_400n;
+const ONE = 10n ** 18n;
+
+test('calculateBoost matches VeELTA._calculateBoost', () => {
+  for (const probe of fixtures.boost) {
+    assert.equal(calculateBoost(BigInt(probe.duration)), BigInt(probe.boost), `boost(${probe.duration})`);
+  }
+});
+
+for (const sequence of fixtures.sequences) {
+  test(`${sequence.name}: lock, increaseAmount and extendLock`, () => {
+    let lock: VeLock = { principal: 0n, unlockTime: 0n, veBalance: 0n };
+
+    for (const step of sequence.steps) {
+      const now = BigInt(step.timestamp);
+      let quote: VeQuote;
+      if (step.action === 'lock') {
+        quote = quoteLock(BigInt(step.amount), BigInt(step.unlockTime), now);
+      } else if (step.action === 'increaseAmount') {
+        quote = quoteIncreaseAmount(lock, BigInt(step.amount), now);
+      } else {
+        quote = quoteExtendLock(lock, BigInt(step.unlockTime), now);
+      }
+
+      assert.equal(quote.principal, BigInt(step.principalAfter), `${step.action} principal`);
+      assert.equal(quote.unlockTime, BigInt(step.unlockTimeAfter), `${step.action} unlockTime`);
+      assert.equal(quote.veBalance, BigInt(step.veBalanceAfter), `${step.action} veBalance`);
+
+      lock = { principal: quote.principal, unlockTime: quote.unlockTime, veBalance: quote.veBalance };
+    }
+  });
+}
+
+test('balance keeps the boost it was minted at', () => {
+  const start = 1_700_000_000n;
+  const locked = quoteLock(1000n * ONE, start + 730n * DAY, start);
+  assert.equal(locked.veBalance, 2000n * ONE);
+
+  // Half-way through, new principal only earns the boost for the time left
+  const increased = quoteIncreaseAmount(locked, 1000n * ONE, start + 365n * DAY);
+  assert.equal(increased.veDelta, 1500n * ONE);
+  assert.equal(increased.veBalance, 3500n * ONE);
+  assert.equal(increased.eventVeAmount, 3000n * ONE);
+  assert.equal(increased.veBalance, locked.veBalance + getVeAmount(1000n * ONE, 365n * DAY));
+});
+
+test('lock bounds and reverts', () => {
+  const now = 1_700_000_000n;
+  const { minLock, maxLock } = VE_LOCK_PARAMETERS;
+
+  assert.throws(() => quoteLock(ONE, now + minLock, now), /LockTooShort/);
+  assert.throws(() => quoteLock(ONE, now + maxLock + 1n, now), /LockTooLong/);
+  assert.throws(() => quoteLock(0n, now + maxLock, now), /InvalidAmount/);
+  assert.throws(
+    () => quoteLock(ONE, now + maxLock + 1n, now),
+    (error) => error instanceof VeMathError && error.errorName === 'LockTooLong' && error.reason.length > 0
+  );
+  assert.equal(quoteLock(ONE, now + maxLock, now).boost, 2n * ONE);
+
+  const expired: VeLock = { principal: ONE, unlockTime: now - 1n, veBalance: ONE };
+  assert.throws(() => quoteIncreaseAmount(expired, ONE, now), /LockExpired/);
+  assert.throws(() => quoteExtendLock(expired, expired.unlockTime, now), /InvalidUnlockTime/);
+  // Later than the old unlock time but not past now: the contract underflows
+  assert.throws(() => quoteExtendLock(expired, now, now), /InvalidUnlockTime/);
+  assert.equal(quoteExtendLock(expired, now + 1n, now).remainingTime, 1n);
+  assert.throws(() => quoteExtendLock({ ...expired, principal: 0n }, now + DAY, now), /NoActiveLock/);
+});
@@ -0,0 +1,314 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "forge-std/Test.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { ELTA } from "../../src/token/ELTA.sol";
+import { AppToken } from "../../src/apps/AppToken.sol";
+import { AppBondingCurve } from "../../src/apps/AppBondingCurve.sol";
+import { AppFeeRouter } from "../../src/fees/AppFeeRouter.sol";
+import { IUniswapV2Router02 } from "../../src/interfaces/IUniswapV2Router02.sol";
+import { IAppFeeRouter } from "../../src/interfaces/IAppFeeRouter.sol";
+import { IRewardsDistributor } from "../../src/interfaces/IRewardsDistributor.sol";
+
+contract FixtureRewardsSink is IRewardsDistributor {
+    IERC20 public immutable eltaToken;
+
+    constructor(IERC20 _elta) {
+        eltaToken = _elta;
+    }
+
+    function deposit(uint256 amount) external {
+        eltaToken.transferFrom(msg.sender, address(this), amount);
+    }
+}
+
+/**
+ * @title CurveMathFixturesTest
+ * @notice Records AppBondingCurve / AppFeeRouter outputs for the SDK's
+ *         offline curve math (sdk/src/curveMath.ts)
+ * @dev Fails when sdk/test/fixtures/curve-math.json no longer matches the
+ *      contracts. Regenerate with:
+ *      WRITE_CURVE_FIXTURES=true forge test --match-contract CurveMathFixtures
+ */
+contract CurveMathFixturesTest is Test {
+    string internal constant FIXTURE_PATH = "sdk/test/fixtures/curve-math.json";
+
+    ELTA public elta;
+
+    address public admin = makeAddr("admin");
+    address public factory = makeAddr("factory");
+    address public creator = makeAddr("creator");
+    address public buyer = makeAddr("buyer");
+    address public treasury = makeAddr("treasury");
+    address public governance = makeAddr("governance");
+    address public mockRouter = makeAddr("mockRouter");
+
+    struct Scenario {
+        string name;
+        uint256 seedElta;
+        uint256 tokenSupply;
+        uint256 targetRaisedElta;
+        uint256 protocolFeeRate;
+        bool withFeeRouter;
+        uint256 feeBps;
+        uint256[] buys;
+    }
+
+    function setUp() public {
+        elta = new ELTA("ELTA", "ELTA", admin, admin, 10_000_000 ether, 77_000_000 ether);
+
+        vm.mockCall(
+            mockRouter, abi.encodeWithSignature("factory()"), abi.encode(makeAddr("mockFactory"))
+        );
+
+        vm.prank(admin);
+        elta.transfer(buyer, 1_000_000 ether);
+    }
+
+    function test_CurveMathFixtures() public {
+        Scenario[] memory scenarios = new Scenario[](3);
+
+        uint256[] memory defaultBuys = new uint256[](5);
+        defaultBuys[0] = 1 ether;
+        defaultBuys[1] = 1000 ether;
+        defaultBuys[2] = 12_345.678901234567891234 ether;
+        defaultBuys[3] = 7;
+        defaultBuys[4] = 5000 ether;
+        scenarios[0] = Scenario(
+            "default", 100 ether, 1_000_000_000 ether, 42_000 ether, 250, true, 100, defaultBuys
+        );
+
+        uint256[] memory noFeeBuys = new uint256[](3);
+        noFeeBuys[0] = 333 ether;
+        noFeeBuys[1] = 1 ether + 1;
+        noFeeBuys[2] = 9999 ether;
+        scenarios[1] = Scenario(
+            "no-fees", 100 ether, 1_000_000_000 ether, 42_000 ether, 0, false, 0, noFeeBuys
+        );
+
+        uint256[] memory maxFeeBuys = new uint256[](4);
+        maxFeeBuys[0] = 1;
+        maxFeeBuys[1] = 0.3 ether;
+        maxFeeBuys[2] = 777 ether;
+        maxFeeBuys[3] = 1000 ether;
+        scenarios[2] = Scenario(
+            "max-fees-odd-reserves",
+            1 ether + 7,
+            123_456_789 ether + 3,
+            5000 ether,
+            1000,
+            true,
+            500,
+            maxFeeBuys
+        );
+
+        string[] memory items = new string[](scenarios.length);
+        for (uint256 i = 0; i < scenarios.length; i++) {
+            items[i] = _runScenario(scenarios[i], 2);
+        }
+        string memory json =
+            string.concat(_object(_one(_kv("scenarios", _array(items, 1))), 0), "\n");
+
+        if (vm.envOr("WRITE_CURVE_FIXTURES", false)) {
+            vm.writeFile(FIXTURE_PATH, json);
+            return;
+        }
+
+        assertEq(
+            vm.readFile(FIXTURE_PATH),
+            json,
+            "curve-math.json is stale: rerun with WRITE_CURVE_FIXTURES=true"
+        );
+    }
+
+    function _runScenario(Scenario memory s, uint256 depth) internal returns (string memory) {
+        AppFeeRouter feeRouter;
+        FixtureRewardsSink sink;
+        if (s.withFeeRouter) {
+            sink = new FixtureRewardsSink(elta);
+            feeRouter = new AppFeeRouter(elta, IRewardsDistributor(address(sink)), governance);
+            vm.prank(governance);
+            feeRouter.setFeeBps(s.feeBps);
+        }
+
+        AppToken token = new AppToken("Fixture", "FIX", 18, s.tokenSupply, creator, factory);
+        AppBondingCurve curve = new AppBondingCurve(
+            0,
+            factory,
+            elta,
+            token,
+            IUniswapV2Router02(mockRouter),
+            s.targetRaisedElta,
+            365 days,
+            treasury,
+            treasury,
+            s.protocolFeeRate,
+            IAppFeeRouter(address(feeRouter))
+        );
+
+        vm.prank(factory);
+        token.mint(address(curve), s.tokenSupply);
+        vm.prank(admin);
+        elta.transfer(address(curve), s.seedElta);
+        vm.prank(factory);
+        curve.initializeCurve(s.seedElta, s.tokenSupply);
+
+        vm.startPrank(buyer);
+        elta.approve(address(curve), type(uint256).max);
+        if (s.withFeeRouter) elta.approve(address(feeRouter), type(uint256).max);
+        vm.stopPrank();
+
+        string[] memory states = new string[](s.buys.length);
+        for (uint256 i = 0; i < s.buys.length; i++) {
+            states[i] = _recordState(curve, address(sink), s.buys[i], depth + 2);
+        }
+
+        string[] memory fields = new string[](7);
+        fields[0] = _kv("name", string.concat('"', s.name, '"'));
+        fields[1] = _kv("seedElta", _num(s.seedElta));
+        fields[2] = _kv("tokenSupply", _num(s.tokenSupply));
+        fields[3] = _kv("targetRaisedElta", _num(s.targetRaisedElta));
+        fields[4] = _kv("protocolFeeRate", _num(s.protocolFeeRate));
+        fields[5] = _kv("feeBps", _num(s.feeBps));
+        fields[6] = _kv("states", _array(states, depth + 1));
+        return _object(fields, depth);
+    }
+
+    /// @dev Views at the current state, then the result of buying `eltaIn` from it
+    function _recordState(AppBondingCurve curve, address sink, uint256 eltaIn, uint256 depth)
+        internal
+        returns (string memory)
+    {
+        (uint256 reserveElta, uint256 reserveToken,,,, uint256 progress) = curve.getCurveState();
+
+        uint256[] memory eltaProbes = new uint256[](4);
+        eltaProbes[0] = 1;
+        eltaProbes[1] = 1 ether;
+        eltaProbes[2] = 1000 ether;
+        eltaProbes[3] = 1_000_000 ether;
+
+        uint256[] memory tokenProbes = new uint256[](5);
+        tokenProbes[0] = 1;
+        tokenProbes[1] = 1 ether;
+        tokenProbes[2] = 1_000_000 ether;
+        tokenProbes[3] = reserveToken - 1;
+        tokenProbes[4] = reserveToken;
+
+        string[] memory tokensOut = new string[](eltaProbes.length);
+        for (uint256 i = 0; i < eltaProbes.length; i++) {
+            tokensOut[i] = _pair(
+                "eltaIn", eltaProbes[i], "tokensOut", curve.getTokensOut(eltaProbes[i]), depth + 2
+            );
+        }
+
+        string[] memory eltaInForTokens = new string[](tokenProbes.length);
+        for (uint256 i = 0; i < tokenProbes.length; i++) {
+            eltaInForTokens[i] = _pair(
+                "tokensDesired",
+                tokenProbes[i],
+                "eltaIn",
+                curve.getEltaInForTokens(tokenProbes[i]),
+                depth + 2
+            );
+        }
+
+        string[] memory fields = new string[](7);
+        fields[0] = _kv("reserveElta", _num(reserveElta));
+        fields[1] = _kv("reserveToken", _num(reserveToken));
+        fields[2] = _kv("currentPrice", _num(curve.getCurrentPrice()));
+        fields[3] = _kv("progress", _num(progress));
+        fields[4] = _kv("tokensOut", _array(tokensOut, depth + 1));
+        fields[5] = _kv("eltaInForTokens", _array(eltaInForTokens, depth + 1));
+        fields[6] = _kv("buy", _recordBuy(curve, sink, eltaIn, depth + 1));
+        return _object(fields, depth);
+    }
+
+    /// @dev `sink` receives the fee router's deposits (address(0) without a router)
+    function _recordBuy(AppBondingCurve curve, address sink, uint256 eltaIn, uint256 depth)
+        internal
+        returns (string memory)
+    {
+        uint256 buyerBefore = elta.balanceOf(buyer);
+        uint256 curveBefore = elta.balanceOf(address(curve));
+        uint256 treasuryBefore = elta.balanceOf(treasury);
+        uint256 sinkBefore = elta.balanceOf(sink);
+        uint256 reserveBefore = curve.reserveElta();
+
+        vm.prank(buyer);
+        uint256 tokensOut = curve.buy(eltaIn, 0);
+
+        uint256 reserveDelta = curve.reserveElta() - reserveBefore;
+        uint256 tradingFee = elta.balanceOf(address(curve)) - curveBefore - reserveDelta;
+
+        string[] memory fields = new string[](9);
+        fields[0] = _kv("eltaIn", _num(eltaIn));
+        fields[1] = _kv("tokensOut", _num(tokensOut));
+        // The trading fee stays on the curve; the router fee is pulled from the buyer separately
+        fields[2] = _kv("tradingFee", _num(tradingFee));
+        fields[3] = _kv("protocolFee", _num(elta.balanceOf(treasury) - treasuryBefore));
+        fields[4] = _kv("routerFee", _num(elta.balanceOf(sink) - sinkBefore));
+        fields[5] = _kv("totalCost", _num(buyerBefore - elta.balanceOf(buyer)));
+        fields[6] = _kv("reserveElta", _num(curve.reserveElta()));
+        fields[7] = _kv("reserveToken", _num(curve.reserveToken()));
+        fields[8] = _kv("newPrice", _num(curve.getCurrentPrice()));
+        return _object(fields, depth);
+    }
+
+    // ---- JSON writer (matches JSON.stringify(value, null, 2)) ----
+
+    function _num(uint256 value) internal pure returns (string memory) {
+        return string.concat('"', vm.toString(value), '"');
+    }
+
+    function _kv(string memory key, string memory value) internal pure returns (string memory) {
+        return string.concat('"', key, '": ', value);
+    }
+
+    function _one(string memory item) internal pure returns (string[] memory items) {
+        items = new string[](1);
+        items[0] = item;
+    }
+
+    function _pair(
+        string memory keyA,
+        uint256 valueA,
+        string memory keyB,
+        uint256 valueB,
+        uint256 depth
+    ) internal pure returns (string memory) {
+        string[] memory fields = new string[](2);
+        fields[0] = _kv(keyA, _num(valueA));
+        fields[1] = _kv(keyB, _num(valueB));
+        return _object(fields, depth);
+    }
+
+    function _object(string[] memory fields, uint256 depth) internal pure returns (string memory) {
+        return _join(fields, depth, "{", "}");
+    }
+
+    function _array(string[] memory items, uint256 depth) internal pure returns (string memory) {
+        return _join(items, depth, "[", "]");
+    }
+
+    function _join(string[] memory items, uint256 depth, string memory open, string memory close)
+        internal
+        pure
+        returns (string memory out)
+    {
+        if (items.length == 0) return string.concat(open, close);
+
+        out = string.concat(open, "\n");
+        for (uint256 i = 0; i < items.length; i++) {
+            string memory separator = i + 1 < items.length ? ",\n" : "\n";
+            out = string.concat(out, _indent(depth + 1), items[i], separator);
+        }
+        out = string.concat(out, _indent(depth), close);
+    }
+
+    function _indent(uint256 depth) internal pure returns (string memory out) {
+        for (uint256 i = 0; i < depth; i++) {
+            out = string.concat(out, "  ");
+        }
+    }
+}
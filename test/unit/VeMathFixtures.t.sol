@@ -0,0 +1,216 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "forge-std/Test.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { VeELTA } from "../../src/staking/VeELTA.sol";
+import { ELTA } from "../../src/token/ELTA.sol";
+
+contract VeELTABoostHarness is VeELTA {
+    constructor(IERC20 _elta, address _admin) VeELTA(_elta, _admin) { }
+
+    function calculateBoost(uint256 duration) external pure returns (uint256) {
+        return _calculateBoost(duration);
+    }
+}
+
+/**
+ * @title VeMathFixturesTest
+ * @notice Records VeELTA boosts and lock / increaseAmount / extendLock
+ *         outcomes for the SDK's offline veELTA math (sdk/src/veMath.ts)
+ * @dev Fails when sdk/test/fixtures/ve-math.json no longer matches the
+ *      contract. Regenerate with:
+ *      WRITE_VE_FIXTURES=true forge test --match-contract VeMathFixtures
+ */
+contract VeMathFixturesTest is Test {
+    string internal constant FIXTURE_PATH = "sdk/test/fixtures/ve-math.json";
+    uint256 internal constant START = 1_700_000_000;
+
+    ELTA public elta;
+
+    address public admin = makeAddr("admin");
+    address public treasury = makeAddr("treasury");
+    address public user = makeAddr("user");
+
+    enum Action {
+        Lock,
+        IncreaseAmount,
+        ExtendLock
+    }
+
+    struct Step {
+        Action action;
+        uint256 timestamp;
+        uint256 amount; // lock / increaseAmount
+        uint256 unlockTime; // lock / extendLock
+    }
+
+    struct Sequence {
+        string name;
+        Step[] steps;
+    }
+
+    function setUp() public {
+        elta = new ELTA("ELTA", "ELTA", admin, treasury, 10_000_000 ether, 0);
+    }
+
+    function test_VeMathFixtures() public {
+        string[] memory fields = new string[](2);
+        fields[0] = _kv("boost", _recordBoosts(1));
+        fields[1] = _kv("sequences", _recordSequences(1));
+        string memory json = string.concat(_object(fields, 0), "\n");
+
+        if (vm.envOr("WRITE_VE_FIXTURES", false)) {
+            vm.writeFile(FIXTURE_PATH, json);
+            return;
+        }
+
+        assertEq(
+            vm.readFile(FIXTURE_PATH),
+            json,
+            "ve-math.json is stale: rerun with WRITE_VE_FIXTURES=true"
+        );
+    }
+
+    function _recordBoosts(uint256 depth) internal returns (string memory) {
+        VeELTABoostHarness harness = new VeELTABoostHarness(elta, admin);
+
+        uint256[] memory durations = new uint256[](10);
+        durations[0] = 0;
+        durations[1] = 1;
+        durations[2] = 7 days;
+        durations[3] = 7 days + 1;
+        durations[4] = 30 days;
+        durations[5] = 365 days;
+        durations[6] = 730 days - 1;
+        durations[7] = 730 days;
+        durations[8] = 731 days;
+        durations[9] = 4 * 365 days;
+
+        string[] memory items = new string[](durations.length);
+        for (uint256 i = 0; i < durations.length; i++) {
+            string[] memory fields = new string[](2);
+            fields[0] = _kv("duration", _num(durations[i]));
+            fields[1] = _kv("boost", _num(harness.calculateBoost(durations[i])));
+            items[i] = _object(fields, depth + 1);
+        }
+        return _array(items, depth);
+    }
+
+    function _recordSequences(uint256 depth) internal returns (string memory) {
+        Sequence[] memory sequences = new Sequence[](3);
+
+        Step[] memory maxLock = new Step[](3);
+        maxLock[0] = Step(Action.Lock, START, 1000 ether, START + 730 days);
+        maxLock[1] = Step(Action.IncreaseAmount, START + 100 days, 500 ether, 0);
+        maxLock[2] = Step(Action.ExtendLock, START + 300 days, 0, START + 1030 days);
+        sequences[0] = Sequence("max-lock", maxLock);
+
+        Step[] memory shortOdd = new Step[](3);
+        shortOdd[0] =
+            Step(Action.Lock, START, 123_456_789_012_345_678_901 + 7, START + 7 days + 1);
+        shortOdd[1] = Step(Action.IncreaseAmount, START + 3 days, 1, 0);
+        shortOdd[2] = Step(Action.ExtendLock, START + 5 days, 0, START + 400 days);
+        sequences[1] = Sequence("short-odd-amounts", shortOdd);
+
+        Step[] memory expired = new Step[](3);
+        expired[0] = Step(Action.Lock, START, 77 ether, START + 30 days);
+        expired[1] = Step(Action.ExtendLock, START + 45 days, 0, START + 410 days);
+        expired[2] = Step(Action.IncreaseAmount, START + 46 days, 33 ether, 0);
+        sequences[2] = Sequence("extend-after-expiry", expired);
+
+        string[] memory items = new string[](sequences.length);
+        for (uint256 i = 0; i < sequences.length; i++) {
+            items[i] = _runSequence(sequences[i], depth + 1);
+        }
+        return _array(items, depth);
+    }
+
+    /// @dev Fresh VeELTA per sequence; records the lock after each step
+    function _runSequence(Sequence memory s, uint256 depth) internal returns (string memory) {
+        VeELTA veElta = new VeELTA(elta, admin);
+
+        vm.prank(treasury);
+        elta.transfer(user, 10_000 ether);
+        vm.prank(user);
+        elta.approve(address(veElta), type(uint256).max);
+
+        string[] memory steps = new string[](s.steps.length);
+        for (uint256 i = 0; i < s.steps.length; i++) {
+            Step memory step = s.steps[i];
+            vm.warp(step.timestamp);
+
+            vm.prank(user);
+            if (step.action == Action.Lock) {
+                veElta.lock(step.amount, uint64(step.unlockTime));
+            } else if (step.action == Action.IncreaseAmount) {
+                veElta.increaseAmount(step.amount);
+            } else {
+                veElta.extendLock(uint64(step.unlockTime));
+            }
+
+            (uint256 principal, uint64 unlockTime, uint256 veBalance,) =
+                veElta.getLockDetails(user);
+
+            string[] memory fields = new string[](7);
+            fields[0] = _kv("action", string.concat('"', _actionName(step.action), '"'));
+            fields[1] = _kv("timestamp", _num(step.timestamp));
+            fields[2] = _kv("amount", _num(step.amount));
+            fields[3] = _kv("unlockTime", _num(step.unlockTime));
+            fields[4] = _kv("principalAfter", _num(principal));
+            fields[5] = _kv("unlockTimeAfter", _num(unlockTime));
+            fields[6] = _kv("veBalanceAfter", _num(veBalance));
+            steps[i] = _object(fields, depth + 2);
+        }
+
+        string[] memory fields = new string[](2);
+        fields[0] = _kv("name", string.concat('"', s.name, '"'));
+        fields[1] = _kv("steps", _array(steps, depth + 1));
+        return _object(fields, depth);
+    }
+
+    function _actionName(Action action) internal pure returns (string memory) {
+        if (action == Action.Lock) return "lock";
+        if (action == Action.IncreaseAmount) return "increaseAmount";
+        return "extendLock";
+    }
+
+    // ---- JSON writer (matches JSON.stringify(value, null, 2)) ----
+
+    function _num(uint256 value) internal pure returns (string memory) {
+        return string.concat('"', vm.toString(value), '"');
+    }
+
+    function _kv(string memory key, string memory value) internal pure returns (string memory) {
+        return string.concat('"', key, '": ', value);
+    }
+
+    function _object(string[] memory fields, uint256 depth) internal pure returns (string memory) {
+        return _join(fields, depth, "{", "}");
+    }
+
+    function _array(string[] memory items, uint256 depth) internal pure returns (string memory) {
+        return _join(items, depth, "[", "]");
+    }
+
+    function _join(string[] memory items, uint256 depth, string memory open, string memory close)
+        internal
+        pure
+        returns (string memory out)
+    {
+        if (items.length == 0) return string.concat(open, close);
+
+        out = string.concat(open, "\n");
+        for (uint256 i = 0; i < items.length; i++) {
+            string memory separator = i + 1 < items.length ? ",\n" : "\n";
+            out = string.concat(out, _indent(depth + 1), items[i], separator);
+        }
+        out = string.concat(out, _indent(depth), close);
+    }
+
+    function _indent(uint256 depth) internal pure returns (string memory out) {
+        for (uint256 i = 0; i < depth; i++) {
+            out = string.concat(out, "  ");
+        }
+    }
+}